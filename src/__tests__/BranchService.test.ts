@@ -0,0 +1,121 @@
+import { getClient } from 'azure-devops-extension-api';
+import { BranchService } from '../services/BranchService';
+import type { RepoService } from '../services/RepoService';
+import type { CreateBranchParams } from '../common/types';
+import { ZERO_OBJECT_ID } from '../common/constants';
+
+const client = (getClient as jest.Mock)() as { updateRefs: jest.Mock };
+
+function target(repoId: string): CreateBranchParams {
+  return {
+    repoId,
+    repoName: `Repo ${repoId}`,
+    projectId: 'proj',
+    branchName: 'feature/42-login',
+    sourceBranchName: 'main',
+    sourceObjectId: `sha-${repoId}`,
+    workItemId: 42,
+    workItemType: 'User Story',
+  };
+}
+
+/** Answers each updateRefs call in turn: true = success, false = failure */
+function refUpdates(...outcomes: boolean[]) {
+  for (const success of outcomes) {
+    client.updateRefs.mockResolvedValueOnce([{ success, customMessage: success ? undefined : 'TF401027: denied' }]);
+  }
+}
+
+describe('BranchService', () => {
+  let repoService: { branchExists: jest.Mock; invalidateBranchCache: jest.Mock };
+  let service: BranchService;
+
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+    client.updateRefs.mockReset();
+    repoService = {
+      branchExists: jest.fn().mockResolvedValue(false),
+      invalidateBranchCache: jest.fn(),
+    };
+    service = new BranchService(repoService as unknown as RepoService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('createBranches', () => {
+    it('creates the branch in every repository', async () => {
+      refUpdates(true, true);
+      const results = await service.createBranches([target('a'), target('b')], true);
+      expect(results.map((r) => r.status)).toEqual(['created', 'created']);
+      expect(client.updateRefs).toHaveBeenCalledTimes(2);
+    });
+
+    it('rolls back and skips the rest after the first failure', async () => {
+      refUpdates(true, false, true);
+      const results = await service.createBranches([target('a'), target('b'), target('c')], true);
+
+      expect(results.map((r) => [r.repoId, r.status])).toEqual([
+        ['a', 'rolledBack'],
+        ['b', 'failed'],
+        ['c', 'skipped'],
+      ]);
+      expect(results[1].error).toBe('TF401027: denied');
+      // The third call deletes the branch created in "a"
+      expect(client.updateRefs).toHaveBeenCalledTimes(3);
+      const [[update], repoId] = client.updateRefs.mock.calls[2];
+      expect(repoId).toBe('a');
+      expect(update).toMatchObject({
+        name: 'refs/heads/feature/42-login',
+        newObjectId: ZERO_OBJECT_ID,
+        oldObjectId: 'sha-a',
+      });
+    });
+
+    it('tries every repository without rollback', async () => {
+      refUpdates(true, false, true);
+      const results = await service.createBranches([target('a'), target('b'), target('c')], false);
+
+      expect(results.map((r) => [r.repoId, r.status])).toEqual([
+        ['a', 'created'],
+        ['b', 'failed'],
+        ['c', 'created'],
+      ]);
+      expect(client.updateRefs).toHaveBeenCalledTimes(3);
+      for (const [[update]] of client.updateRefs.mock.calls) {
+        expect(update.newObjectId).not.toBe(ZERO_OBJECT_ID);
+      }
+    });
+
+    it('keeps the branch created when it cannot be deleted', async () => {
+      refUpdates(true, false, false);
+      const results = await service.createBranches([target('a'), target('b')], true);
+
+      expect(results[0]).toMatchObject({ repoId: 'a', status: 'created', rollbackFailed: true });
+      expect(results[1]).toMatchObject({ repoId: 'b', status: 'failed' });
+    });
+  });
+
+  describe('deleteBranch', () => {
+    it('deletes the branch only if it still points at the given commit', async () => {
+      refUpdates(true);
+      await expect(service.deleteBranch('proj', 'a', 'feature/x', 'sha-1')).resolves.toBe(true);
+      expect(client.updateRefs.mock.calls[0][0][0]).toMatchObject({
+        name: 'refs/heads/feature/x',
+        newObjectId: ZERO_OBJECT_ID,
+        oldObjectId: 'sha-1',
+      });
+      expect(repoService.invalidateBranchCache).toHaveBeenCalledWith('proj', 'a');
+    });
+
+    it('reports a rejected or failed deletion as false', async () => {
+      refUpdates(false);
+      await expect(service.deleteBranch('proj', 'a', 'feature/x', 'sha-1')).resolves.toBe(false);
+
+      client.updateRefs.mockRejectedValueOnce(new Error('network'));
+      await expect(service.deleteBranch('proj', 'a', 'feature/x', 'sha-1')).resolves.toBe(false);
+      expect(repoService.invalidateBranchCache).not.toHaveBeenCalled();
+    });
+  });
+});
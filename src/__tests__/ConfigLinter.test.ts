@@ -0,0 +1,148 @@
+import { lintConfig } from '../rules/ConfigLinter';
+import { DEFAULT_CONFIG } from '../common/constants';
+import type { ExtensionConfig, SourceBranchRule } from '../common/types';
+
+const rule = (name: string, matchType: 'glob' | 'regex', match: string, prefix = 'x/'): SourceBranchRule => ({
+  name,
+  matchType,
+  match,
+  prefix,
+  template: '{prefix}{wi.id}-{wi.title}',
+});
+
+const config = (changes: Partial<ExtensionConfig>): ExtensionConfig => ({
+  ...(DEFAULT_CONFIG as ExtensionConfig),
+  rulesBySourceBranch: [],
+  rulesByWorkItemType: [],
+  ...changes,
+});
+
+describe('lintConfig', () => {
+  it('has no errors on the default config', () => {
+    expect(lintConfig(DEFAULT_CONFIG as ExtensionConfig).errors).toEqual([]);
+  });
+
+  it('reports invalid regexes and globs', () => {
+    const { errors } = lintConfig(config({
+      rulesBySourceBranch: [rule('A', 'regex', '^release(/.*$'), rule('B', 'glob', 'release/[0-9'), rule('C', 'glob', '')],
+    }));
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatch(/^rulesBySourceBranch\[0\]\.match: invalid regex/);
+    expect(errors[1]).toBe('rulesBySourceBranch[1].match: invalid glob (unclosed "[")');
+    expect(errors[2]).toBe('rulesBySourceBranch[2].match: invalid glob (empty pattern)');
+  });
+
+  it('reports a rule shadowed by a broader rule above it', () => {
+    const { warnings } = lintConfig(config({
+      rulesBySourceBranch: [
+        rule('Release', 'regex', '^release.*$'),
+        rule('Numbered release', 'regex', '^release\\d+(/.*)?$'),
+        rule('Hotfix', 'glob', 'hotfix/*'),
+        rule('Hotfix 1.x', 'glob', 'hotfix/1.*'),
+      ],
+    }));
+    expect(warnings).toEqual([
+      expect.stringMatching(/^rulesBySourceBranch\[1\]: "Numbered release" is shadowed by rulesBySourceBranch\[0\] \("Release"\)/),
+      expect.stringMatching(/^rulesBySourceBranch\[3\]: "Hotfix 1.x" is shadowed by rulesBySourceBranch\[2\]/),
+    ]);
+  });
+
+  it('does not report narrower rules placed first', () => {
+    const { warnings } = lintConfig(config({
+      rulesBySourceBranch: [
+        rule('Numbered release', 'regex', '^release\\d+(/.*)?$'),
+        rule('Release', 'regex', '^release(/.*)?$'),
+        rule('Hotfix', 'glob', 'hotfix/{1,2}.*'),
+        rule('Hotfix 1.x', 'glob', 'hotfix/1.*'),
+      ],
+    }));
+    expect(warnings.filter((w) => w.includes('shadowed'))).toEqual([
+      expect.stringMatching(/^rulesBySourceBranch\[3\]/),
+    ]);
+  });
+
+  it('does not take a single repetition above a repeated one for shadowing', () => {
+    const { warnings } = lintConfig(config({
+      rulesBySourceBranch: [
+        rule('Short release', 'regex', '^release/\\d\\.\\d$'),
+        rule('Release', 'regex', '^release/\\d+\\.\\d+$'),
+        rule('Short hotfix', 'regex', '^hotfix/\\d$'),
+        rule('Hotfix', 'regex', '^hotfix/\\d+$'),
+        rule('Short version', 'regex', '^v[0-9]{1}$'),
+        rule('Version', 'regex', '^v[0-9]{1,3}$'),
+        rule('Two digits', 'regex', '^n[0-9]{2}$'),
+        rule('Two or more digits', 'regex', '^n[0-9]{2,}$'),
+      ],
+    }));
+    expect(warnings.filter((w) => w.includes('shadowed'))).toEqual([]);
+  });
+
+  it('reports duplicate work item types', () => {
+    const { errors } = lintConfig(config({
+      rulesByWorkItemType: [
+        { workItemType: 'Bug', prefix: 'bugfix/', template: '{prefix}{wi.id}' },
+        { workItemType: 'bug ', prefix: 'fix/', template: '{prefix}{wi.id}' },
+      ],
+    }));
+    expect(errors).toEqual(['rulesByWorkItemType[1].workItemType: duplicate of rulesByWorkItemType[0] ("bug "); it never applies']);
+  });
+
+  it('reports unknown template tokens', () => {
+    const { errors } = lintConfig(config({
+      defaults: { template: 'feature/{wi.id}-{wi.titel|slug}-{parent.id}-{ancestor:Epic.title}-{date:YYYY}-{match.1}' },
+    }));
+    expect(errors).toEqual(['defaults.template: unknown token "{wi.titel}"']);
+  });
+
+  it('reports unknown filters and invalid filter arguments', () => {
+    const { errors } = lintConfig(config({
+      defaults: { template: 'feature/{wi.id}-{wi.title|nope}-{wi.type|max:abc}' },
+    }));
+    expect(errors).toEqual([
+      'defaults.template: Unknown template filter "nope" in "{wi.title|nope}"',
+      'defaults.template: Filter "max" requires a non-negative integer argument (e.g. max:10) in "{wi.type|max:abc}"',
+    ]);
+  });
+
+  it('reports invalid regexes in field conditions', () => {
+    const { errors } = lintConfig(config({
+      rules: [{
+        name: 'Payments',
+        when: {
+          match: 'all',
+          predicates: [
+            { kind: 'field', field: 'Custom.Component', operator: 'regex', value: '^(pay' },
+            { kind: 'field', field: 'Custom.Team', operator: 'regex', value: '^core$' },
+          ],
+        },
+        template: 'pay/{wi.id}',
+      }],
+    }));
+    expect(errors).toEqual([expect.stringMatching(/^rules\[0\]\.when\.predicates\[0\]\.value: invalid regex/)]);
+  });
+
+  it('reports prefix folders that differ only in case, unless names are lowercased', () => {
+    const rules = [rule('A', 'glob', 'a/*', 'Feature/'), rule('B', 'glob', 'b/*', 'feature/ui/')];
+    expect(lintConfig(config({
+      general: { ...DEFAULT_CONFIG.general, lowercase: false },
+      rulesBySourceBranch: rules,
+    })).errors).toEqual([
+      'rulesBySourceBranch[1].prefix: folder "feature/" differs only in case from "Feature/" (rulesBySourceBranch[0].prefix)',
+      'defaults.template: folder "feature/" differs only in case from "Feature/" (rulesBySourceBranch[0].prefix)',
+    ]);
+    expect(lintConfig(config({ rulesBySourceBranch: rules })).errors).toEqual([]);
+  });
+
+  it('lints a source branch rule stored without a prefix', () => {
+    const { prefix: _, ...withoutPrefix } = rule('Release', 'glob', 'release/*');
+    const result = lintConfig(config({ rulesBySourceBranch: [withoutPrefix as SourceBranchRule] }));
+    expect(result.errors).toEqual([]);
+  });
+
+  it('warns when a prefix folder is also a branch a rule matches exactly', () => {
+    const { warnings } = lintConfig(config({ rulesBySourceBranch: [rule('Mac', 'regex', '^mac$', 'mac/')] }));
+    expect(warnings).toEqual([
+      'rulesBySourceBranch[0].prefix: branches under "mac/" cannot be created while a branch named "mac" exists (matched by rulesBySourceBranch[0])',
+    ]);
+  });
+});
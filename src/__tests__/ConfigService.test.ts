@@ -0,0 +1,108 @@
+import * as SDK from 'azure-devops-extension-sdk';
+import { ConfigConflictError, ConfigService } from '../services/ConfigService';
+import type { ExtensionConfig } from '../common/types';
+import { DEFAULT_CONFIG } from '../common/constants';
+
+interface StoredDocument {
+  id: string;
+  __etag: number;
+  [key: string]: unknown;
+}
+
+/**
+ * In-memory extension data manager with the service's concurrency rules:
+ * setDocument rejects an outdated __etag, createDocument an existing id.
+ */
+function fakeDataManager() {
+  const docs = new Map<string, StoredDocument>();
+  const key = (collection: string, id: string) => `${collection}/${id}`;
+  const store = (collection: string, doc: Record<string, unknown>, etag: number) => {
+    const saved = { ...doc, __etag: etag } as StoredDocument;
+    docs.set(key(collection, saved.id), saved);
+    return { ...saved };
+  };
+  return {
+    docs,
+    getDocument: jest.fn(async (collection: string, id: string) => {
+      const doc = docs.get(key(collection, id));
+      if (!doc) throw { status: 404, message: 'Document not found (404)' };
+      return { ...doc };
+    }),
+    createDocument: jest.fn(async (collection: string, doc: Record<string, unknown>) => {
+      if (docs.has(key(collection, doc.id as string))) {
+        throw { status: 409, message: 'DocumentExistsException' };
+      }
+      return store(collection, doc, 1);
+    }),
+    setDocument: jest.fn(async (collection: string, doc: Record<string, unknown>) => {
+      const current = docs.get(key(collection, doc.id as string));
+      if (current && doc.__etag !== undefined && doc.__etag !== current.__etag) {
+        throw { status: 409, message: 'InvalidDocumentVersionException' };
+      }
+      return store(collection, doc, (current?.__etag ?? 0) + 1);
+    }),
+    deleteDocument: jest.fn(async (collection: string, id: string) => {
+      docs.delete(key(collection, id));
+    }),
+  };
+}
+
+/** Each ConfigService plays one admin with the settings page open */
+async function openSettings(): Promise<{ service: ConfigService; project: ExtensionConfig; organization: ExtensionConfig }> {
+  const service = new ConfigService('proj');
+  const { project, organization } = await service.loadForEditing();
+  return { service, project, organization: organization ?? (DEFAULT_CONFIG as ExtensionConfig) };
+}
+
+describe('ConfigService – concurrent saves', () => {
+  let dataManager: ReturnType<typeof fakeDataManager>;
+
+  beforeEach(() => {
+    for (const method of ['log', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+    dataManager = fakeDataManager();
+    (SDK.getService as jest.Mock).mockResolvedValue({
+      getExtensionDataManager: jest.fn().mockResolvedValue(dataManager),
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rejects the second of two first saves', async () => {
+    const alice = new ConfigService('proj');
+    const bob = new ConfigService('proj');
+    const { project: aliceConfig } = await alice.loadForEditing();
+    const { project: bobConfig } = await bob.loadForEditing();
+
+    await alice.save({ ...aliceConfig, general: { ...aliceConfig.general, maxLength: 40 } });
+    await expect(bob.save({ ...bobConfig, general: { ...bobConfig.general, maxLength: 60 } }))
+      .rejects.toBeInstanceOf(ConfigConflictError);
+
+    const stored = dataManager.docs.get('$settings/branchpilot-config-proj');
+    expect((stored?.value as ExtensionConfig).general.maxLength).toBe(40);
+  });
+
+  it('refreshes only the etag of the scope that conflicted', async () => {
+    // Both layers exist before the two admins open the page
+    const setup = await openSettings();
+    await setup.service.saveOrganization(setup.organization);
+    await setup.service.save(setup.project);
+
+    const alice = await openSettings();
+    const bob = await openSettings();
+    await bob.service.saveOrganization({ ...bob.organization, general: { ...bob.organization.general, maxLength: 50 } });
+    await bob.service.save({ ...bob.project, general: { ...bob.project.general, maxLength: 70 } });
+
+    // Alice's project save conflicts; after reloading it, her project save goes through...
+    await expect(alice.service.save(alice.project)).rejects.toBeInstanceOf(ConfigConflictError);
+    const reloaded = await alice.service.reloadAfterConflict('project');
+    await alice.service.save(reloaded.project);
+
+    // ...but her pending organization edits still conflict with Bob's save
+    await expect(alice.service.saveOrganization({ ...alice.organization, general: { ...alice.organization.general, maxLength: 30 } }))
+      .rejects.toBeInstanceOf(ConfigConflictError);
+    const stored = dataManager.docs.get('$settings/branchpilot-config');
+    expect((stored?.value as ExtensionConfig).general.maxLength).toBe(50);
+  });
+});
@@ -0,0 +1,114 @@
+import { validateConfig } from '../rules/ConfigValidator';
+import { CONFIG_SCHEMA, validateSchema } from '../common/configSchema';
+import { DEFAULT_CONFIG } from '../common/constants';
+
+/** A deep copy of the default config, as a plain JSON document */
+const defaults = (): Record<string, any> => JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+
+describe('validateConfig', () => {
+  it('accepts the default config', () => {
+    expect(validateConfig(defaults())).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports missing required properties with their path', () => {
+    const config = defaults();
+    delete config.rulesBySourceBranch[3].template;
+    expect(validateConfig(config).errors).toEqual(['rulesBySourceBranch[3].template: is required']);
+  });
+
+  it('warns about unknown properties and suggests the right casing', () => {
+    const config = defaults();
+    config.rulesBySourceBranch[0].matchtype = config.rulesBySourceBranch[0].matchType;
+    delete config.rulesBySourceBranch[0].matchType;
+    const result = validateConfig(config);
+    expect(result.errors).toEqual(['rulesBySourceBranch[0].matchType: is required']);
+    expect(result.warnings).toEqual(['rulesBySourceBranch[0].matchtype: unknown property (did you mean "matchType"?)']);
+  });
+
+  it('reports wrong types and enum values', () => {
+    const config = defaults();
+    config.general.maxLength = '80';
+    config.general.truncation = 'middle';
+    config.rulesByWorkItemType[0].workItemState.enabled = 'yes';
+    expect(validateConfig(config).errors).toEqual([
+      'general.maxLength: must be an integer',
+      'general.truncation: must be one of hard, word-boundary, drop-middle-words',
+      'rulesByWorkItemType[0].workItemState.enabled: must be a boolean',
+    ]);
+  });
+
+  it('selects the predicate schema by kind', () => {
+    const config = defaults();
+    config.rules = [
+      {
+        name: 'Mobile',
+        when: { match: 'all', predicates: [{ kind: 'tags', tags: ['mobile'] }, { kind: 'label' }] },
+        template: '{wi.id}',
+      },
+    ];
+    expect(validateConfig(config).errors).toEqual([
+      'rules[0].when.predicates[0].mode: is required',
+      expect.stringMatching(/^rules\[0\]\.when\.predicates\[1\]\.kind: must be one of sourceBranch, workItemType/),
+    ]);
+  });
+
+  it('reports invalid regexes', () => {
+    const config = defaults();
+    config.rulesBySourceBranch[3].match = '^release(/.*$';
+    config.rules = [
+      {
+        name: 'Component',
+        when: { match: 'any', predicates: [{ kind: 'field', field: 'Custom.Component', operator: 'regex', value: '[' }] },
+        template: '{wi.id}',
+      },
+    ];
+    const { valid, errors } = validateConfig(config);
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      expect.stringMatching(/^rulesBySourceBranch\[3\]\.match: invalid regex \(/),
+      expect.stringMatching(/^rules\[0\]\.when\.predicates\[0\]\.value: invalid regex \(/),
+    ]);
+  });
+
+  it('reports unknown template filters', () => {
+    const config = defaults();
+    config.defaults.template = 'feature/{wi.title|shout}';
+    expect(validateConfig(config).errors).toEqual([
+      'defaults.template: Unknown template filter "shout" in "{wi.title|shout}".',
+    ]);
+  });
+
+  it('validates repo overrides keyed by repository', () => {
+    const config = defaults();
+    config.repoOverrides = { api: { defaultTemplate: '' } };
+    expect(validateConfig(config).errors).toEqual(['repoOverrides.api.defaultTemplate: must not be empty']);
+  });
+
+  it('validates the rules and general settings of repo overrides', () => {
+    const config = defaults();
+    config.repoOverrides = {
+      'mobile-*': {
+        general: { maxLength: 0 },
+        rulesBySourceBranch: [{ name: 'Broken', matchType: 'regex', match: '(', prefix: '', template: '{wi.id}' }],
+        ruleLists: { rulesBySourceBranch: 'replace' },
+      },
+    };
+    expect(validateConfig(config).errors).toEqual(['repoOverrides.mobile-*.general.maxLength: must be at least 1']);
+
+    config.repoOverrides['mobile-*'].general = { maxLength: 40 };
+    expect(validateConfig(config).errors).toEqual([
+      expect.stringMatching(/^repoOverrides\.mobile-\*\.rulesBySourceBranch\[0\]\.match: invalid regex/),
+    ]);
+  });
+});
+
+describe('CONFIG_SCHEMA', () => {
+  it('is a draft-07 schema that allows a $schema reference', () => {
+    expect(CONFIG_SCHEMA.$schema).toBe('http://json-schema.org/draft-07/schema#');
+    expect(validateSchema({ ...defaults(), $schema: './branchpilot-config.schema.json' }).warnings).toEqual([]);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateSchema(null).errors).toEqual(['(root): must be an object']);
+  });
+});
@@ -0,0 +1,148 @@
+import { applyRepoConfig, applyRepoOverride, findRepoOverride, parseRepoConfigFile, RepoConfigError } from '../rules/RepoConfig';
+import type { ExtensionConfig } from '../common/types';
+
+const project: ExtensionConfig = {
+  schemaVersion: 1,
+  general: {
+    lowercase: true,
+    nonAlnumReplacement: '-',
+    maxLength: 80,
+    allowManualNameOverride: false,
+    language: 'en',
+  },
+  defaults: { template: 'feature/{wi.id}-{wi.title}' },
+  repoOverrides: {},
+  rulesBySourceBranch: [{ name: 'Hotfix', matchType: 'glob', match: 'hotfix/*', prefix: 'hotfix/', template: '{prefix}{wi.id}' }],
+  rulesByWorkItemType: [{ workItemType: 'Bug', prefix: 'bugfix/', template: '{prefix}{wi.id}' }],
+};
+
+function problemsOf(path: string, content: string): string[] {
+  try {
+    parseRepoConfigFile(path, content);
+  } catch (err) {
+    if (err instanceof RepoConfigError) return err.problems;
+    throw err;
+  }
+  return [];
+}
+
+describe('parseRepoConfigFile', () => {
+  it('reads JSON and YAML files into a config layer', () => {
+    const json = parseRepoConfigFile('.branchpilot.json', JSON.stringify({
+      general: { maxLength: 40 },
+      rulesByWorkItemType: [{ workItemType: 'Task', prefix: 'task/', template: '{prefix}{wi.id}' }],
+    }));
+    const yaml = parseRepoConfigFile('.branchpilot.yml', [
+      'general:',
+      '  maxLength: 40',
+      'rulesByWorkItemType:',
+      '  - workItemType: Task',
+      '    prefix: task/',
+      "    template: '{prefix}{wi.id}'",
+    ].join('\n'));
+
+    expect(yaml.layer).toEqual(json.layer);
+    expect(json.layer.general).toEqual({ maxLength: 40 });
+    expect(json.warnings).toEqual([]);
+  });
+
+  it('reports syntax errors', () => {
+    expect(problemsOf('.branchpilot.json', '{ "general": ')).toHaveLength(1);
+    expect(problemsOf('.branchpilot.yaml', 'general:\n  maxLength: 40\n    lowercase: true')).toEqual(['line 3: unexpected indentation']);
+    expect(problemsOf('.branchpilot.json', '[]')).toEqual(['(root): must be an object']);
+  });
+
+  it('validates the file on its own, with the file\'s paths', () => {
+    const problems = problemsOf('.branchpilot.json', JSON.stringify({
+      general: { maxLength: 'long' },
+      rulesBySourceBranch: [{ name: 'Broken', matchType: 'regex', match: '(', prefix: '', template: '{wi.id}' }],
+    }));
+    expect(problems).toEqual(['general.maxLength: must be an integer']);
+
+    expect(problemsOf('.branchpilot.json', JSON.stringify({
+      rulesBySourceBranch: [{ name: 'Broken', matchType: 'regex', match: '(', prefix: '', template: '{wi.id}' }],
+    }))).toEqual([expect.stringMatching(/^rulesBySourceBranch\[0\]\.match: invalid regex/)]);
+  });
+
+  it('rejects files written for a newer schema version', () => {
+    expect(problemsOf('.branchpilot.json', JSON.stringify({ schemaVersion: 99 }))[0]).toMatch(/99/);
+  });
+
+  it('ignores settings that stay with the project admins', () => {
+    const file = parseRepoConfigFile('.branchpilot.json', JSON.stringify({
+      $schema: './branchpilot-config.schema.json',
+      general: { allowManualNameOverride: true, language: 'it', lowercase: false, duplicateBranches: 'confirm' },
+      repoOverrides: { web: { defaultTemplate: 'web/{wi.id}' } },
+    }));
+    expect(file.layer).toEqual({ schemaVersion: 1, general: { lowercase: false } });
+    expect(file.warnings).toEqual([
+      'repoOverrides: ignored in repository config files',
+      'general.language: ignored in repository config files',
+      'general.allowManualNameOverride: ignored in repository config files',
+      'general.duplicateBranches: ignored in repository config files',
+    ]);
+  });
+});
+
+describe('applyRepoConfig', () => {
+  it('puts the repository rules before the project rules by default', () => {
+    const { layer } = parseRepoConfigFile('.branchpilot.json', JSON.stringify({
+      defaults: { template: 'web/{wi.id}' },
+      rulesBySourceBranch: [{ name: 'Release', matchType: 'glob', match: 'release/*', prefix: 'rel/', template: '{prefix}{wi.id}' }],
+    }));
+    const config = applyRepoConfig(project, layer);
+
+    expect(config.defaults.template).toBe('web/{wi.id}');
+    expect(config.rulesBySourceBranch.map((r) => r.name)).toEqual(['Release', 'Hotfix']);
+    expect(config.rulesByWorkItemType).toEqual(project.rulesByWorkItemType);
+    expect(config.general).toEqual(project.general);
+  });
+
+  it('follows the file\'s rule list modes', () => {
+    const { layer } = parseRepoConfigFile('.branchpilot.json', JSON.stringify({
+      inheritance: { enabled: true, ruleLists: { rulesByWorkItemType: 'replace' } },
+      rulesByWorkItemType: [],
+    }));
+    expect(applyRepoConfig(project, layer).rulesByWorkItemType).toEqual([]);
+  });
+});
+
+describe('findRepoOverride', () => {
+  const overrides = {
+    'mobile-*': { defaultTemplate: 'mobile/{wi.id}' },
+    'Mobile-App': { defaultTemplate: 'app/{wi.id}' },
+    'a1b2c3': { defaultTemplate: 'by-id/{wi.id}' },
+  };
+
+  it('prefers an exact ID or name over a glob', () => {
+    expect(findRepoOverride(overrides, { id: 'a1b2c3', name: 'mobile-web' })?.key).toBe('a1b2c3');
+    expect(findRepoOverride(overrides, { id: 'x', name: 'mobile-app' })?.key).toBe('Mobile-App');
+  });
+
+  it('matches names against globs case-insensitively', () => {
+    expect(findRepoOverride(overrides, { id: 'x', name: 'MOBILE-web' })?.key).toBe('mobile-*');
+    expect(findRepoOverride(overrides, { id: 'x', name: 'payments' })).toBeNull();
+    expect(findRepoOverride(undefined, { id: 'x', name: 'payments' })).toBeNull();
+  });
+});
+
+describe('applyRepoOverride', () => {
+  const release = { name: 'Release', matchType: 'glob' as const, match: 'release/*', prefix: 'rel/', template: '{prefix}{wi.id}' };
+
+  it('overrides general settings and defaults field by field', () => {
+    const config = applyRepoOverride(project, { general: { maxLength: 40, lowercase: false }, defaultTemplate: 'mono/{wi.id}' });
+    expect(config.general).toEqual({ ...project.general, maxLength: 40, lowercase: false });
+    expect(config.defaults).toEqual({ template: 'mono/{wi.id}' });
+  });
+
+  it('extends the project rule lists, or replaces them when asked to', () => {
+    expect(applyRepoOverride(project, { rulesBySourceBranch: [release] }).rulesBySourceBranch.map((r) => r.name))
+      .toEqual(['Release', 'Hotfix']);
+    expect(applyRepoOverride(project, { rulesBySourceBranch: [release], ruleLists: { rulesBySourceBranch: 'append' } })
+      .rulesBySourceBranch.map((r) => r.name)).toEqual(['Hotfix', 'Release']);
+
+    const replaced = applyRepoOverride(project, { rulesByWorkItemType: [], ruleLists: { rulesByWorkItemType: 'replace' } });
+    expect(replaced.rulesByWorkItemType).toEqual([]);
+    expect(replaced.rulesBySourceBranch).toEqual(project.rulesBySourceBranch);
+  });
+});
@@ -183,6 +183,46 @@ describe('RulesEngine – computeBranchName', () => {
     const name = engine.computeBranchName(wiUserStory, 'release/2024-Q1');
     expect(name.startsWith('release/')).toBe(true);
   });
+
+  it('applies stop words and abbreviations to the title before truncation', () => {
+    const shortening = new RulesEngine({
+      ...baseConfig,
+      general: {
+        ...baseConfig.general,
+        maxLength: 40,
+        stopWordLanguages: ['en', 'it'],
+        abbreviations: { authentication: 'auth', configuration: 'config' },
+      },
+    });
+    const wiLong: WorkItemContext = {
+      ...wiTask,
+      title: 'Fix the authentication configuration per l\'ambiente di test',
+    };
+    expect(shortening.computeBranchName(wiLong, 'main')).toBe('feature/7-fix-auth-config-ambiente-test');
+  });
+
+  it('keeps a trailing work item id when truncating', () => {
+    const trailingId = new RulesEngine({
+      ...baseConfig,
+      general: { ...baseConfig.general, maxLength: 30 },
+      defaults: { template: '{wi.type}/{wi.title}-{wi.id}' },
+    });
+    const wiLong: WorkItemContext = { ...wiTask, title: 'Write unit tests for the login page' };
+    expect(trailingId.computeBranchName(wiLong, 'main')).toBe('task/write-unit-tests-for-th-7');
+  });
+
+  it('applies the configured truncation strategy to the title only', () => {
+    const config: ExtensionConfig = {
+      ...baseConfig,
+      general: { ...baseConfig.general, maxLength: 30 },
+      defaults: { template: '{wi.type}/{wi.title}-{wi.id}' },
+    };
+    const wiLong: WorkItemContext = { ...wiTask, title: 'Write unit tests for the login page' };
+    const wordBoundary = new RulesEngine({ ...config, general: { ...config.general, truncation: 'word-boundary' } });
+    const dropMiddle = new RulesEngine({ ...config, general: { ...config.general, truncation: 'drop-middle-words' } });
+    expect(wordBoundary.computeBranchName(wiLong, 'main')).toBe('task/write-unit-tests-for-7');
+    expect(dropMiddle.computeBranchName(wiLong, 'main')).toBe('task/write-unit-login-page-7');
+  });
 });
 
 // ─── workItemState propagation ────────────────────────────────────────────────
@@ -232,3 +272,324 @@ describe('RulesEngine – invalid patterns are skipped', () => {
     expect(rule.prefix).toBe('hotfix/');
   });
 });
+
+// ─── Referenced fields ────────────────────────────────────────────────────────
+
+describe('RulesEngine – getReferencedFields', () => {
+  it('collects {wi.field:…} references from every template', () => {
+    const engine = new RulesEngine({
+      ...baseConfig,
+      defaults: { template: 'feature/{wi.field:Custom.Component}/{wi.id}' },
+      rulesByWorkItemType: [
+        {
+          workItemType: 'Bug',
+          prefix: 'bugfix/',
+          template: '{prefix}p{wi.field:Microsoft.VSTS.Common.Priority}-{wi.id}',
+        },
+      ],
+    });
+    expect(engine.getReferencedFields().sort()).toEqual([
+      'Custom.Component',
+      'Microsoft.VSTS.Common.Priority',
+    ]);
+  });
+
+  it('returns an empty list when no field tokens are used', () => {
+    expect(new RulesEngine(baseConfig).getReferencedFields()).toEqual([]);
+  });
+});
+
+describe('RulesEngine – getAncestorDepth', () => {
+  it('is 0 when no template uses parent or ancestor tokens', () => {
+    expect(new RulesEngine(baseConfig).getAncestorDepth()).toBe(0);
+  });
+
+  it('uses general.ancestorDepth, clamped to the maximum', () => {
+    const config: ExtensionConfig = { ...baseConfig, defaults: { template: 'task/{parent.id}/{wi.id}' } };
+    expect(new RulesEngine(config).getAncestorDepth()).toBe(3);
+    expect(new RulesEngine({ ...config, general: { ...config.general, ancestorDepth: 1 } }).getAncestorDepth()).toBe(1);
+    expect(new RulesEngine({ ...config, general: { ...config.general, ancestorDepth: 99 } }).getAncestorDepth()).toBe(10);
+  });
+
+  it('renders the parent ID in a task branch name', () => {
+    const engine = new RulesEngine({
+      ...baseConfig,
+      rulesByWorkItemType: [{ workItemType: 'Task', prefix: 'task/', template: '{prefix}{parent.id}/{wi.id}-{wi.title}' }],
+    });
+    const wi = { ...wiTask, ancestors: [{ id: 1200, title: 'Checkout', type: 'User Story', state: 'Active' }] };
+    expect(engine.computeBranchName(wi, 'develop')).toBe(`task/1200/${wiTask.id}-write-unit-tests`);
+  });
+});
+
+// ─── Conditional rules ────────────────────────────────────────────────────────
+
+describe('RulesEngine – conditional rules', () => {
+  const mobileConfig: ExtensionConfig = {
+    ...baseConfig,
+    rulesBySourceBranch: [
+      ...baseConfig.rulesBySourceBranch,
+      {
+        name: 'App develop',
+        matchType: 'regex',
+        match: '^app/develop$',
+        prefix: 'app/feature/',
+        template: '{prefix}{wi.id}-{wi.title}',
+      },
+    ],
+    rules: [
+      {
+        name: 'Mobile bugs',
+        when: {
+          match: 'all',
+          predicates: [
+            { kind: 'sourceBranch', matchType: 'glob', match: 'app/develop' },
+            { kind: 'workItemType', types: ['Bug'] },
+          ],
+        },
+        prefix: 'app/bugfix/',
+        template: '{prefix}{wi.id}-{wi.title}',
+      },
+      {
+        name: 'Urgent or customer',
+        priority: 1500,
+        when: {
+          match: 'any',
+          predicates: [
+            { kind: 'tags', tags: ['customer'], mode: 'any' },
+            { kind: 'priority', max: 1 },
+          ],
+        },
+        prefix: 'urgent/',
+        template: '{prefix}{wi.id}-{wi.title}',
+      },
+      {
+        name: 'Payments area',
+        priority: 1500,
+        when: {
+          match: 'all',
+          predicates: [
+            { kind: 'areaPath', under: 'Shop\\Payments' },
+            { kind: 'field', field: 'Custom.Component', operator: 'equals', value: 'api' },
+          ],
+        },
+        prefix: 'payments/',
+        template: '{prefix}{wi.id}-{wi.title}',
+      },
+    ],
+  };
+  const engine = new RulesEngine(mobileConfig);
+
+  it('combines source branch AND work item type', () => {
+    expect(engine.resolveRule('app/develop', wiBug).matchedRuleName).toBe('Mobile bugs');
+    expect(engine.computeBranchName(wiBug, 'app/develop')).toBe('app/bugfix/99-fix-crash-on-login');
+  });
+
+  it('falls back to the legacy source branch rule when one predicate fails', () => {
+    expect(engine.resolveRule('app/develop', wiUserStory).matchedRuleName).toBe('App develop');
+  });
+
+  it('evaluates rules in priority order around the legacy rules', () => {
+    const tagged: WorkItemContext = { ...wiTask, tags: ['Customer'] };
+    // Priority 1500 runs after source branch rules (1000)…
+    expect(engine.resolveRule('hotfix/1.0', tagged).matchedRuleName).toBe('Hotfix glob');
+    // …but before work item type rules (2000) and defaults
+    expect(engine.resolveRule('main', tagged).matchedRuleName).toBe('Urgent or customer');
+  });
+
+  it('supports OR conditions on priority', () => {
+    const p1: WorkItemContext = { ...wiBug, fields: { 'Microsoft.VSTS.Common.Priority': 1 } };
+    const p3: WorkItemContext = { ...wiBug, fields: { 'Microsoft.VSTS.Common.Priority': 3 } };
+    expect(engine.resolveRule('main', p1).matchedRuleName).toBe('Urgent or customer');
+    expect(engine.resolveRule('main', p3).matchedRuleName).toBe('WI type: Bug');
+  });
+
+  it('matches area path prefixes on path boundaries only', () => {
+    const fields = { 'Custom.Component': 'API' };
+    const inArea: WorkItemContext = { ...wiTask, areaPath: 'Shop\\Payments\\Cards', fields };
+    const sibling: WorkItemContext = { ...wiTask, areaPath: 'Shop\\PaymentsLegacy', fields };
+    expect(engine.resolveRule('main', inArea).matchedRuleName).toBe('Payments area');
+    expect(engine.resolveRule('main', sibling).matchedRuleName).toBe('default');
+  });
+
+  it('never matches a rule without predicates', () => {
+    const e = new RulesEngine({
+      ...baseConfig,
+      rules: [{ name: 'Empty', when: { match: 'all', predicates: [] }, template: 'x/{wi.id}' }],
+    });
+    expect(e.resolveRule('main', wiTask).matchedRuleName).toBe('default');
+  });
+
+  it('requests the fields read by conditions', () => {
+    expect(engine.getReferencedFields().sort()).toEqual([
+      'Custom.Component',
+      'Microsoft.VSTS.Common.Priority',
+    ]);
+  });
+});
+
+// ─── Regex capture groups ─────────────────────────────────────────────────────
+
+describe('RulesEngine – source branch capture groups', () => {
+  const releaseConfig: ExtensionConfig = {
+    ...baseConfig,
+    rulesBySourceBranch: [
+      {
+        name: 'Release line hotfix',
+        matchType: 'regex',
+        match: '^release/(?<version>\\d+\\.\\d+)$',
+        prefix: 'hotfix/',
+        template: '{prefix}{match.version}/{wi.id}-{wi.title}',
+      },
+      {
+        name: 'Team branch',
+        matchType: 'regex',
+        match: '^team-(\\w+)/develop$',
+        prefix: '',
+        template: '{match.1}/feature/{wi.id}-{wi.title}',
+      },
+      ...baseConfig.rulesBySourceBranch,
+    ],
+  };
+  const engine = new RulesEngine(releaseConfig);
+
+  it('exposes named groups as {match.name}', () => {
+    expect(engine.computeBranchName(wiUserStory, 'release/2.4')).toBe('hotfix/2.4/42-add-login-feature');
+    expect(engine.computeBranchName(wiUserStory, 'release/3.1')).toBe('hotfix/3.1/42-add-login-feature');
+  });
+
+  it('exposes numbered groups as {match.N}', () => {
+    expect(engine.computeBranchName(wiBug, 'team-payments/develop')).toBe('payments/feature/99-fix-crash-on-login');
+  });
+
+  it('returns the captures with the resolved rule', () => {
+    const rule = engine.resolveRule('release/2.4', wiUserStory);
+    expect(rule.captures).toMatchObject({ '0': 'release/2.4', '1': '2.4', version: '2.4' });
+  });
+
+  it('glob rules have no captures and unknown groups render empty', () => {
+    const rule = engine.resolveRule('hotfix/1.0', wiUserStory);
+    expect(rule.captures).toEqual({});
+  });
+});
+
+// ─── Evaluation trace ─────────────────────────────────────────────────────────
+
+describe('RulesEngine – computeWithTrace', () => {
+  it('lists every rule with its outcome, in evaluation order', () => {
+    const { trace } = new RulesEngine(baseConfig).computeWithTrace(wiBug, 'main');
+    expect(trace.rules.map((r) => [r.ruleName, r.outcome])).toEqual([
+      ['Hotfix glob', 'noMatch'],
+      ['Hotfix root regex', 'noMatch'],
+      ['Release glob', 'noMatch'],
+      ['WI type: Bug', 'matched'],
+      ['WI type: User Story', 'skipped'],
+    ]);
+    expect(trace.matchedRuleName).toBe('WI type: Bug');
+    expect(trace.rules[1].predicates).toEqual([
+      { description: 'source branch regex "^hotfix$"', matched: false, error: undefined },
+    ]);
+  });
+
+  it('reports invalid patterns instead of silently skipping them', () => {
+    const config: ExtensionConfig = {
+      ...baseConfig,
+      rulesBySourceBranch: [
+        { name: 'Broken', matchType: 'regex', match: '[invalid(', prefix: 'x/', template: '{prefix}{wi.id}' },
+      ],
+    };
+    const { trace } = new RulesEngine(config).computeWithTrace(wiBug, 'main');
+    expect(trace.rules[0].outcome).toBe('noMatch');
+    expect(trace.rules[0].predicates[0].error).toBeTruthy();
+  });
+
+  it('records each transformation step', () => {
+    const config: ExtensionConfig = {
+      ...baseConfig,
+      general: { ...baseConfig.general, maxLength: 25, transliterate: true },
+    };
+    const wi: WorkItemContext = { ...wiTask, title: 'Perché la città è lenta oggi' };
+    const { trace, branchName } = new RulesEngine(config).computeWithTrace(wi, 'main');
+    expect(trace.steps.map((s) => s.step)).toEqual(['render', 'transliterate', 'sanitize', 'lowercase', 'truncate']);
+    expect(trace.steps[0].value).toBe('feature/7-Perché la città è lenta oggi');
+    expect(trace.steps[4].value).toBe(branchName);
+    expect(trace.branchName).toBe(branchName);
+  });
+
+  it('uses the default template when no rule matches', () => {
+    const { trace } = new RulesEngine(baseConfig).computeWithTrace(wiTask, 'main');
+    expect(trace.matchedRuleName).toBe('default');
+    expect(trace.template).toBe('feature/{wi.id}-{wi.title}');
+    expect(trace.rules.every((r) => r.outcome === 'noMatch')).toBe(true);
+  });
+});
+
+// ─── Base branch suggestion ───────────────────────────────────────────────────
+
+describe('RulesEngine – suggestBaseBranch', () => {
+  const config: ExtensionConfig = {
+    ...baseConfig,
+    baseBranchRules: [
+      {
+        name: 'Production bugs',
+        when: {
+          match: 'all',
+          predicates: [
+            { kind: 'workItemType', types: ['Bug'] },
+            { kind: 'areaPath', under: 'Shop\\Production' },
+          ],
+        },
+        branch: 'hotfix/*',
+      },
+      {
+        name: 'New stories',
+        when: {
+          match: 'all',
+          predicates: [
+            { kind: 'workItemType', types: ['User Story'] },
+            { kind: 'state', states: ['New', 'Approved'] },
+          ],
+        },
+        branch: 'develop',
+      },
+      {
+        name: 'Branch-based (never matches)',
+        priority: -1,
+        when: { match: 'all', predicates: [{ kind: 'sourceBranch', matchType: 'glob', match: '*' }] },
+        branch: 'main',
+      },
+    ],
+  };
+  const engine = new RulesEngine(config);
+  const branches = ['main', 'develop', 'hotfix/2.9', 'hotfix/2.10', 'hotfix/1.4'];
+
+  it('picks the latest branch matching the pattern', () => {
+    const prodBug: WorkItemContext = { ...wiBug, areaPath: 'Shop\\Production\\Checkout' };
+    expect(engine.suggestBaseBranch(prodBug, branches)).toEqual({ branch: 'hotfix/2.10', ruleName: 'Production bugs' });
+  });
+
+  it('matches on work item state', () => {
+    expect(engine.suggestBaseBranch(wiUserStory, branches)).toEqual({ branch: 'develop', ruleName: 'New stories' });
+    expect(engine.suggestBaseBranch({ ...wiUserStory, state: 'Closed' }, branches)).toBeNull();
+  });
+
+  it('skips rules whose branch does not exist in the repository', () => {
+    const prodBug: WorkItemContext = { ...wiBug, areaPath: 'Shop\\Production' };
+    expect(engine.suggestBaseBranch(prodBug, ['main', 'develop'])).toBeNull();
+  });
+
+  it('returns null without base branch rules', () => {
+    expect(new RulesEngine(baseConfig).suggestBaseBranch(wiBug, branches)).toBeNull();
+  });
+
+  it('requests the fields read by base branch conditions', () => {
+    const withField = new RulesEngine({
+      ...baseConfig,
+      baseBranchRules: [{
+        name: 'Component',
+        when: { match: 'all', predicates: [{ kind: 'field', field: 'Custom.Component', operator: 'exists' }] },
+        branch: 'develop',
+      }],
+    });
+    expect(withField.getReferencedFields()).toContain('Custom.Component');
+  });
+});
@@ -0,0 +1,47 @@
+import { simulate } from '../rules/Simulation';
+import type { ExtensionConfig, WorkItemContext } from '../common/types';
+
+const config: ExtensionConfig = {
+  schemaVersion: 1,
+  general: {
+    lowercase: true,
+    nonAlnumReplacement: '-',
+    maxLength: 80,
+    allowManualNameOverride: true,
+    language: 'en',
+  },
+  defaults: { template: 'feature/{wi.id}-{wi.title}' },
+  repoOverrides: {},
+  rulesBySourceBranch: [],
+  rulesByWorkItemType: [
+    {
+      workItemType: 'Bug',
+      prefix: 'bugfix/',
+      template: '{prefix}{wi.id}-{wi.title}',
+      workItemState: { enabled: true, state: 'Active' },
+    },
+  ],
+};
+
+const bug: WorkItemContext = { id: 1, title: 'Crash on save', type: 'Bug', state: 'New' };
+const activeBug: WorkItemContext = { id: 2, title: 'Slow search', type: 'Bug', state: 'Active' };
+const story: WorkItemContext = { id: 3, title: 'Export to CSV', type: 'User Story', state: 'New' };
+
+describe('simulate', () => {
+  it('returns branch name, matched rule and state transition per work item', () => {
+    const results = simulate(config, [bug, activeBug, story], 'main');
+    expect(results.map((r) => [r.branchName, r.matchedRuleName, r.stateTransition])).toEqual([
+      ['bugfix/1-crash-on-save', 'WI type: Bug', { from: 'New', to: 'Active' }],
+      ['bugfix/2-slow-search', 'WI type: Bug', undefined],
+      ['feature/3-export-to-csv', 'default', undefined],
+    ]);
+  });
+
+  it('reports template errors per work item', () => {
+    const broken: ExtensionConfig = { ...config, defaults: { template: '{wi.title|nope}' } };
+    const [bugResult, storyResult] = simulate(broken, [bug, story], 'main');
+    expect(bugResult.error).toBeUndefined();
+    expect(storyResult.error).toMatch(/Unknown template filter "nope"/);
+    expect(storyResult.matchedRuleName).toBe('default');
+  });
+});
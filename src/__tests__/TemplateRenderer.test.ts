@@ -1,4 +1,5 @@
 import { TemplateRenderer } from '../rules/TemplateRenderer';
+import { TemplateFilterError } from '../rules/TemplateFilters';
 import type { WorkItemContext } from '../common/types';
 
 const renderer = new TemplateRenderer();
@@ -56,3 +57,184 @@ describe('TemplateRenderer', () => {
     expect(result).toBe('Bug/42-Fix login bug');
   });
 });
+
+describe('TemplateRenderer – filters', () => {
+  const longTitle: WorkItemContext = {
+    ...workItem,
+    title: 'Improve the performance of the login page on slow networks',
+  };
+
+  it('applies a single filter', () => {
+    expect(renderer.render('{wi.type|lower}', { workItem, prefix: '' })).toBe('bug');
+  });
+
+  it('chains filters left to right', () => {
+    const result = renderer.render('{wi.title|slug|max:20}', { workItem: longTitle, prefix: '' });
+    expect(result).toBe('improve-the-performa');
+  });
+
+  it('renders initials', () => {
+    expect(renderer.render('{wi.assignedTo|initials}', { workItem, prefix: '' })).toBe('JD');
+  });
+
+  it('pads with zeros by default', () => {
+    expect(renderer.render('{wi.id|pad:6}', { workItem, prefix: '' })).toBe('000042');
+  });
+
+  it('pads with a custom character', () => {
+    expect(renderer.render('{wi.id|pad:4:x}', { workItem, prefix: '' })).toBe('xx42');
+  });
+
+  it('limits words', () => {
+    expect(renderer.render('{wi.title|words:2}', { workItem: longTitle, prefix: '' })).toBe('Improve the');
+  });
+
+  it('replaces substrings', () => {
+    expect(renderer.render('{wi.title|replace: :_}', { workItem, prefix: '' })).toBe('Fix_login_bug');
+  });
+
+  it('tolerates whitespace around pipes', () => {
+    expect(renderer.render('{ wi.type | upper }', { workItem, prefix: '' })).toBe('BUG');
+  });
+
+  it('throws a TemplateFilterError for unknown filters', () => {
+    expect(() => renderer.render('{wi.title|shout}', { workItem, prefix: '' }))
+      .toThrow(TemplateFilterError);
+    expect(() => renderer.render('{wi.title|shout}', { workItem, prefix: '' }))
+      .toThrow(/Unknown template filter "shout"/);
+  });
+
+  it('throws when a numeric argument is missing', () => {
+    expect(() => renderer.render('{wi.title|max}', { workItem, prefix: '' }))
+      .toThrow(/requires a non-negative integer/);
+  });
+
+  it('validate() reports unknown filters without rendering', () => {
+    const result = renderer.validate('{prefix}{wi.id}-{wi.title|slug|shout}');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/shout/);
+    expect(renderer.validate('{wi.title|slug|max:30}').valid).toBe(true);
+  });
+
+  it('trims filter arguments', () => {
+    expect(renderer.render('{wi.title|max: 3 }', { workItem, prefix: '' })).toBe('Fix');
+    expect(renderer.render('{wi.id|pad: 4 : x}', { workItem, prefix: '' })).toBe('xx42');
+    expect(renderer.validate('{wi.title|max: 20}').valid).toBe(true);
+  });
+
+  it('validate() reports invalid filter arguments', () => {
+    expect(renderer.validate('{wi.title|max:abc}').errors[0]).toMatch(/"max" requires a non-negative integer/);
+    expect(renderer.validate('{wi.title|max}').errors[0]).toMatch(/"max" takes 1 argument, got 0/);
+    expect(renderer.validate('{wi.title|max:10:20}').errors[0]).toMatch(/"max" takes 1 argument, got 2/);
+    expect(renderer.validate('{wi.title|slug:x}').errors[0]).toMatch(/"slug" takes 0 arguments, got 1/);
+    expect(renderer.validate('{wi.title|replace:}').errors[0]).toMatch(/"replace" requires a search argument/);
+    expect(renderer.validate('{wi.id|pad:6:x}').valid).toBe(true);
+    expect(renderer.validate('{wi.title|replace: :_}').valid).toBe(true);
+  });
+});
+
+describe('TemplateRenderer – field tokens', () => {
+  const wiWithFields: WorkItemContext = {
+    ...workItem,
+    fields: {
+      'Custom.Component': 'Payments API',
+      'Microsoft.VSTS.Common.Priority': 2,
+      'Custom.Reviewer': { displayName: 'Jane Roe' },
+    },
+  };
+
+  it('renders a string field by reference name', () => {
+    expect(renderer.render('{wi.field:Custom.Component}', { workItem: wiWithFields, prefix: '' }))
+      .toBe('Payments API');
+  });
+
+  it('renders numeric fields', () => {
+    expect(renderer.render('p{wi.field:Microsoft.VSTS.Common.Priority}', { workItem: wiWithFields, prefix: '' }))
+      .toBe('p2');
+  });
+
+  it('renders identity fields as display name', () => {
+    expect(renderer.render('{wi.field:Custom.Reviewer|initials}', { workItem: wiWithFields, prefix: '' }))
+      .toBe('JR');
+  });
+
+  it('renders missing fields as empty string', () => {
+    expect(renderer.render('{wi.field:Custom.Missing}', { workItem, prefix: '' })).toBe('');
+  });
+
+  it('collects referenced field names', () => {
+    const refs = renderer.collectFieldReferences([
+      '{prefix}{wi.field:Custom.Component|slug}/{wi.id}',
+      '{wi.field:Microsoft.VSTS.Common.Priority}-{wi.field:Custom.Component}',
+      '{wi.title}',
+    ]);
+    expect(refs).toEqual(['Custom.Component', 'Microsoft.VSTS.Common.Priority']);
+  });
+});
+
+describe('TemplateRenderer – date, sprint and user tokens', () => {
+  const wiPlanned: WorkItemContext = {
+    ...workItem,
+    iterationPath: 'Shop\\Release 3\\Sprint 42',
+    areaPath: 'Shop\\Checkout',
+  };
+  const user = { displayName: 'John Doe', uniqueName: 'jdoe@contoso.com' };
+
+  it('formats the date', () => {
+    const now = new Date(2025, 2, 4, 9, 5);
+    expect(renderer.render('{date:YYYYMMDD}', { workItem, prefix: '', now })).toBe('20250304');
+    expect(renderer.render('{date:YY.MM.DD-HHmm}', { workItem, prefix: '', now })).toBe('25.03.04-0905');
+  });
+
+  it('renders the leaf of iteration and area paths', () => {
+    expect(renderer.render('{iteration.leaf}/{area.leaf}', { workItem: wiPlanned, prefix: '' }))
+      .toBe('Sprint 42/Checkout');
+    expect(renderer.render('{iteration.leaf}', { workItem, prefix: '' })).toBe('');
+  });
+
+  it('renders user alias and initials', () => {
+    expect(renderer.render('{user.alias}/{user.initials}', { workItem, prefix: '', user })).toBe('jdoe/JD');
+    expect(renderer.render('{user.alias}', { workItem, prefix: '', user: { displayName: 'x', uniqueName: 'CORP\\jdoe' } }))
+      .toBe('jdoe');
+    expect(renderer.render('{user.alias}', { workItem, prefix: '' })).toBe('');
+  });
+
+  it('supports release-train names', () => {
+    const template = '{iteration.leaf|slug}/{user.initials|lower}/{wi.id}-{wi.title}';
+    expect(renderer.render(template, { workItem: wiPlanned, prefix: '', user })).toBe('sprint-42/jd/42-Fix login bug');
+  });
+});
+
+describe('TemplateRenderer – parent and ancestor tokens', () => {
+  const wiTask: WorkItemContext = {
+    ...workItem,
+    type: 'Task',
+    ancestors: [
+      { id: 1200, title: 'Checkout flow', type: 'User Story', state: 'Active' },
+      { id: 300, title: 'Payments', type: 'Feature', state: 'New' },
+      { id: 10, title: 'Platform 2025', type: 'Epic', state: 'New' },
+    ],
+  };
+
+  it('renders the parent work item', () => {
+    expect(renderer.render('{parent.id}-{parent.type}-{parent.title}', { workItem: wiTask, prefix: '' }))
+      .toBe('1200-User Story-Checkout flow');
+  });
+
+  it('renders the nearest ancestor of a type, case-insensitively', () => {
+    expect(renderer.render('{ancestor:Epic.id}/{ancestor:feature.title}', { workItem: wiTask, prefix: '' }))
+      .toBe('10/Payments');
+    expect(renderer.render('{ancestor:User Story.state}', { workItem: wiTask, prefix: '' })).toBe('Active');
+  });
+
+  it('renders empty without ancestors or for unknown properties', () => {
+    expect(renderer.render('{parent.id}{ancestor:Epic.id}', { workItem, prefix: '' })).toBe('');
+    expect(renderer.render('{ancestor:Epic}{parent.priority}', { workItem: wiTask, prefix: '' })).toBe('');
+  });
+
+  it('detects templates using ancestor tokens', () => {
+    expect(renderer.usesAncestorTokens(['{wi.id}', '{prefix}{parent.id}'])).toBe(true);
+    expect(renderer.usesAncestorTokens(['{ancestor:Epic.id|pad:5}'])).toBe(true);
+    expect(renderer.usesAncestorTokens(['{wi.id}-{wi.title}'])).toBe(false);
+  });
+});
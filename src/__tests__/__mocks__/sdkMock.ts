@@ -6,6 +6,7 @@ export const notifyLoadSucceeded = jest.fn();
 export const register = jest.fn();
 export const getAccessToken = jest.fn().mockResolvedValue('mock-token');
 export const getExtensionContext = jest.fn().mockReturnValue({ id: 'mock-ext-id', version: '1.0.0' });
+export const getUser = jest.fn().mockReturnValue({ displayName: 'Mock User', name: 'mock@contoso.com' });
 export const getPageContext = jest.fn().mockReturnValue({
   webContext: { project: { id: 'mock-project-id', name: 'MockProject' } },
 });
@@ -40,6 +41,7 @@ export default {
   register,
   getAccessToken,
   getExtensionContext,
+  getUser,
   getPageContext,
   getConfiguration,
   getService,
@@ -0,0 +1,35 @@
+import { diffConfigs } from '../common/configDiff';
+
+describe('diffConfigs', () => {
+  it('returns no changes for equal documents', () => {
+    expect(diffConfigs({ general: { maxLength: 80 } }, { general: { maxLength: 80 } })).toEqual([]);
+  });
+
+  it('reports changed, added and removed values by path', () => {
+    const before = { general: { maxLength: 80, lowercase: true }, defaults: { template: 'a' } };
+    const after = { general: { maxLength: 60, truncation: 'word-boundary' }, defaults: { template: 'a' } };
+    expect(diffConfigs(before, after)).toEqual([
+      { path: 'general.maxLength', kind: 'changed', before: 80, after: 60 },
+      { path: 'general.lowercase', kind: 'removed', before: true },
+      { path: 'general.truncation', kind: 'added', after: 'word-boundary' },
+    ]);
+  });
+
+  it('compares rule lists position by position', () => {
+    const hotfix = { name: 'Hotfix', match: 'hotfix/*' };
+    const release = { name: 'Release', match: 'release/*' };
+    expect(diffConfigs(
+      { rulesBySourceBranch: [hotfix] },
+      { rulesBySourceBranch: [{ ...hotfix, match: 'hotfix/**' }, release] },
+    )).toEqual([
+      { path: 'rulesBySourceBranch[0].match', kind: 'changed', before: 'hotfix/*', after: 'hotfix/**' },
+      { path: 'rulesBySourceBranch[1]', kind: 'added', after: release },
+    ]);
+  });
+
+  it('compares lists of plain values as a whole', () => {
+    expect(diffConfigs({ stopWords: ['a', 'the'] }, { stopWords: ['the'] })).toEqual([
+      { path: 'stopWords', kind: 'changed', before: ['a', 'the'], after: ['the'] },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  editableProjectConfig,
+  extractConfigLayer,
+  mergeConfigLayers,
+  startInheriting,
+  stopInheriting,
+} from '../common/configLayers';
+import type { ExtensionConfig, SourceBranchRule } from '../common/types';
+
+const hotfixRule: SourceBranchRule = {
+  name: 'Hotfix',
+  matchType: 'glob',
+  match: 'hotfix/*',
+  prefix: 'hotfix/',
+  template: '{prefix}{wi.id}-{wi.title}',
+};
+
+const mobileRule: SourceBranchRule = {
+  name: 'Mobile',
+  matchType: 'glob',
+  match: 'mobile/*',
+  prefix: 'mobile/',
+  template: '{prefix}{wi.id}',
+};
+
+const org: ExtensionConfig = {
+  schemaVersion: 1,
+  general: {
+    lowercase: true,
+    nonAlnumReplacement: '-',
+    maxLength: 80,
+    allowManualNameOverride: true,
+    language: 'en',
+  },
+  defaults: { template: 'feature/{wi.id}-{wi.title}' },
+  repoOverrides: { web: { defaultTemplate: 'web/{wi.id}' } },
+  rulesBySourceBranch: [hotfixRule],
+  rulesByWorkItemType: [{ workItemType: 'Bug', prefix: 'bugfix/', template: '{prefix}{wi.id}' }],
+};
+
+describe('mergeConfigLayers', () => {
+  it('applies project general and default values field by field', () => {
+    const merged = mergeConfigLayers(org, { inheritance: { enabled: true }, general: { maxLength: 50 } });
+    expect(merged.general).toEqual({ ...org.general, maxLength: 50 });
+    expect(merged.defaults).toEqual(org.defaults);
+    expect(merged.rulesByWorkItemType).toEqual(org.rulesByWorkItemType);
+  });
+
+  it('merges repo overrides by repository', () => {
+    const merged = mergeConfigLayers(org, { repoOverrides: { api: { defaultTemplate: 'api/{wi.id}' } } });
+    expect(Object.keys(merged.repoOverrides)).toEqual(['web', 'api']);
+  });
+
+  it('puts project rules first by default', () => {
+    const merged = mergeConfigLayers(org, { inheritance: { enabled: true }, rulesBySourceBranch: [mobileRule] });
+    expect(merged.rulesBySourceBranch.map((r) => r.name)).toEqual(['Mobile', 'Hotfix']);
+  });
+
+  it('appends or replaces rule lists when asked to', () => {
+    const layer = (mode: 'append' | 'replace') => ({
+      inheritance: { enabled: true, ruleLists: { rulesBySourceBranch: mode } },
+      rulesBySourceBranch: [mobileRule],
+    });
+    expect(mergeConfigLayers(org, layer('append')).rulesBySourceBranch.map((r) => r.name)).toEqual(['Hotfix', 'Mobile']);
+    expect(mergeConfigLayers(org, layer('replace')).rulesBySourceBranch.map((r) => r.name)).toEqual(['Mobile']);
+  });
+});
+
+describe('editableProjectConfig / extractConfigLayer', () => {
+  it('stores only the values that differ from the organization', () => {
+    const edited = editableProjectConfig(org, {});
+    expect(edited.inheritance).toEqual({ enabled: true });
+    expect(edited.rulesBySourceBranch).toEqual([]);
+
+    const changed = { ...edited, general: { ...edited.general, lowercase: false }, rulesBySourceBranch: [mobileRule] };
+    const layer = extractConfigLayer(changed, org);
+    expect(layer.general).toEqual({ lowercase: false });
+    expect(layer.defaults).toEqual({});
+    expect(layer.rulesBySourceBranch).toEqual([mobileRule]);
+  });
+
+  it('round-trips a stored layer', () => {
+    const layer = extractConfigLayer(
+      editableProjectConfig(org, { inheritance: { enabled: true }, defaults: { template: 'x/{wi.id}' } }),
+      org,
+    );
+    expect(layer.defaults).toEqual({ template: 'x/{wi.id}' });
+    expect(layer.general).toEqual({});
+  });
+});
+
+describe('startInheriting / stopInheriting', () => {
+  it('drops rules and overrides the organization already provides', () => {
+    const standalone: ExtensionConfig = { ...org, rulesBySourceBranch: [mobileRule, hotfixRule] };
+    const inheriting = startInheriting(standalone, org);
+    expect(inheriting.inheritance?.enabled).toBe(true);
+    expect(inheriting.rulesBySourceBranch).toEqual([mobileRule]);
+    expect(inheriting.rulesByWorkItemType).toEqual([]);
+    expect(inheriting.repoOverrides).toEqual({});
+  });
+
+  it('turns the effective config into a standalone copy', () => {
+    const inheriting = { ...editableProjectConfig(org, {}), rulesBySourceBranch: [mobileRule] };
+    const standalone = stopInheriting(inheriting, org);
+    expect(standalone.inheritance?.enabled).toBe(false);
+    expect(standalone.rulesBySourceBranch).toEqual([mobileRule, hotfixRule]);
+    expect(standalone.repoOverrides).toEqual(org.repoOverrides);
+  });
+});
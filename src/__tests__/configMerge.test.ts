@@ -0,0 +1,88 @@
+import { mergeConfigs, mergeImportedConfig } from '../common/configMerge';
+import type { ExtensionConfig, SourceBranchRule } from '../common/types';
+
+const rule = (name: string, template = '{prefix}{wi.id}'): SourceBranchRule => ({
+  name,
+  matchType: 'glob',
+  match: `${name.toLowerCase()}/*`,
+  prefix: `${name.toLowerCase()}/`,
+  template,
+});
+
+const base: ExtensionConfig = {
+  schemaVersion: 1,
+  general: {
+    lowercase: true,
+    nonAlnumReplacement: '-',
+    maxLength: 80,
+    allowManualNameOverride: true,
+    language: 'en',
+  },
+  defaults: { template: 'feature/{wi.id}-{wi.title}' },
+  repoOverrides: {},
+  rulesBySourceBranch: [rule('Hotfix'), rule('Release')],
+  rulesByWorkItemType: [{ workItemType: 'Bug', prefix: 'bugfix/', template: '{prefix}{wi.id}' }],
+};
+
+describe('mergeConfigs', () => {
+  it('keeps changes to different settings from both sides', () => {
+    const mine = { ...base, general: { ...base.general, maxLength: 50 } };
+    const theirs = { ...base, general: { ...base.general, lowercase: false }, defaults: { template: 'f/{wi.id}' } };
+    const { config, conflicts } = mergeConfigs(base, mine, theirs);
+    expect(config.general).toEqual({ ...base.general, maxLength: 50, lowercase: false });
+    expect(config.defaults).toEqual({ template: 'f/{wi.id}' });
+    expect(conflicts).toEqual([]);
+  });
+
+  it('reports a setting changed differently on both sides and keeps mine', () => {
+    const mine = { ...base, general: { ...base.general, maxLength: 50 } };
+    const theirs = { ...base, general: { ...base.general, maxLength: 60 } };
+    const { config, conflicts } = mergeConfigs(base, mine, theirs);
+    expect(config.general.maxLength).toBe(50);
+    expect(conflicts).toEqual(['general.maxLength']);
+  });
+
+  it('merges rules added, edited and removed on either side', () => {
+    const mine = { ...base, rulesBySourceBranch: [rule('Hotfix', 'hf/{wi.id}'), rule('Mobile'), rule('Release')] };
+    const theirs = { ...base, rulesBySourceBranch: [rule('Support'), rule('Hotfix')] };
+    const { config, conflicts } = mergeConfigs(base, mine, theirs);
+    expect(config.rulesBySourceBranch).toEqual([rule('Support'), rule('Hotfix', 'hf/{wi.id}'), rule('Mobile')]);
+    expect(config.rulesByWorkItemType).toEqual(base.rulesByWorkItemType);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('reports a rule edited on both sides, or edited on one and removed on the other', () => {
+    const mine = { ...base, rulesBySourceBranch: [rule('Hotfix', 'mine/{wi.id}'), rule('Release', 'r/{wi.id}')] };
+    const theirs = { ...base, rulesBySourceBranch: [rule('Hotfix', 'theirs/{wi.id}')] };
+    const { config, conflicts } = mergeConfigs(base, mine, theirs);
+    expect(config.rulesBySourceBranch).toEqual([rule('Hotfix', 'mine/{wi.id}'), rule('Release', 'r/{wi.id}')]);
+    expect(conflicts).toEqual(['rulesBySourceBranch: Hotfix', 'rulesBySourceBranch: Release']);
+  });
+
+  it('keeps a rule they edited even if I removed it', () => {
+    const mine = { ...base, rulesBySourceBranch: [rule('Release')] };
+    const theirs = { ...base, rulesBySourceBranch: [rule('Hotfix', 'hf/{wi.id}'), rule('Release')] };
+    const { config, conflicts } = mergeConfigs(base, mine, theirs);
+    expect(config.rulesBySourceBranch.map((r) => r.name)).toEqual(['Hotfix', 'Release']);
+    expect(conflicts).toEqual(['rulesBySourceBranch: Hotfix']);
+  });
+});
+
+describe('mergeImportedConfig', () => {
+  it('updates rules with the same name or type and appends the others', () => {
+    const merged = mergeImportedConfig(base, {
+      rulesBySourceBranch: [rule('Release', 'r/{wi.id}'), rule('Support')],
+      rulesByWorkItemType: [{ workItemType: 'bug', prefix: 'fix/', template: '{prefix}{wi.id}' }],
+    });
+    expect(merged.rulesBySourceBranch).toEqual([rule('Hotfix'), rule('Release', 'r/{wi.id}'), rule('Support')]);
+    expect(merged.rulesByWorkItemType).toEqual([{ workItemType: 'bug', prefix: 'fix/', template: '{prefix}{wi.id}' }]);
+  });
+
+  it('applies the settings the file sets and keeps the rest', () => {
+    const merged = mergeImportedConfig(base, { general: { maxLength: 40 }, repoOverrides: { web: { defaultTemplate: 'w/{wi.id}' } } });
+    expect(merged.general).toEqual({ ...base.general, maxLength: 40 });
+    expect(merged.defaults).toEqual(base.defaults);
+    expect(merged.repoOverrides).toEqual({ web: { defaultTemplate: 'w/{wi.id}' } });
+    expect(merged.rulesBySourceBranch).toBe(base.rulesBySourceBranch);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  CONFIG_MIGRATIONS,
+  ConfigMigration,
+  ConfigVersionError,
+  migrateConfig,
+} from '../common/migrations';
+import { CURRENT_SCHEMA_VERSION } from '../common/constants';
+
+// Fictional v1 → v3 history used to exercise the registry
+const migrations: ConfigMigration[] = [
+  {
+    from: 2,
+    description: 'Split defaults.template into prefix and template',
+    migrate: (doc) => {
+      const defaults = doc.defaults as { template: string };
+      const [prefix, ...rest] = defaults.template.split('/');
+      return { ...doc, defaults: { prefix: `${prefix}/`, template: rest.join('/') } };
+    },
+  },
+  {
+    from: 1,
+    description: 'Renamed general.maxLen to general.maxLength',
+    migrate: (doc) => {
+      const general = doc.general as Record<string, unknown>;
+      general.maxLength = general.maxLen;
+      delete general.maxLen;
+      return doc;
+    },
+  },
+];
+
+describe('migrateConfig', () => {
+  const v1 = {
+    schemaVersion: 1,
+    general: { maxLen: 60 },
+    defaults: { template: 'feature/{wi.id}' },
+  };
+
+  it('applies every step in order and reports it', () => {
+    const { config, report } = migrateConfig(v1, migrations, 3);
+    expect(config).toEqual({
+      schemaVersion: 3,
+      general: { maxLength: 60 },
+      defaults: { prefix: 'feature/', template: '{wi.id}' },
+    });
+    expect(report).toEqual({
+      fromVersion: 1,
+      toVersion: 3,
+      changes: [
+        'v1 → v2: Renamed general.maxLen to general.maxLength',
+        'v2 → v3: Split defaults.template into prefix and template',
+      ],
+    });
+  });
+
+  it('does not mutate the stored document', () => {
+    migrateConfig(v1, migrations, 3);
+    expect(v1.general).toEqual({ maxLen: 60 });
+  });
+
+  it('starts from the stored version', () => {
+    const { report } = migrateConfig({ ...v1, schemaVersion: 2, general: {} }, migrations, 3);
+    expect(report.changes).toHaveLength(1);
+  });
+
+  it('treats documents without schemaVersion as version 1', () => {
+    const { report } = migrateConfig({ general: { maxLen: 60 }, defaults: { template: 'a/b' } }, migrations, 3);
+    expect(report.fromVersion).toBe(1);
+  });
+
+  it('leaves current documents unchanged', () => {
+    const { config, report } = migrateConfig({ ...v1, schemaVersion: 3 }, migrations, 3);
+    expect(config).toEqual({ ...v1, schemaVersion: 3 });
+    expect(report.changes).toEqual([]);
+  });
+
+  it('refuses documents newer than the running extension', () => {
+    expect(() => migrateConfig({ ...v1, schemaVersion: 4 }, migrations, 3)).toThrow(ConfigVersionError);
+    try {
+      migrateConfig({ ...v1, schemaVersion: 4 }, migrations, 3);
+    } catch (err) {
+      expect(err).toMatchObject({ storedVersion: 4, supportedVersion: 3 });
+    }
+  });
+
+  it('fails when a step is missing from the registry', () => {
+    expect(() => migrateConfig(v1, migrations.slice(0, 1), 3)).toThrow(/from schema version 1/);
+  });
+
+  it('has a registered migration for every version below the current one', () => {
+    for (let version = 1; version < CURRENT_SCHEMA_VERSION; version++) {
+      expect(CONFIG_MIGRATIONS.some((m) => m.from === version)).toBe(true);
+    }
+    expect(migrateConfig({ schemaVersion: 1 }).config.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+});
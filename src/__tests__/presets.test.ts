@@ -0,0 +1,69 @@
+import { applyPreset, BRANCHING_PRESETS, getPreset } from '../common/presets';
+import { DEFAULT_CONFIG } from '../common/constants';
+import { RulesEngine } from '../rules/RulesEngine';
+import { validateConfig } from '../rules/ConfigValidator';
+import type { ExtensionConfig, WorkItemContext } from '../common/types';
+
+const story: WorkItemContext = { id: 42, title: 'Add login', type: 'User Story', state: 'New' };
+const bug: WorkItemContext = { id: 99, title: 'Fix crash', type: 'Bug', state: 'Active' };
+
+describe('branching presets', () => {
+  it.each(BRANCHING_PRESETS.map((p) => p.id))('%s builds a valid config', (id) => {
+    const preset = getPreset(id);
+    expect(validateConfig(preset.build(preset.defaults))).toMatchObject({ valid: true, errors: [] });
+  });
+
+  it('GitFlow names work by type from develop and as hotfixes from main', () => {
+    const preset = getPreset('gitflow');
+    const engine = new RulesEngine(preset.build(preset.defaults));
+    expect(engine.computeBranchName(story, 'develop')).toBe('feature/42-add-login');
+    expect(engine.computeBranchName(bug, 'develop')).toBe('bugfix/99-fix-crash');
+    expect(engine.computeBranchName(bug, 'main')).toBe('hotfix/99-fix-crash');
+    expect(engine.computeBranchName(bug, 'release/2.4')).toBe('release/99-fix-crash');
+    expect(engine.suggestBaseBranch(story, ['main', 'develop'])?.branch).toBe('develop');
+  });
+
+  it('uses the options for branch names and prefixes', () => {
+    const preset = getPreset('gitflow');
+    const config = preset.build({ ...preset.defaults, mainBranch: 'master', hotfixPrefix: 'hf/', numberedReleases: false });
+    const engine = new RulesEngine(config);
+    expect(engine.computeBranchName(story, 'master')).toBe('hf/42-add-login');
+    expect(config.rulesBySourceBranch.map((r) => r.match)).toEqual(['hf/*', 'master', 'release']);
+  });
+
+  it('release trains start bugs from the latest release branch', () => {
+    const preset = getPreset('releaseTrain');
+    const engine = new RulesEngine(preset.build(preset.defaults));
+    const branches = ['main', 'release/2.9', 'release/2.10'];
+    expect(engine.suggestBaseBranch(bug, branches)?.branch).toBe('release/2.10');
+    expect(engine.suggestBaseBranch(story, branches)?.branch).toBe('main');
+  });
+});
+
+describe('applyPreset', () => {
+  const current: ExtensionConfig = {
+    ...(DEFAULT_CONFIG as ExtensionConfig),
+    general: { ...DEFAULT_CONFIG.general, maxLength: 40 },
+    repoOverrides: { web: { defaultTemplate: 'web/{wi.id}' } },
+  };
+  const preset = getPreset('githubFlow');
+  const built = preset.build(preset.defaults);
+
+  it('replaces the rules and default template, keeping general settings and overrides', () => {
+    const applied = applyPreset(current, built, 'replace');
+    expect(applied.rulesBySourceBranch).toEqual([]);
+    expect(applied.rulesByWorkItemType).toEqual(built.rulesByWorkItemType);
+    expect(applied.defaults.template).toBe(built.defaults.template);
+    expect(applied.general.maxLength).toBe(40);
+    expect(applied.repoOverrides).toEqual(current.repoOverrides);
+  });
+
+  it('merges by adding only the rules that are missing', () => {
+    const applied = applyPreset(current, built, 'merge');
+    expect(applied.rulesBySourceBranch).toEqual(current.rulesBySourceBranch);
+    expect(applied.rulesByWorkItemType.map((r) => r.workItemType)).toEqual(['Bug', 'User Story', 'Task', 'Product Backlog Item']);
+    expect(applied.rulesByWorkItemType[0]).toEqual(current.rulesByWorkItemType[0]);
+    expect(applied.baseBranchRules).toEqual(built.baseBranchRules);
+    expect(applied.defaults).toEqual(current.defaults);
+  });
+});
@@ -6,6 +6,10 @@ import {
   stripRefsHeads,
   shortTimestampSuffix,
   encodeBranchForArtifactLink,
+  parseBranchArtifactLink,
+  transliterate,
+  shortenTitle,
+  truncationCandidates,
 } from '../common/utils';
 import { DEFAULT_CONFIG } from '../common/constants';
 import type { ExtensionConfig } from '../common/types';
@@ -59,12 +63,82 @@ describe('sanitizeBranchName', () => {
     expect(result.length).toBeLessThanOrEqual(30);
   });
 
+  it('transliterates before sanitizing when enabled', () => {
+    const result = sanitizeBranchName("feature/1-Perché l'università è lenta", { ...config.general, transliterate: true });
+    expect(result).toBe('feature/1-perche-l-universita-e-lenta');
+  });
+
+  it('does not transliterate when disabled', () => {
+    const result = sanitizeBranchName("feature/1-Perché l'università è lenta", { ...config.general, transliterate: false });
+    expect(result).toBe('feature/1-perch-l-universit-lenta');
+  });
+
   it('does not lowercase when disabled', () => {
     const result = sanitizeBranchName('Feature/TEST', { ...config.general, lowercase: false });
     expect(result).toBe('Feature/TEST');
   });
 });
 
+// ─── transliterate ────────────────────────────────────────────────────────────
+
+describe('transliterate', () => {
+  it('strips accents from Latin letters', () => {
+    expect(transliterate("Perché l'università è lenta")).toBe("Perche l'universita e lenta");
+  });
+
+  it('maps German letters', () => {
+    expect(transliterate('Straße Ärger über')).toBe('Strasse Aerger ueber');
+  });
+
+  it('maps Nordic letters', () => {
+    expect(transliterate('Ødegård Æble þing')).toBe('Odegard AEble thing');
+  });
+
+  it('maps Cyrillic letters', () => {
+    expect(transliterate('Привет мир')).toBe('Privet mir');
+    expect(transliterate('Щука и ёж')).toBe('Shchuka i yozh');
+  });
+
+  it('maps Greek letters, including accented ones', () => {
+    expect(transliterate('Ελληνικά')).toBe('Ellinika');
+  });
+
+  it('leaves ASCII and unmapped characters untouched', () => {
+    expect(transliterate('fix: #42 (ok) 日本')).toBe('fix: #42 (ok) 日本');
+  });
+});
+
+// ─── shortenTitle ─────────────────────────────────────────────────────────────
+
+describe('shortenTitle', () => {
+  it('returns the title unchanged when nothing is configured', () => {
+    expect(shortenTitle('Fix the login page', {})).toBe('Fix the login page');
+  });
+
+  it('removes stop words of the configured languages, case-insensitively', () => {
+    expect(shortenTitle('The login page of the portal', { stopWordLanguages: ['en'] })).toBe('login page portal');
+    expect(shortenTitle("Errore di calcolo per l'utente", { stopWordLanguages: ['IT'] })).toBe('Errore calcolo utente');
+  });
+
+  it('removes custom stop words', () => {
+    expect(shortenTitle('Please fix login ASAP', { stopWords: ['please', 'asap'] })).toBe('fix login');
+  });
+
+  it('applies abbreviations word by word, keeping punctuation', () => {
+    const abbreviations = { configuration: 'config', authentication: 'auth' };
+    expect(shortenTitle('Authentication: update configuration.', { abbreviations })).toBe('auth: update config.');
+    expect(shortenTitle('Reconfiguration of authentication', { abbreviations })).toBe('Reconfiguration of auth');
+  });
+
+  it('keeps the original title when every word is a stop word', () => {
+    expect(shortenTitle('To be or not to be', { stopWords: ['to', 'be', 'or', 'not'] })).toBe('To be or not to be');
+  });
+
+  it('ignores unknown languages', () => {
+    expect(shortenTitle('the end', { stopWordLanguages: ['xx'] })).toBe('the end');
+  });
+});
+
 // ─── truncateBranchName ───────────────────────────────────────────────────────
 
 describe('truncateBranchName', () => {
@@ -84,6 +158,33 @@ describe('truncateBranchName', () => {
     const result = truncateBranchName(name, 10);
     expect(result.length).toBeLessThanOrEqual(10);
   });
+
+  it('cuts at a word boundary with the word-boundary strategy', () => {
+    const name = 'feature/12345-this-is-a-very-long-title';
+    expect(truncateBranchName(name, 30)).toBe('feature/12345-this-is-a-very-l');
+    expect(truncateBranchName(name, 30, 'word-boundary')).toBe('feature/12345-this-is-a-very');
+  });
+
+  it('keeps the first and last words with the drop-middle-words strategy', () => {
+    const name = 'feature/12345-this-is-a-very-long-title';
+    expect(truncateBranchName(name, 30, 'drop-middle-words')).toBe('feature/12345-this-is-title');
+  });
+});
+
+describe('truncationCandidates', () => {
+  it('hard: removes one character at a time', () => {
+    expect(truncationCandidates('abc')).toEqual(['ab', 'a', '']);
+  });
+
+  it('word-boundary: removes trailing words', () => {
+    expect(truncationCandidates('fix login page crash', 'word-boundary'))
+      .toEqual(['fix login page', 'fix login', 'fix', '']);
+  });
+
+  it('drop-middle-words: removes words from the middle', () => {
+    expect(truncationCandidates('fix login page crash', 'drop-middle-words'))
+      .toEqual(['fix login crash', 'fix crash', 'fix', '']);
+  });
 });
 
 // ─── validateBranchName ──────────────────────────────────────────────────────
@@ -165,3 +266,31 @@ describe('encodeBranchForArtifactLink', () => {
     expect(result).toContain('feature');
   });
 });
+
+describe('parseBranchArtifactLink', () => {
+  const project = '6ce954b1-ce1f-45d1-b94d-e6bf2464ba2c';
+  const repo = '0b3c6bd4-9b5a-4a2f-8f0e-6f1f6a4d2e11';
+
+  it('reads the project, repository and branch of a Git ref link', () => {
+    expect(parseBranchArtifactLink(`vstfs:///Git/Ref/${project}%2F${repo}%2FGBfeature%2F123-login`)).toEqual({
+      projectId: project,
+      repoId: repo,
+      branchName: 'feature/123-login',
+    });
+  });
+
+  it('reads back the links built with encodeBranchForArtifactLink', () => {
+    const url = `vstfs:///Git/Ref/${project}%2F${repo}%2F${encodeBranchForArtifactLink('bugfix/42-café & co')}`;
+    expect(parseBranchArtifactLink(url)?.branchName).toBe('bugfix/42-café & co');
+  });
+
+  it('returns null for other artifact links', () => {
+    expect(parseBranchArtifactLink(`vstfs:///Git/Commit/${project}%2F${repo}%2Fabc123`)).toBeNull();
+    expect(parseBranchArtifactLink(`vstfs:///Git/PullRequestId/${project}%2F${repo}%2F7`)).toBeNull();
+    expect(parseBranchArtifactLink('https://example.com')).toBeNull();
+  });
+
+  it('returns null for a malformed encoding', () => {
+    expect(parseBranchArtifactLink(`vstfs:///Git/Ref/${project}%2F${repo}%2FGBbad%E0%A4%A`)).toBeNull();
+  });
+});
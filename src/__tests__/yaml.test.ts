@@ -0,0 +1,98 @@
+import { parseYaml, stringifyYaml, YamlError } from '../common/yaml';
+import { DEFAULT_CONFIG } from '../common/constants';
+
+describe('parseYaml', () => {
+  it('parses nested mappings, sequences and typed scalars', () => {
+    const doc = [
+      '# BranchPilot',
+      'schemaVersion: 1',
+      'general:',
+      '  lowercase: true',
+      '  maxLength: 60   # shorter names',
+      '  stopWords: [the, a]',
+      'defaults:',
+      "  template: 'feature/{wi.id}-{wi.title}'",
+      'rulesBySourceBranch:',
+      '  - name: Hotfix',
+      '    matchType: regex',
+      "    match: '^hotfix(/.*)?$'",
+      '    prefix: "hotfix/"',
+      'rulesByWorkItemType:',
+      '- workItemType: Bug',
+      '  prefix: ~',
+    ].join('\n');
+
+    expect(parseYaml(doc)).toEqual({
+      schemaVersion: 1,
+      general: { lowercase: true, maxLength: 60, stopWords: ['the', 'a'] },
+      defaults: { template: 'feature/{wi.id}-{wi.title}' },
+      rulesBySourceBranch: [{ name: 'Hotfix', matchType: 'regex', match: '^hotfix(/.*)?$', prefix: 'hotfix/' }],
+      rulesByWorkItemType: [{ workItemType: 'Bug', prefix: null }],
+    });
+  });
+
+  it('parses flow mappings and quoted keys', () => {
+    expect(parseYaml('abbreviations: {configuration: config, "data base": db}\n\'a b\': "x\\ty"')).toEqual({
+      abbreviations: { configuration: 'config', 'data base': 'db' },
+      'a b': 'x\ty',
+    });
+  });
+
+  it('keeps "#" inside values and quotes', () => {
+    expect(parseYaml("a: issue#1\nb: 'x # y'")).toEqual({ a: 'issue#1', b: 'x # y' });
+  });
+
+  it('returns null for an empty document', () => {
+    expect(parseYaml('# nothing here\n---\n')).toBeNull();
+  });
+
+  it('reports errors with their line number', () => {
+    expect(() => parseYaml('a: 1\n   b: 2')).toThrow(new YamlError('unexpected indentation', 2));
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('line 2: duplicate key "a"');
+    expect(() => parseYaml("template: {prefix}{wi.id}")).toThrow(/line 1: expected ":" in flow mapping/);
+    expect(() => parseYaml('match: "^\\d+"')).toThrow(/use single quotes for regexes/);
+    expect(() => parseYaml('template: |\n  x')).toThrow(/block scalars/);
+  });
+});
+
+describe('stringifyYaml', () => {
+  it('round-trips a config through parseYaml', () => {
+    expect(parseYaml(stringifyYaml(DEFAULT_CONFIG))).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('writes block style, quoting only strings that need it', () => {
+    const yaml = stringifyYaml({
+      name: 'Hotfix',
+      match: '^hotfix(/.*)?$',
+      template: '{prefix}{wi.id}',
+      flags: ['true', '42', '', "it's", 'a: b', 'x #y'],
+      nested: [{ a: 1, b: [] }, [null]],
+      empty: {},
+    }, ['Header']);
+    expect(yaml).toBe([
+      '# Header',
+      'name: Hotfix',
+      'match: ^hotfix(/.*)?$',
+      "template: '{prefix}{wi.id}'",
+      'flags:',
+      "- 'true'",
+      "- '42'",
+      "- ''",
+      "- it's",
+      "- 'a: b'",
+      "- 'x #y'",
+      'nested:',
+      '- a: 1',
+      '  b: []',
+      '-',
+      '  - null',
+      'empty: {}',
+      '',
+    ].join('\n'));
+  });
+
+  it('uses double quotes for line breaks', () => {
+    const value = { text: "line 1\nline 'two'", quoted: 'say "hi"' };
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+  });
+});
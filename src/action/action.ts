@@ -42,7 +42,8 @@ async function initAction(): Promise<void> {
      * Called by Azure DevOps when the user clicks "BranchPilot: Create branch"
      * in the Work Item context menu or the work item form's "..." overflow menu.
      *
-     * When invoked from a list/board context menu the context carries workItemId.
+     * When invoked from a list/board context menu the context carries workItemId,
+     * and workItemIds when several work items are selected (backlog, query results).
      * When invoked from a work item FORM (newly saved), the context may still hold
      * the pre-save ID of 0 — in that case we fall back to IWorkItemFormService.getId().
      */
@@ -53,6 +54,8 @@ async function initAction(): Promise<void> {
         // Primary: take ID from the action context (list/board invocation)
         let workItemId: number =
           context?.workItemId ?? (context as any)?.id ?? 0;
+        const workItemIds = [...new Set((context?.workItemIds ?? []).filter((id) => id > 0))];
+        if (workItemIds.length > 0 && workItemId <= 0) workItemId = workItemIds[0];
 
         // Fallback: when invoked from the WI form's "..." menu, the context may
         // carry the stale pre-save ID (0 for a newly created WI). Use the form
@@ -85,8 +88,10 @@ async function initAction(): Promise<void> {
           return;
         }
 
+        const bulk = workItemIds.length > 1;
         const modalConfig: ModalConfig = {
           workItemId,
+          ...(bulk && { workItemIds }),
           // Title and state are fetched by the modal via WorkItem API.
           workItemTitle: '',
           workItemType: context.workItemTypeName ?? '',
@@ -96,7 +101,7 @@ async function initAction(): Promise<void> {
         };
 
         layoutService.openPanel(dialogContributionId, {
-          title: 'New branch (BranchPilot)',
+          title: bulk ? `New branches for ${workItemIds.length} work items (BranchPilot)` : 'New branch (BranchPilot)',
           configuration: modalConfig,
         });
       } catch (err) {
@@ -119,6 +124,8 @@ initAction().catch(err => logger.error('Failed to initialize action', err));
  */
 interface WorkItemMenuActionContext {
   workItemId?: number;
+  /** All selected work items, when the menu is opened on a multi-selection */
+  workItemIds?: number[];
   workItemTypeName?: string;
   currentProjectGuid?: string;
   currentProjectName?: string;
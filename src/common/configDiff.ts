@@ -0,0 +1,37 @@
+import { ConfigChange } from './types';
+
+/**
+ * Lists the differences between two config documents, one entry per changed
+ * value, with the same paths as validation messages (e.g.
+ * "rulesBySourceBranch[2].template"). Rule lists are compared position by
+ * position; lists of plain values (stop words, work item types, …) are
+ * compared as a whole.
+ */
+export function diffConfigs(before: unknown, after: unknown, path = ''): ConfigChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+
+  if (Array.isArray(before) && Array.isArray(after) && !(isPlainList(before) && isPlainList(after))) {
+    const changes: ConfigChange[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      changes.push(...diffConfigs(before[i], after[i], `${path}[${i}]`));
+    }
+    return changes;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [...Object.keys(before), ...Object.keys(after).filter((key) => !(key in before))];
+    return keys.flatMap((key) => diffConfigs(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  return [{ path, kind: 'changed', before, after }];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPlainList(values: unknown[]): boolean {
+  return values.every((value) => typeof value !== 'object' || value === null);
+}
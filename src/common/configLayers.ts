@@ -0,0 +1,119 @@
+import {
+  ConfigInheritance,
+  ConfigLayer,
+  ExtensionConfig,
+  RuleListKey,
+  RuleListMode,
+} from './types';
+
+/** Rule lists in the order the settings page shows them */
+export const RULE_LIST_KEYS: RuleListKey[] = ['rules', 'rulesBySourceBranch', 'rulesByWorkItemType', 'baseBranchRules'];
+
+/** How a project combines one rule list with the organization's (default: "prepend") */
+export function ruleListMode(inheritance: ConfigInheritance | undefined, key: RuleListKey): RuleListMode {
+  return inheritance?.ruleLists?.[key] ?? 'prepend';
+}
+
+/**
+ * Builds the effective config of an inheriting project: the project's
+ * general and default values win field by field, repo overrides win by
+ * repository, and each rule list is combined according to its mode.
+ */
+export function mergeConfigLayers(org: ExtensionConfig, layer: ConfigLayer): ExtensionConfig {
+  const combine = <T>(key: RuleListKey, orgRules: T[] | undefined, projectRules: T[] | undefined): T[] => {
+    switch (ruleListMode(layer.inheritance, key)) {
+      case 'replace':
+        return projectRules ?? [];
+      case 'append':
+        return [...(orgRules ?? []), ...(projectRules ?? [])];
+      default:
+        return [...(projectRules ?? []), ...(orgRules ?? [])];
+    }
+  };
+
+  return {
+    ...org,
+    general: { ...org.general, ...layer.general },
+    defaults: { ...org.defaults, ...layer.defaults },
+    repoOverrides: { ...org.repoOverrides, ...layer.repoOverrides },
+    rules: combine('rules', org.rules, layer.rules),
+    rulesBySourceBranch: combine('rulesBySourceBranch', org.rulesBySourceBranch, layer.rulesBySourceBranch),
+    rulesByWorkItemType: combine('rulesByWorkItemType', org.rulesByWorkItemType, layer.rulesByWorkItemType),
+    baseBranchRules: combine('baseBranchRules', org.baseBranchRules, layer.baseBranchRules),
+    inheritance: layer.inheritance,
+  };
+}
+
+/**
+ * The project config as the settings page edits it: general and default
+ * values resolved against the organization config, and only the project's
+ * own rules and repo overrides.
+ */
+export function editableProjectConfig(org: ExtensionConfig, layer: ConfigLayer): ExtensionConfig {
+  return {
+    schemaVersion: org.schemaVersion,
+    inheritance: layer.inheritance ?? { enabled: true },
+    general: { ...org.general, ...layer.general },
+    defaults: { ...org.defaults, ...layer.defaults },
+    repoOverrides: layer.repoOverrides ?? {},
+    rules: layer.rules ?? [],
+    rulesBySourceBranch: layer.rulesBySourceBranch ?? [],
+    rulesByWorkItemType: layer.rulesByWorkItemType ?? [],
+    baseBranchRules: layer.baseBranchRules ?? [],
+  };
+}
+
+/**
+ * The inverse of editableProjectConfig: the layer to store for an edited
+ * project config. General and default values equal to the organization's are
+ * left out, so they keep following the organization config.
+ */
+export function extractConfigLayer(edited: ExtensionConfig, org: ExtensionConfig): ConfigLayer {
+  return {
+    schemaVersion: edited.schemaVersion,
+    inheritance: edited.inheritance,
+    general: changedValues(edited.general, org.general),
+    defaults: changedValues(edited.defaults, org.defaults),
+    repoOverrides: edited.repoOverrides,
+    rules: edited.rules ?? [],
+    rulesBySourceBranch: edited.rulesBySourceBranch,
+    rulesByWorkItemType: edited.rulesByWorkItemType,
+    baseBranchRules: edited.baseBranchRules ?? [],
+  };
+}
+
+/**
+ * Turns a standalone project config into an inheriting one. Rules and repo
+ * overrides identical to the organization's are dropped, since they are now
+ * inherited; general and default values are compared when saving.
+ */
+export function startInheriting(config: ExtensionConfig, org: ExtensionConfig): ExtensionConfig {
+  const own = <T>(rules: T[] | undefined, orgRules: T[] | undefined): T[] =>
+    (rules ?? []).filter((rule) => !(orgRules ?? []).some((o) => JSON.stringify(o) === JSON.stringify(rule)));
+  return {
+    ...config,
+    inheritance: { ...config.inheritance, enabled: true },
+    repoOverrides: changedValues(config.repoOverrides, org.repoOverrides) as ExtensionConfig['repoOverrides'],
+    rules: own(config.rules, org.rules),
+    rulesBySourceBranch: own(config.rulesBySourceBranch, org.rulesBySourceBranch),
+    rulesByWorkItemType: own(config.rulesByWorkItemType, org.rulesByWorkItemType),
+    baseBranchRules: own(config.baseBranchRules, org.baseBranchRules),
+  };
+}
+
+/** Turns an inheriting project config into a standalone copy of its effective config */
+export function stopInheriting(config: ExtensionConfig, org: ExtensionConfig): ExtensionConfig {
+  const effective = mergeConfigLayers(org, extractConfigLayer(config, org));
+  return { ...effective, inheritance: { ...config.inheritance, enabled: false } };
+}
+
+/** The entries of `values` that differ from `base` (compared as JSON) */
+export function changedValues<T extends object>(values: T, base: T): Partial<T> {
+  const changed: Partial<T> = {};
+  for (const key of Object.keys(values) as Array<keyof T>) {
+    if (JSON.stringify(values[key]) !== JSON.stringify(base[key])) {
+      changed[key] = values[key];
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,146 @@
+import { ConfigLayer, ExtensionConfig, RuleListKey } from './types';
+import { RULE_LIST_KEYS } from './configLayers';
+
+/**
+ * Three-way merge of a config edited concurrently by two people: `base` is
+ * the config both started from, `mine` the local edits and `theirs` what was
+ * saved in the meantime.
+ *
+ * Settings (general, defaults, repo overrides, inheritance) are merged key by
+ * key. Rule lists are merged rule by rule, identifying rules by name (work
+ * item type rules by type): their list, in their order, is the starting
+ * point, then local additions, edits and removals are applied. A rule changed
+ * on both sides, or changed on one side and removed on the other, is a
+ * conflict: the changed rule is kept (the local one when both changed) and
+ * the conflict is reported, e.g. "rulesBySourceBranch: Hotfix".
+ */
+export function mergeConfigs(
+  base: ExtensionConfig,
+  mine: ExtensionConfig,
+  theirs: ExtensionConfig,
+): { config: ExtensionConfig; conflicts: string[] } {
+  const conflicts: string[] = [];
+  const rules = <K extends RuleListKey>(key: K) =>
+    mergeRules<unknown>(key, base[key] ?? [], mine[key] ?? [], theirs[key] ?? [], conflicts) as ExtensionConfig[K];
+
+  const config: ExtensionConfig = {
+    ...theirs,
+    general: mergeKeys('general', base.general, mine.general, theirs.general, conflicts),
+    defaults: mergeKeys('defaults', base.defaults, mine.defaults, theirs.defaults, conflicts),
+    repoOverrides: mergeKeys('repoOverrides', base.repoOverrides, mine.repoOverrides, theirs.repoOverrides, conflicts),
+    inheritance: same(mine.inheritance, base.inheritance) ? theirs.inheritance : mine.inheritance,
+    rules: rules('rules'),
+    rulesBySourceBranch: rules('rulesBySourceBranch'),
+    rulesByWorkItemType: rules('rulesByWorkItemType'),
+    baseBranchRules: rules('baseBranchRules'),
+  };
+  return { config, conflicts };
+}
+
+/**
+ * Merges an imported config into the current one instead of replacing it:
+ * general settings, default values and repo overrides it sets win key by key,
+ * and each imported rule updates the current rule with the same name (work
+ * item type rules: the same type) or is appended. The imported config may be
+ * partial, e.g. just a list of rules.
+ */
+export function mergeImportedConfig(current: ExtensionConfig, imported: ConfigLayer): ExtensionConfig {
+  const merged: ExtensionConfig = {
+    ...current,
+    general: { ...current.general, ...imported.general },
+    defaults: { ...current.defaults, ...imported.defaults },
+    repoOverrides: { ...current.repoOverrides, ...imported.repoOverrides },
+  };
+  for (const key of RULE_LIST_KEYS) {
+    const rules = imported[key];
+    if (rules) (merged as unknown as Record<RuleListKey, unknown[]>)[key] = upsertRules<unknown>(current[key] ?? [], rules);
+  }
+  return merged;
+}
+
+function upsertRules<T>(current: readonly T[], imported: readonly T[]): T[] {
+  const merged = [...current];
+  const keys = [...keyed(current).keys()];
+  keyed(imported).forEach((rule, key) => {
+    const index = keys.indexOf(key);
+    if (index >= 0) {
+      merged[index] = rule;
+    } else {
+      merged.push(rule);
+      keys.push(key);
+    }
+  });
+  return merged;
+}
+
+/** Takes each key from mine when it changed locally, otherwise from theirs */
+function mergeKeys<T extends object>(path: string, base: T, mine: T, theirs: T, conflicts: string[]): T {
+  const [b, m, t] = [base, mine, theirs] as unknown as Array<Record<string, unknown>>;
+  const merged = { ...t };
+  for (const key of new Set([...Object.keys(b), ...Object.keys(m)])) {
+    if (same(m[key], b[key])) continue;
+    if (!same(t[key], b[key]) && !same(t[key], m[key])) conflicts.push(`${path}.${key}`);
+    if (m[key] === undefined) delete merged[key];
+    else merged[key] = m[key];
+  }
+  return merged as T;
+}
+
+function mergeRules<T>(path: string, base: readonly T[], mine: readonly T[], theirs: readonly T[], conflicts: string[]): T[] {
+  const baseByKey = keyed(base);
+  const theirsByKey = keyed(theirs);
+  const mineByKey = keyed(mine);
+
+  // Their list, without the rules removed locally (unless they changed them)
+  const merged = [...theirsByKey.entries()].filter(([key, rule]) => {
+    if (mineByKey.has(key) || !baseByKey.has(key)) return true;
+    if (same(rule, baseByKey.get(key))) return false;
+    conflicts.push(`${path}: ${key}`);
+    return true;
+  });
+
+  mineByKey.forEach((rule, key) => {
+    const baseRule = baseByKey.get(key);
+    const theirRule = theirsByKey.get(key);
+    const index = merged.findIndex(([k]) => k === key);
+    if (index >= 0) {
+      if (same(rule, baseRule) || same(rule, theirRule)) return;
+      if (baseRule === undefined || !same(theirRule, baseRule)) conflicts.push(`${path}: ${key}`);
+      merged[index] = [key, rule];
+      return;
+    }
+    if (baseRule !== undefined) {
+      // Removed by them: keep it only if it was edited locally
+      if (same(rule, baseRule)) return;
+      conflicts.push(`${path}: ${key}`);
+    }
+    // New locally: insert after the local predecessor that made it into the list
+    const keys = [...mineByKey.keys()];
+    const before = keys.slice(0, keys.indexOf(key)).reverse().find((k) => merged.some(([m]) => m === k));
+    const at = before === undefined ? 0 : merged.findIndex(([m]) => m === before) + 1;
+    merged.splice(at, 0, [key, rule]);
+  });
+
+  return merged.map(([, rule]) => rule);
+}
+
+/**
+ * Rules keyed by name (or work item type, which is case-insensitive);
+ * repeated names get "#2", "#3", …
+ */
+function keyed<T>(rules: readonly T[]): Map<string, T> {
+  const map = new Map<string, T>();
+  const seen = new Map<string, number>();
+  for (const rule of rules) {
+    const r = rule as unknown as { name?: string; workItemType?: string };
+    const name = r.name ?? r.workItemType?.toLowerCase() ?? '';
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    map.set(count > 1 ? `${name}#${count}` : name, rule);
+  }
+  return map;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
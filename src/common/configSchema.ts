@@ -0,0 +1,312 @@
+import {
+  BaseBranchRule,
+  ConditionalRule,
+  ConfigInheritance,
+  DefaultsConfig,
+  ExtensionConfig,
+  FieldPredicate,
+  GeneralConfig,
+  RepoOverride,
+  RuleCondition,
+  SourceBranchRule,
+  ValidationResult,
+  WorkItemStateConfig,
+  WorkItemTypeRule,
+} from './types';
+import { HARD_MAX_LENGTH, MAX_ANCESTOR_DEPTH } from './constants';
+
+/**
+ * The subset of JSON Schema (draft-07) used by CONFIG_SCHEMA. `oneOf` is
+ * only used for tagged unions: each branch declares a `const` for the
+ * `kind` property, and validateSchema picks the branch by that value.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean)[];
+  const?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  oneOf?: JsonSchema[];
+}
+
+type RequiredKeys<T> = { [K in keyof T]-?: Record<string, never> extends Pick<T, K> ? never : K }[keyof T];
+
+/**
+ * Object schema for interface T. `properties` must list every key of T, so
+ * adding a field to types.ts without describing it here fails to compile.
+ */
+function object<T>(
+  description: string,
+  properties: { [K in keyof Required<T>]: JsonSchema },
+  required: RequiredKeys<T>[],
+): JsonSchema {
+  return {
+    type: 'object',
+    description,
+    properties: properties as Record<string, JsonSchema>,
+    required: required as string[],
+    additionalProperties: false,
+  };
+}
+
+const str = (description: string, minLength?: number): JsonSchema => ({ type: 'string', description, minLength });
+const bool = (description: string): JsonSchema => ({ type: 'boolean', description });
+const list = (items: JsonSchema, description: string): JsonSchema => ({ type: 'array', description, items });
+const oneOfValues = (values: readonly string[], description: string): JsonSchema => ({ type: 'string', description, enum: values });
+const predicate = (kind: string, description: string, properties: Record<string, JsonSchema>, required: string[]): JsonSchema => ({
+  type: 'object',
+  description,
+  properties: { kind: { type: 'string', const: kind }, ...properties },
+  required: ['kind', ...required],
+  additionalProperties: false,
+});
+
+const matchTypeSchema = oneOfValues(['glob', 'regex'], '"glob" (e.g. "hotfix/*") or "regex" (e.g. "^hotfix(/.*)?$")');
+const templateSchema = str('Branch name template, e.g. "{prefix}{wi.id}-{wi.title}"', 1);
+const prioritySchema: JsonSchema = { type: 'number', description: 'Evaluation order: lower values are evaluated first (default 0)' };
+
+const workItemStateSchema = object<WorkItemStateConfig>('Work item state update after branch creation', {
+  enabled: bool('Enable updating the work item state after branch creation'),
+  state: str('The new state to set, e.g. "Active"'),
+}, ['enabled', 'state']);
+
+const conditionSchema = object<RuleCondition>('Conditions that must hold for the rule to apply', {
+  match: oneOfValues(['all', 'any'], '"all" = every predicate must match, "any" = at least one'),
+  predicates: list({
+    description: 'A single condition, selected by "kind"',
+    oneOf: [
+      predicate('sourceBranch', 'Source branch matches a pattern', { matchType: matchTypeSchema, match: str('Pattern', 1) }, ['matchType', 'match']),
+      predicate('workItemType', 'Work item type is one of', { types: list(str('Work item type'), 'Types (case-insensitive)') }, ['types']),
+      predicate('areaPath', 'Area path is at or below', { under: str('Area path', 1) }, ['under']),
+      predicate('iterationPath', 'Iteration path is at or below', { under: str('Iteration path', 1) }, ['under']),
+      predicate('state', 'Work item state is one of', { states: list(str('State'), 'States (case-insensitive)') }, ['states']),
+      predicate('tags', 'Work item tags', {
+        tags: list(str('Tag'), 'Tags'),
+        mode: oneOfValues(['all', 'any'], '"all" = every tag must be present, "any" = at least one'),
+      }, ['tags', 'mode']),
+      predicate('priority', 'Priority within inclusive bounds', {
+        min: { type: 'integer', description: 'Lowest priority (inclusive)' },
+        max: { type: 'integer', description: 'Highest priority (inclusive)' },
+      }, []),
+      predicate('field', 'Any work item field', {
+        field: str('Field reference name, e.g. "Custom.Component"', 1),
+        operator: oneOfValues(['equals', 'contains', 'regex', 'exists'] as FieldPredicate['operator'][], 'Comparison'),
+        value: str('Value to compare with (not used by "exists")'),
+      }, ['field', 'operator']),
+    ],
+  }, 'Predicates'),
+}, ['match', 'predicates']);
+
+const generalSchema = object<GeneralConfig>('Naming and UI settings', {
+  lowercase: bool('Force all branch names to lowercase'),
+  nonAlnumReplacement: str('Replacement for characters not allowed in branch names (default "-")'),
+  maxLength: { type: 'integer', description: 'Maximum branch name length', minimum: 1, maximum: HARD_MAX_LENGTH },
+  allowManualNameOverride: bool('Allow users to edit the computed branch name'),
+  language: oneOfValues(['en', 'it'], 'UI language'),
+  transliterate: bool('Transliterate accented, Cyrillic and Greek letters to ASCII'),
+  stopWordLanguages: list(str('Language code'), 'Languages whose built-in stop words are removed from {wi.title}'),
+  stopWords: list(str('Stop word'), 'Additional stop words removed from {wi.title}'),
+  abbreviations: {
+    type: 'object',
+    description: 'Whole-word replacements applied to {wi.title}',
+    additionalProperties: { type: 'string' },
+  },
+  truncation: oneOfValues(['hard', 'word-boundary', 'drop-middle-words'], 'How the title is shortened when the name is too long'),
+  ancestorDepth: {
+    type: 'integer',
+    description: 'Parent levels fetched for {parent.*} / {ancestor:…} tokens',
+    minimum: 0,
+    maximum: MAX_ANCESTOR_DEPTH,
+  },
+  duplicateBranches: oneOfValues(['confirm', 'forbid'], 'Creating a branch in a repository where the work item already has one'),
+}, ['lowercase', 'nonAlnumReplacement', 'maxLength', 'allowManualNameOverride', 'language']);
+
+const defaultsSchema = object<DefaultsConfig>('Used when no rule matches', {
+  template: templateSchema,
+  workItemState: workItemStateSchema,
+}, ['template']);
+
+const sourceBranchRuleSchema = object<SourceBranchRule>('Rule selected by the source branch', {
+  name: str('Human-readable rule name', 1),
+  matchType: matchTypeSchema,
+  match: str('Pattern matched against the source branch', 1),
+  prefix: str('Value of the {prefix} token'),
+  template: templateSchema,
+  workItemState: workItemStateSchema,
+}, ['name', 'matchType', 'match', 'prefix', 'template']);
+
+const workItemTypeRuleSchema = object<WorkItemTypeRule>('Rule selected by the work item type', {
+  workItemType: str('Work item type (case-insensitive)', 1),
+  prefix: str('Value of the {prefix} token'),
+  template: templateSchema,
+  workItemState: workItemStateSchema,
+}, ['workItemType', 'template']);
+
+const conditionalRuleSchema = object<ConditionalRule>('Rule combining several conditions', {
+  name: str('Human-readable rule name', 1),
+  priority: prioritySchema,
+  when: conditionSchema,
+  prefix: str('Value of the {prefix} token'),
+  template: templateSchema,
+  workItemState: workItemStateSchema,
+}, ['name', 'when', 'template']);
+
+const baseBranchRuleSchema = object<BaseBranchRule>('Rule suggesting the base branch', {
+  name: str('Human-readable rule name', 1),
+  priority: prioritySchema,
+  when: conditionSchema,
+  matchType: matchTypeSchema,
+  branch: str('Base branch name or pattern, e.g. "develop" or "hotfix/*"', 1),
+}, ['name', 'when', 'branch']);
+
+const ruleListModeSchema = oneOfValues(['prepend', 'append', 'replace'], 'How project rules combine with the organization rules');
+
+const repoOverrideSchema = object<RepoOverride>('Overrides for the repositories matching the key', {
+  defaultTemplate: templateSchema,
+  workItemState: workItemStateSchema,
+  general: { ...generalSchema, description: 'General settings that differ for these repositories', required: [] },
+  rulesBySourceBranch: list(sourceBranchRuleSchema, 'Source branch rules of these repositories'),
+  rulesByWorkItemType: list(workItemTypeRuleSchema, 'Work item type rules of these repositories'),
+  ruleLists: object<NonNullable<RepoOverride['ruleLists']>>('How the repository rules combine with the project rules (default "prepend")', {
+    rulesBySourceBranch: ruleListModeSchema,
+    rulesByWorkItemType: ruleListModeSchema,
+  }, []),
+}, []);
+
+const inheritanceSchema = object<ConfigInheritance>('How the project builds on the organization config', {
+  enabled: bool('Inherit from the organization config'),
+  ruleLists: object<NonNullable<ConfigInheritance['ruleLists']>>('Combination mode per rule list (default "prepend")', {
+    rules: ruleListModeSchema,
+    rulesBySourceBranch: ruleListModeSchema,
+    rulesByWorkItemType: ruleListModeSchema,
+    baseBranchRules: ruleListModeSchema,
+  }, []),
+}, ['enabled']);
+
+const rootSchema = object<ExtensionConfig>('BranchPilot configuration', {
+  schemaVersion: { type: 'integer', description: 'Config schema version', minimum: 1 },
+  general: generalSchema,
+  defaults: defaultsSchema,
+  repoOverrides: {
+    type: 'object',
+    description: 'Overrides keyed by repository ID, name or name glob (e.g. "mobile-*")',
+    additionalProperties: repoOverrideSchema,
+  },
+  rulesBySourceBranch: list(sourceBranchRuleSchema, 'Rules by source branch (first match wins)'),
+  rulesByWorkItemType: list(workItemTypeRuleSchema, 'Rules by work item type (first match wins)'),
+  rules: list(conditionalRuleSchema, 'Conditional rules, evaluated by priority'),
+  baseBranchRules: list(baseBranchRuleSchema, 'Rules suggesting the base branch'),
+  inheritance: inheritanceSchema,
+}, ['schemaVersion', 'general', 'defaults', 'repoOverrides', 'rulesBySourceBranch', 'rulesByWorkItemType']);
+
+/**
+ * JSON Schema of ExtensionConfig, mirroring types.ts. Exported from the
+ * settings page so editors can offer autocompletion for config files.
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'BranchPilot configuration',
+  ...rootSchema,
+  // Lets config files point at the exported schema
+  properties: { $schema: str('URL or path of this schema'), ...rootSchema.properties },
+};
+
+/**
+ * Validates a value against a schema. Errors and warnings are reported as
+ * "path: message", e.g. "rulesBySourceBranch[3].matchType: must be one of glob, regex".
+ * Unknown properties are warnings (with a suggestion for case typos), so
+ * configs written by newer tools still load.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema = CONFIG_SCHEMA): ValidationResult {
+  const result: ValidationResult = { valid: true, errors: [], warnings: [] };
+  visit(value, schema, '', result);
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+function visit(value: unknown, schema: JsonSchema, path: string, result: ValidationResult): void {
+  const at = path || '(root)';
+
+  if (schema.oneOf) {
+    const kind = isObject(value) ? value.kind : undefined;
+    const branch = schema.oneOf.find((s) => s.properties?.kind?.const === kind);
+    if (!branch) {
+      const kinds = schema.oneOf.map((s) => s.properties?.kind?.const).join(', ');
+      result.errors.push(`${join(path, 'kind')}: must be one of ${kinds}`);
+      return;
+    }
+    visit(value, branch, path, result);
+    return;
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    result.errors.push(`${at}: must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`);
+    return;
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    result.errors.push(`${at}: must be "${schema.const}"`);
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    result.errors.push(`${at}: must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) result.errors.push(`${at}: must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) result.errors.push(`${at}: must be at most ${schema.maximum}`);
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    result.errors.push(`${at}: must not be empty`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => visit(item, schema.items!, `${path}[${i}]`, result));
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) result.errors.push(`${join(path, key)}: is required`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        visit(child, properties[key], join(path, key), result);
+      } else if (typeof schema.additionalProperties === 'object') {
+        visit(child, schema.additionalProperties, join(path, key), result);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = Object.keys(properties).find((p) => p.toLowerCase() === key.toLowerCase());
+        result.warnings.push(`${join(path, key)}: unknown property${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -1,9 +1,18 @@
 export const EXTENSION_ID = 'branch-pilot';
 export const PUBLISHER_ID = 'FeliceLombardi';
 
+/** Schema version written by this build; see CONFIG_MIGRATIONS in migrations.ts */
+export const CURRENT_SCHEMA_VERSION = 1;
+
 /** ExtensionDataService key for the project config */
 export const CONFIG_KEY = 'branchpilot-config';
 
+/** Number of saved versions listed in the config history of each scope */
+export const CONFIG_HISTORY_LIMIT = 100;
+
+/** Config files read from the root of a repository's default branch, in order of preference */
+export const REPO_CONFIG_FILES = ['.branchpilot.json', '.branchpilot.yml', '.branchpilot.yaml'];
+
 /** Dialog contribution ID used by the action to open the modal */
 export const DIALOG_CONTRIBUTION_ID = `${PUBLISHER_ID}.${EXTENSION_ID}.create-branch-dialog`;
 
@@ -25,15 +34,78 @@ export const BRANCH_ARTIFACT_REL = 'ArtifactLink';
 /** vstfs URI scheme for Git branch links */
 export const GIT_REF_VSTFS_PREFIX = 'vstfs:///Git/Ref/';
 
+/** Work item fields always requested when building a WorkItemContext */
+export const WORK_ITEM_CONTEXT_FIELDS = [
+  'System.Id',
+  'System.Title',
+  'System.WorkItemType',
+  'System.State',
+  'System.AssignedTo',
+  'System.IterationPath',
+  'System.AreaPath',
+  'System.ChangedDate',
+  'System.Tags',
+];
+
+/** Link type pointing from a work item to its parent */
+export const HIERARCHY_REVERSE_REL = 'System.LinkTypes.Hierarchy-Reverse';
+
+/** Upper bound for general.ancestorDepth, to keep the parent walk cheap */
+export const MAX_ANCESTOR_DEPTH = 10;
+
+/** Field holding the work item priority (used by priority rule predicates) */
+export const PRIORITY_FIELD = 'Microsoft.VSTS.Common.Priority';
+
+/** Evaluation priority assigned to converted rulesBySourceBranch entries */
+export const SOURCE_BRANCH_RULE_PRIORITY = 1000;
+
+/** Evaluation priority assigned to converted rulesByWorkItemType entries */
+export const WORK_ITEM_TYPE_RULE_PRIORITY = 2000;
+
+/** Maximum number of work items the settings simulator runs at once */
+export const SIMULATOR_MAX_WORK_ITEMS = 50;
+
+/** Built-in stop-word lists, keyed by language, removable from `{wi.title}` */
+export const STOP_WORDS: Readonly<Record<string, readonly string[]>> = {
+  en: [
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'when', 'with',
+  ],
+  it: [
+    'a', 'ad', 'al', 'alla', 'alle', 'agli', 'ai', 'che', 'con', 'da', 'dal', 'dalla', 'dei', 'del',
+    'della', 'delle', 'degli', 'di', 'e', 'ed', 'gli', 'i', 'il', 'in', 'l', 'la', 'le', 'lo', 'nel',
+    'nella', 'nei', 'o', 'per', 'su', 'sul', 'sulla', 'tra', 'fra', 'un', 'una', 'uno',
+  ],
+  de: [
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und',
+    'oder', 'mit', 'von', 'zu', 'zum', 'zur', 'im', 'in', 'auf', 'für', 'bei', 'ist',
+  ],
+  fr: [
+    'le', 'la', 'les', 'l', 'un', 'une', 'des', 'du', 'de', 'd', 'et', 'ou', 'à', 'au', 'aux',
+    'en', 'dans', 'pour', 'par', 'sur', 'avec',
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'de', 'del', 'y', 'o', 'a', 'al',
+    'en', 'con', 'por', 'para', 'que',
+  ],
+};
+
 /** Default configuration applied when no project config exists */
 export const DEFAULT_CONFIG = {
-  schemaVersion: 1,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   general: {
     lowercase: true,
     nonAlnumReplacement: '-',
     maxLength: 80,
     allowManualNameOverride: true,
     language: 'en' as const,
+    transliterate: true,
+    stopWordLanguages: [] as string[],
+    stopWords: [] as string[],
+    abbreviations: {} as Record<string, string>,
+    truncation: 'hard' as const,
+    ancestorDepth: 3,
+    duplicateBranches: 'confirm' as const,
   },
   defaults: {
     template: 'feature/{wi.id}-{wi.title}',
@@ -146,4 +218,5 @@ export const DEFAULT_CONFIG = {
       template: '{prefix}{wi.id}-{wi.title}',
     },
   ],
+  rules: [],
 };
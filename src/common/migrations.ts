@@ -0,0 +1,83 @@
+import { CURRENT_SCHEMA_VERSION } from './constants';
+
+/** A stored config document, before it is known to match ExtensionConfig */
+export type ConfigDocument = Record<string, unknown>;
+
+/**
+ * One step of the config schema evolution: upgrades a document from
+ * `from` to `from + 1`. Migrations receive a private copy of the document
+ * and may mutate it.
+ */
+export interface ConfigMigration {
+  from: number;
+  /** What the step changes, reported to the admin (e.g. "Renamed general.x to general.y") */
+  description: string;
+  migrate(doc: ConfigDocument): ConfigDocument;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  /** One entry per applied step, oldest first; empty when nothing changed */
+  changes: string[];
+}
+
+/** Thrown when a stored config was written by a newer version of the extension */
+export class ConfigVersionError extends Error {
+  constructor(
+    message: string,
+    public readonly storedVersion: number,
+    public readonly supportedVersion: number,
+  ) {
+    super(message);
+    this.name = 'ConfigVersionError';
+  }
+}
+
+/**
+ * The migration registry, one entry per schema version bump.
+ *
+ * To change the shape of ExtensionConfig: bump CURRENT_SCHEMA_VERSION and
+ * append a migration whose `from` is the previous version. Never edit or
+ * remove a released migration — stored documents may still be on any
+ * earlier version.
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [];
+
+/**
+ * Upgrades a stored config document step by step to `targetVersion`.
+ * Documents without a schemaVersion predate versioning and are treated as
+ * version 1. Throws a ConfigVersionError for documents newer than
+ * `targetVersion`, so they are never loaded (and later overwritten) by an
+ * older extension.
+ */
+export function migrateConfig(
+  stored: ConfigDocument,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS,
+  targetVersion: number = CURRENT_SCHEMA_VERSION,
+): { config: ConfigDocument; report: MigrationReport } {
+  const fromVersion = typeof stored.schemaVersion === 'number' ? stored.schemaVersion : 1;
+  if (fromVersion > targetVersion) {
+    throw new ConfigVersionError(
+      `Config schema version ${fromVersion} is newer than the supported version ${targetVersion}.`,
+      fromVersion,
+      targetVersion,
+    );
+  }
+
+  let doc = JSON.parse(JSON.stringify(stored)) as ConfigDocument;
+  const changes: string[] = [];
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const migration = migrations.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No config migration registered from schema version ${version}.`);
+    }
+    doc = migration.migrate(doc);
+    changes.push(`v${version} → v${version + 1}: ${migration.description}`);
+  }
+
+  return {
+    config: { ...doc, schemaVersion: targetVersion },
+    report: { fromVersion, toVersion: targetVersion, changes },
+  };
+}
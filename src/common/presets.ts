@@ -0,0 +1,201 @@
+import {
+  BaseBranchRule,
+  ExtensionConfig,
+  SourceBranchRule,
+  WorkItemTypeRule,
+} from './types';
+import { DEFAULT_CONFIG } from './constants';
+
+/**
+ * Built-in branching strategy presets. Each preset generates a complete
+ * ExtensionConfig from a few options (branch names and prefixes), which the
+ * settings page previews and then applies over the current config, either
+ * replacing its rules or merging them.
+ */
+
+export type PresetId = 'gitflow' | 'githubFlow' | 'trunkBased' | 'releaseTrain';
+
+export interface PresetOptions {
+  /** The production branch, e.g. "main" */
+  mainBranch: string;
+  /** The integration branch of GitFlow, e.g. "develop" */
+  developBranch: string;
+  featurePrefix: string;
+  bugfixPrefix: string;
+  hotfixPrefix: string;
+  releasePrefix: string;
+  /**
+   * Releases are numbered branches under releasePrefix (e.g. release/2.4);
+   * otherwise there is a single release branch named after the prefix
+   */
+  numberedReleases: boolean;
+}
+
+export interface BranchingPreset {
+  id: PresetId;
+  /** The options the preset uses, in the order the settings page shows them */
+  options: Array<keyof PresetOptions>;
+  /** Option values the preset starts from */
+  defaults: PresetOptions;
+  build: (options: PresetOptions) => ExtensionConfig;
+}
+
+/** How a preset is applied: its rules replace the current ones, or are added to them */
+export type PresetApplyMode = 'replace' | 'merge';
+
+const BASE_OPTIONS: PresetOptions = {
+  mainBranch: 'main',
+  developBranch: 'develop',
+  featurePrefix: 'feature/',
+  bugfixPrefix: 'bugfix/',
+  hotfixPrefix: 'hotfix/',
+  releasePrefix: 'release/',
+  numberedReleases: true,
+};
+
+const TEMPLATE = '{prefix}{wi.id}-{wi.title}';
+
+/** Work item types of the Agile and Scrum processes that branches are created for */
+const WORK_TYPES = ['Bug', 'User Story', 'Product Backlog Item', 'Task'];
+
+export const BRANCHING_PRESETS: BranchingPreset[] = [
+  {
+    // feature branches from develop, hotfixes from main, fixes on release branches;
+    // work started from develop is named by work item type
+    id: 'gitflow',
+    options: ['mainBranch', 'developBranch', 'featurePrefix', 'bugfixPrefix', 'hotfixPrefix', 'releasePrefix', 'numberedReleases'],
+    defaults: BASE_OPTIONS,
+    build: (o) => config(o, {
+      rulesBySourceBranch: [
+        sourceRule('Hotfix branches', `${o.hotfixPrefix}*`, o.hotfixPrefix),
+        sourceRule(`${o.mainBranch} branch`, o.mainBranch, o.hotfixPrefix),
+        releaseRule(o, o.releasePrefix),
+      ],
+      rulesByWorkItemType: workItemTypeRules(o),
+      baseBranchRules: [
+        baseRule(`Work from ${o.developBranch}`, WORK_TYPES, o.developBranch),
+      ],
+    }),
+  },
+  {
+    // every branch from main, merged back through a pull request
+    id: 'githubFlow',
+    options: ['mainBranch', 'featurePrefix', 'bugfixPrefix'],
+    defaults: BASE_OPTIONS,
+    build: (o) => config(o, {
+      rulesByWorkItemType: workItemTypeRules(o),
+      baseBranchRules: [baseRule(`Work from ${o.mainBranch}`, WORK_TYPES, o.mainBranch)],
+    }),
+  },
+  {
+    // short-lived branches from the trunk; fixes on release branches are cherry-picked
+    id: 'trunkBased',
+    options: ['mainBranch', 'featurePrefix', 'bugfixPrefix', 'hotfixPrefix', 'releasePrefix', 'numberedReleases'],
+    defaults: BASE_OPTIONS,
+    build: (o) => config(o, {
+      rulesBySourceBranch: [releaseRule(o, o.hotfixPrefix)],
+      rulesByWorkItemType: workItemTypeRules(o),
+      baseBranchRules: [baseRule(`Work from ${o.mainBranch}`, WORK_TYPES, o.mainBranch)],
+    }),
+  },
+  {
+    // a numbered release branch per train: bugs are fixed on the latest train
+    id: 'releaseTrain',
+    options: ['mainBranch', 'featurePrefix', 'bugfixPrefix', 'releasePrefix'],
+    defaults: BASE_OPTIONS,
+    build: (o) => {
+      const numbered = { ...o, numberedReleases: true };
+      return config(numbered, {
+        rulesBySourceBranch: [releaseRule(numbered, o.bugfixPrefix)],
+        rulesByWorkItemType: workItemTypeRules(o),
+        baseBranchRules: [
+          baseRule('Bugs on the latest release train', ['Bug'], `${o.releasePrefix}*`),
+          baseRule(`Work from ${o.mainBranch}`, WORK_TYPES.filter((type) => type !== 'Bug'), o.mainBranch),
+        ],
+      });
+    },
+  },
+];
+
+export function getPreset(id: PresetId): BranchingPreset {
+  return BRANCHING_PRESETS.find((preset) => preset.id === id)!;
+}
+
+/**
+ * Applies a preset config over the current one. General settings, repo
+ * overrides and inheritance stay as they are. "replace" takes the preset's
+ * default template and rule lists; "merge" keeps the current ones and adds
+ * the preset rules that are not there yet (same name, or same work item type).
+ */
+export function applyPreset(current: ExtensionConfig, preset: ExtensionConfig, mode: PresetApplyMode): ExtensionConfig {
+  if (mode === 'replace') {
+    return {
+      ...current,
+      defaults: { ...current.defaults, template: preset.defaults.template },
+      rules: preset.rules ?? [],
+      rulesBySourceBranch: preset.rulesBySourceBranch,
+      rulesByWorkItemType: preset.rulesByWorkItemType,
+      baseBranchRules: preset.baseBranchRules ?? [],
+    };
+  }
+  const byName = (rule: { name: string }) => rule.name.toLowerCase();
+  return {
+    ...current,
+    rulesBySourceBranch: addMissing(current.rulesBySourceBranch, preset.rulesBySourceBranch, byName),
+    rulesByWorkItemType: addMissing(
+      current.rulesByWorkItemType,
+      preset.rulesByWorkItemType,
+      (rule) => rule.workItemType.toLowerCase(),
+    ),
+    baseBranchRules: addMissing(current.baseBranchRules ?? [], preset.baseBranchRules ?? [], byName),
+  };
+}
+
+function addMissing<T>(current: T[], added: T[], key: (rule: T) => string): T[] {
+  const present = new Set(current.map(key));
+  return [...current, ...added.filter((rule) => !present.has(key(rule)))];
+}
+
+function config(
+  o: PresetOptions,
+  parts: Partial<Pick<ExtensionConfig, 'rulesBySourceBranch' | 'rulesByWorkItemType' | 'baseBranchRules'>>,
+): ExtensionConfig {
+  return {
+    ...(DEFAULT_CONFIG as ExtensionConfig),
+    defaults: { template: `${o.featurePrefix}{wi.id}-{wi.title}` },
+    repoOverrides: {},
+    rules: [],
+    rulesBySourceBranch: parts.rulesBySourceBranch ?? [],
+    rulesByWorkItemType: parts.rulesByWorkItemType ?? [],
+    baseBranchRules: parts.baseBranchRules ?? [],
+  };
+}
+
+function sourceRule(name: string, match: string, prefix: string): SourceBranchRule {
+  return { name, matchType: 'glob', match, prefix, template: TEMPLATE };
+}
+
+/** Matches the numbered release branches (release/2.4) or the single release branch */
+function releaseRule(o: PresetOptions, prefix: string): SourceBranchRule {
+  const single = o.releasePrefix.replace(/\/+$/, '');
+  return o.numberedReleases
+    ? sourceRule('Release branches', `${o.releasePrefix}*`, prefix)
+    : sourceRule(`${single} branch`, single, prefix);
+}
+
+function workItemTypeRules(o: PresetOptions): WorkItemTypeRule[] {
+  return [
+    { workItemType: 'Bug', prefix: o.bugfixPrefix, template: TEMPLATE },
+    { workItemType: 'User Story', prefix: o.featurePrefix, template: TEMPLATE },
+    { workItemType: 'Product Backlog Item', prefix: o.featurePrefix, template: TEMPLATE },
+  ];
+}
+
+function baseRule(name: string, types: string[], branch: string): BaseBranchRule {
+  return {
+    name,
+    when: { match: 'all', predicates: [{ kind: 'workItemType', types }] },
+    matchType: 'glob',
+    branch,
+  };
+}
@@ -71,7 +71,9 @@ export interface IExtensionDataManager {
   getValue<T>(key: string, options?: { scopeType?: string; scopeValue?: string; defaultValue?: T | null }): Promise<T | null>;
   setValue<T>(key: string, value: T, options?: { scopeType?: string; scopeValue?: string }): Promise<T>;
   getDocument(collectionName: string, id: string, options?: unknown): Promise<unknown>;
+  createDocument(collectionName: string, doc: unknown, options?: unknown): Promise<unknown>;
   setDocument(collectionName: string, doc: unknown, options?: unknown): Promise<unknown>;
+  deleteDocument(collectionName: string, id: string, options?: unknown): Promise<void>;
 }
 
 export interface IExtensionDataService {
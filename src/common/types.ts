@@ -6,11 +6,45 @@ export interface ExtensionConfig {
   schemaVersion: number;
   general: GeneralConfig;
   defaults: DefaultsConfig;
+  /** Keyed by repository ID, name or name glob (e.g. "mobile-*") */
   repoOverrides: Record<string, RepoOverride>;
   rulesBySourceBranch: SourceBranchRule[];
   rulesByWorkItemType: WorkItemTypeRule[];
+  /** Conditional rules combining several predicates (evaluated by priority, see ConditionalRule) */
+  rules?: ConditionalRule[];
+  /** Rules suggesting the base branch preselected in the dialog (see BaseBranchRule) */
+  baseBranchRules?: BaseBranchRule[];
+  /** Project configs only: how the project builds on the organization config */
+  inheritance?: ConfigInheritance;
 }
 
+/** The rule lists a project can combine with the organization's */
+export type RuleListKey = 'rulesBySourceBranch' | 'rulesByWorkItemType' | 'rules' | 'baseBranchRules';
+
+/**
+ * How a project rule list is combined with the organization's:
+ *   prepend → project rules first, then the organization's (project rules win)
+ *   append  → organization rules first, then the project's
+ *   replace → only the project rules
+ */
+export type RuleListMode = 'prepend' | 'append' | 'replace';
+
+export interface ConfigInheritance {
+  /** Inherit from the organization config; without it the project config stands alone */
+  enabled: boolean;
+  /** Per rule list combination mode (default: "prepend") */
+  ruleLists?: Partial<Record<RuleListKey, RuleListMode>>;
+}
+
+/**
+ * What a project stores when it inherits from the organization: only the
+ * general and default settings it changes, plus its own rules and overrides.
+ */
+export type ConfigLayer = Partial<Omit<ExtensionConfig, 'general' | 'defaults'>> & {
+  general?: Partial<GeneralConfig>;
+  defaults?: Partial<DefaultsConfig>;
+};
+
 export interface GeneralConfig {
   /** Force all branch names to lowercase */
   lowercase: boolean;
@@ -22,8 +56,36 @@ export interface GeneralConfig {
   allowManualNameOverride: boolean;
   /** UI language: 'en' or 'it' (default: 'en') */
   language: 'en' | 'it';
+  /** Transliterate accented, Cyrillic and Greek letters to ASCII before sanitizing (default: true) */
+  transliterate?: boolean;
+  /** Languages whose built-in stop words are removed from {wi.title} (e.g. ["en", "it"]) */
+  stopWordLanguages?: string[];
+  /** Additional project-specific stop words removed from {wi.title} */
+  stopWords?: string[];
+  /** Whole-word replacements applied to {wi.title} (e.g. { "configuration": "config" }) */
+  abbreviations?: Record<string, string>;
+  /** How the title is shortened when the branch name exceeds maxLength (default: "hard") */
+  truncation?: TruncationStrategy;
+  /** How many parent levels to fetch for {parent.*} / {ancestor:…} tokens (default: 3) */
+  ancestorDepth?: number;
+  /** What happens when the work item already has a branch in the repository (default: "confirm") */
+  duplicateBranches?: DuplicateBranchPolicy;
 }
 
+/**
+ * Creating a branch in a repository where the work item already has a linked
+ * branch: "confirm" asks the user to confirm, "forbid" does not allow it.
+ */
+export type DuplicateBranchPolicy = 'confirm' | 'forbid';
+
+/**
+ * Truncation strategies:
+ *   hard              → cut the title at the exact character count
+ *   word-boundary     → drop trailing words, never cutting a word in half
+ *   drop-middle-words → keep the first and last words, drop words from the middle
+ */
+export type TruncationStrategy = 'hard' | 'word-boundary' | 'drop-middle-words';
+
 export interface DefaultsConfig {
   /** Default template when no rule matches */
   template: string;
@@ -36,8 +98,19 @@ export interface RepoOverride {
   defaultTemplate?: string;
   /** Override the default work item state update for a specific repository */
   workItemState?: WorkItemStateConfig;
+  /** General settings that differ for the repository (e.g. maxLength, lowercase) */
+  general?: Partial<GeneralConfig>;
+  /** Source branch rules of the repository, combined with the project's per ruleLists */
+  rulesBySourceBranch?: SourceBranchRule[];
+  /** Work item type rules of the repository, combined with the project's per ruleLists */
+  rulesByWorkItemType?: WorkItemTypeRule[];
+  /** How the repository rules combine with the project's (default: "prepend") */
+  ruleLists?: Partial<Record<RepoRuleListKey, RuleListMode>>;
 }
 
+/** Rule lists a repo override can extend or replace */
+export type RepoRuleListKey = 'rulesBySourceBranch' | 'rulesByWorkItemType';
+
 export interface SourceBranchRule {
   /** Human-readable rule name */
   name: string;
@@ -64,6 +137,120 @@ export interface WorkItemTypeRule {
   workItemState?: WorkItemStateConfig;
 }
 
+export interface ConditionalRule {
+  /** Human-readable rule name */
+  name: string;
+  /**
+   * Evaluation order: lower values are evaluated first (default 0).
+   * Legacy source-branch rules are evaluated at 1000, work-item-type rules at 2000.
+   */
+  priority?: number;
+  /** Conditions that must hold for the rule to apply */
+  when: RuleCondition;
+  /** Prefix to add to the branch name (used as {prefix} token) */
+  prefix?: string;
+  /** Branch name template */
+  template: string;
+  /** Optional work item state update when this rule is used */
+  workItemState?: WorkItemStateConfig;
+}
+
+/**
+ * Suggests the base branch the dialog preselects for a work item. Conditions
+ * are evaluated before any source branch is chosen, so source-branch
+ * predicates never match here.
+ */
+export interface BaseBranchRule {
+  /** Human-readable rule name */
+  name: string;
+  /** Evaluation order: lower values are evaluated first (default 0) */
+  priority?: number;
+  /** Conditions on the work item (type, area path, state, …) */
+  when: RuleCondition;
+  /** Pattern type for `branch` (default: "glob") */
+  matchType?: 'glob' | 'regex';
+  /**
+   * The preferred base branch, e.g. "develop", or a pattern such as "hotfix/*".
+   * When several branches match, the latest one (highest version) is chosen.
+   * If none exists in the repository, the next rule is tried.
+   */
+  branch: string;
+}
+
+/** The base branch suggested for a work item, and the rule that suggested it */
+export interface BaseBranchSuggestion {
+  branch: string;
+  ruleName: string;
+}
+
+export interface RuleCondition {
+  /** 'all' = every predicate must match (AND), 'any' = at least one must match (OR) */
+  match: 'all' | 'any';
+  predicates: RulePredicate[];
+}
+
+export type RulePredicate =
+  | SourceBranchPredicate
+  | WorkItemTypePredicate
+  | AreaPathPredicate
+  | IterationPathPredicate
+  | StatePredicate
+  | TagsPredicate
+  | PriorityPredicate
+  | FieldPredicate;
+
+export interface SourceBranchPredicate {
+  kind: 'sourceBranch';
+  matchType: 'glob' | 'regex';
+  match: string;
+}
+
+export interface WorkItemTypePredicate {
+  kind: 'workItemType';
+  /** Matches if the work item type equals any of these (case-insensitive) */
+  types: string[];
+}
+
+export interface AreaPathPredicate {
+  kind: 'areaPath';
+  /** Matches this area path and everything below it (case-insensitive) */
+  under: string;
+}
+
+export interface IterationPathPredicate {
+  kind: 'iterationPath';
+  /** Matches this iteration path and everything below it (case-insensitive) */
+  under: string;
+}
+
+export interface StatePredicate {
+  kind: 'state';
+  /** Matches if the work item state equals any of these (case-insensitive) */
+  states: string[];
+}
+
+export interface TagsPredicate {
+  kind: 'tags';
+  tags: string[];
+  /** 'all' = every tag must be present, 'any' = at least one */
+  mode: 'all' | 'any';
+}
+
+export interface PriorityPredicate {
+  kind: 'priority';
+  /** Inclusive bounds on Microsoft.VSTS.Common.Priority */
+  min?: number;
+  max?: number;
+}
+
+export interface FieldPredicate {
+  kind: 'field';
+  /** Field reference name (e.g. "Custom.Component") */
+  field: string;
+  operator: 'equals' | 'contains' | 'regex' | 'exists';
+  value?: string;
+}
+
 export interface WorkItemStateConfig {
   /** Enable updating the work item state after branch creation */
   enabled: boolean;
@@ -88,12 +275,44 @@ export interface WorkItemContext {
   typeIcon?: string;
   /** Hex color of the work item type (without #) */
   typeColor?: string;
+  /** Tags parsed from System.Tags */
+  tags?: string[];
+  /** Raw field values keyed by reference name (e.g. "Custom.Component"), used by {wi.field:…} tokens */
+  fields?: Record<string, unknown>;
+  /** Parent chain, nearest first (only fetched when a template uses {parent.*} / {ancestor:…}) */
+  ancestors?: AncestorWorkItem[];
+}
+
+/** A parent or ancestor work item, for {parent.*} and {ancestor:Type.*} tokens */
+export interface AncestorWorkItem {
+  id: number;
+  title: string;
+  type: string;
+  state: string;
+}
+
+/** The signed-in user, for {user.*} template tokens */
+export interface UserContext {
+  displayName: string;
+  /** Unique name, usually the sign-in e-mail (e.g. "jdoe@contoso.com") */
+  uniqueName?: string;
 }
 
 export interface RepoInfo {
   id: string;
   name: string;
   defaultBranch: string;
+  /** Web page of the repository */
+  webUrl?: string;
+}
+
+/** A Git branch linked to a work item (an ArtifactLink relation to a Git ref) */
+export interface LinkedBranch {
+  projectId: string;
+  repoId: string;
+  branchName: string;
+  /** The branch no longer exists; the link outlived it */
+  deleted?: boolean;
 }
 
 export interface BranchInfo {
@@ -112,6 +331,45 @@ export interface ResolvedRule {
   workItemState?: WorkItemStateConfig;
   /** The rule that was matched (for diagnostics) */
   matchedRuleName?: string;
+  /** Regex capture groups from the source branch match ({match.N} / {match.name} tokens) */
+  captures?: Record<string, string>;
+}
+
+/** Outcome of one predicate tested while resolving a rule */
+export interface PredicateTrace {
+  /** Human-readable description of the test, e.g. `source branch regex "^hotfix$"` */
+  description: string;
+  matched: boolean;
+  /** Set when the predicate could not be evaluated (e.g. invalid regex) */
+  error?: string;
+}
+
+/** How one rule fared during resolution */
+export interface RuleTrace {
+  ruleName: string;
+  priority: number;
+  /** "skipped" rules come after the winning rule and were not evaluated */
+  outcome: 'matched' | 'noMatch' | 'skipped';
+  /** The predicates actually tested ("any" conditions stop at the first match) */
+  predicates: PredicateTrace[];
+}
+
+/** One transformation applied while turning the template into a branch name */
+export interface TransformationStep {
+  step: 'shorten' | 'render' | 'transliterate' | 'sanitize' | 'lowercase' | 'truncate';
+  /** The value after this step */
+  value: string;
+}
+
+/** Full explanation of how a branch name was computed ("why did I get this name?") */
+export interface EvaluationTrace {
+  sourceBranch: string;
+  rules: RuleTrace[];
+  /** Name of the winning rule, or "default" */
+  matchedRuleName: string;
+  template: string;
+  steps: TransformationStep[];
+  branchName: string;
 }
 
 export interface CreateBranchParams {
@@ -132,8 +390,28 @@ export interface CreateBranchResult {
   diagnostics?: Record<string, unknown>;
 }
 
+/**
+ * Outcome for one repository when a branch is created in several at once:
+ * "skipped" repositories were not tried because an earlier one failed and the
+ * created branches were rolled back.
+ */
+export interface RepoBranchResult {
+  repoId: string;
+  repoName: string;
+  branchName: string;
+  status: 'created' | 'failed' | 'rolledBack' | 'skipped';
+  /** CreateBranchResult.error when status is "failed" */
+  error?: string;
+  /** The branch was created but could not be deleted while rolling back */
+  rollbackFailed?: boolean;
+  /** The branch was kept but could not be linked to the work item */
+  linkFailed?: boolean;
+}
+
 export interface ModalConfig {
   workItemId: number;
+  /** Set when several work items were selected: the modal opens the bulk panel */
+  workItemIds?: number[];
   workItemTitle: string;
   workItemType: string;
   workItemState: string;
@@ -146,3 +424,29 @@ export interface ValidationResult {
   errors: string[];
   warnings: string[];
 }
+
+/** Where a config is stored: the project's own config or the organization config */
+export type ConfigScope = 'project' | 'organization';
+
+/** One saved version of a config, as listed in the history */
+export interface ConfigVersionInfo {
+  /** 1 for the first recorded save, increasing by one per save */
+  version: number;
+  /** ISO 8601 timestamp of the save */
+  timestamp: string;
+  author: UserContext;
+  comment?: string;
+}
+
+/** A saved version with the stored document (a ConfigLayer for inheriting projects) */
+export interface ConfigVersion extends ConfigVersionInfo {
+  config: Record<string, unknown>;
+}
+
+/** One difference between two config documents, e.g. "rulesBySourceBranch[2].template" */
+export interface ConfigChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
@@ -1,5 +1,5 @@
-import { HARD_MAX_LENGTH } from './constants';
-import { ExtensionConfig, ValidationResult } from './types';
+import { HARD_MAX_LENGTH, STOP_WORDS } from './constants';
+import { ExtensionConfig, LinkedBranch, TransformationStep, TruncationStrategy, ValidationResult } from './types';
 
 /**
  * Sanitizes a string for use as a git branch name segment.
@@ -22,33 +22,135 @@ export function sanitizeBranchSegment(
   return result;
 }
 
+/**
+ * Letters that Unicode decomposition does not reduce to ASCII, plus the
+ * German umlauts (which read better as "ae"/"oe"/"ue" than as bare vowels).
+ */
+const TRANSLITERATION_MAP: Record<string, string> = {
+  // German
+  ß: 'ss', ẞ: 'SS', ä: 'ae', Ä: 'Ae', ö: 'oe', Ö: 'Oe', ü: 'ue', Ü: 'Ue',
+  // Nordic and other Latin
+  æ: 'ae', Æ: 'AE', ø: 'o', Ø: 'O', þ: 'th', Þ: 'Th', ð: 'd', Ð: 'D',
+  œ: 'oe', Œ: 'OE', ł: 'l', Ł: 'L', đ: 'd', Đ: 'D', ı: 'i', ħ: 'h', Ħ: 'H',
+  // Cyrillic
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'yo', ж: 'zh', з: 'z',
+  и: 'i', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r',
+  с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh',
+  щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+  є: 'ye', і: 'i', ї: 'yi', ґ: 'g',
+  // Greek
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i',
+  κ: 'k', λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's',
+  ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+/**
+ * Transliterates accented Latin, German, Nordic, Cyrillic and Greek letters to
+ * ASCII so they survive sanitization ("Perché" → "Perche", "Straße" → "Strasse").
+ * Characters with no mapping are left untouched.
+ */
+export function transliterate(value: string): string {
+  // Map whole letters first (ä → ae, й → y), then strip the remaining
+  // diacritics (é → e, ά → α) and map again for the letters that uncovers.
+  const stripped = mapLetters(value.normalize('NFC'))
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+  return mapLetters(stripped).normalize('NFC');
+}
+
+function mapLetters(value: string): string {
+  let result = '';
+  for (const char of value) {
+    const exact = TRANSLITERATION_MAP[char];
+    if (exact !== undefined) {
+      result += exact;
+      continue;
+    }
+    // Uppercase Cyrillic/Greek letters are mapped through their lowercase form
+    const lowered = TRANSLITERATION_MAP[char.toLowerCase()];
+    result += lowered === undefined ? char : lowered.charAt(0).toUpperCase() + lowered.slice(1);
+  }
+  return result;
+}
+
+/**
+ * Shortens a work item title before it is rendered into a branch name:
+ * abbreviations are applied word by word, then stop words of the configured
+ * languages (and the custom list) are dropped. Both comparisons are
+ * case-insensitive. A title made only of stop words is returned unchanged.
+ *
+ * Example: "Fix the authentication configuration" → "Fix auth config"
+ */
+export function shortenTitle(
+  title: string,
+  config: Pick<ExtensionConfig['general'], 'stopWordLanguages' | 'stopWords' | 'abbreviations'>,
+): string {
+  const stopWords = new Set(
+    [
+      ...(config.stopWordLanguages ?? []).flatMap((lang) => STOP_WORDS[lang.toLowerCase()] ?? []),
+      ...(config.stopWords ?? []),
+    ].map((w) => w.trim().toLowerCase()),
+  );
+  const abbreviations = new Map(
+    Object.entries(config.abbreviations ?? {}).map(([word, short]) => [word.trim().toLowerCase(), short]),
+  );
+  if (stopWords.size === 0 && abbreviations.size === 0) return title;
+
+  // Apostrophes split elisions ("l'università") so the article can be dropped
+  const words = title.split(/[\s'’]+/).filter(Boolean);
+  const kept: string[] = [];
+  for (const word of words) {
+    const core = word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    const key = core.toLowerCase();
+    if (stopWords.has(key)) continue;
+    const short = abbreviations.get(key);
+    kept.push(short !== undefined && core ? word.replace(core, short) : word);
+  }
+  return kept.length > 0 ? kept.join(' ') : title;
+}
+
 /**
  * Applies full sanitization to a branch name, respecting the extension config:
+ * - transliterates non-ASCII letters if configured
  * - replaces non-alnum (excluding `/`, `-`, `_`, `.`)
  * - forces lowercase if configured
  * - truncates to maxLength, keeping the `{wi.id}` part intact
+ *
+ * When `steps` is given, the value after each applied step is appended to it.
  */
 export function sanitizeBranchName(
   name: string,
-  config: Pick<ExtensionConfig['general'], 'lowercase' | 'nonAlnumReplacement' | 'maxLength'>,
+  config: Pick<
+    ExtensionConfig['general'],
+    'lowercase' | 'nonAlnumReplacement' | 'maxLength' | 'transliterate' | 'truncation'
+  >,
+  steps?: TransformationStep[],
 ): string {
   let result = name;
 
+  if (config.transliterate) {
+    result = transliterate(result);
+    steps?.push({ step: 'transliterate', value: result });
+  }
+
   // Sanitize each segment separated by `/`
   const segments = result.split('/');
   const sanitized = segments.map((seg) =>
     sanitizeBranchSegment(seg, config.nonAlnumReplacement),
   );
   result = sanitized.filter((s) => s.length > 0).join('/');
+  steps?.push({ step: 'sanitize', value: result });
 
   // Lowercase
   if (config.lowercase) {
     result = result.toLowerCase();
+    steps?.push({ step: 'lowercase', value: result });
   }
 
   // Truncate, preserving prefix and id if possible
   if (result.length > config.maxLength) {
-    result = truncateBranchName(result, config.maxLength);
+    result = truncateBranchName(result, config.maxLength, config.truncation);
+    steps?.push({ step: 'truncate', value: result });
   }
 
   return result;
@@ -57,11 +159,17 @@ export function sanitizeBranchName(
 /**
  * Truncates a branch name to maxLength.
  * Strategy: preserve everything up to and including the first numeric segment
- * (the work item ID), then truncate the title part.
+ * (the work item ID), then truncate the title part with the given strategy.
+ * Used as a fallback when the template is not known; RulesEngine shortens the
+ * title before rendering instead, which protects every other template segment.
  *
  * Example: "feature/12345-this-is-a-very-long-title" → "feature/12345-this-is-a"
  */
-export function truncateBranchName(name: string, maxLength: number): string {
+export function truncateBranchName(
+  name: string,
+  maxLength: number,
+  strategy: TruncationStrategy = 'hard',
+): string {
   if (name.length <= maxLength) return name;
 
   // Find the work item id portion (e.g. "12345-")
@@ -73,13 +181,53 @@ export function truncateBranchName(name: string, maxLength: number): string {
     const reserved = prefix.length + id.length;
     const available = maxLength - reserved;
     if (available > 0) {
-      return prefix + id + title.slice(0, available).replace(/-+$/, '');
+      return (prefix + id + fitWords(title, available, strategy)).replace(/-+$/, '');
     }
     // Can't fit even the prefix+id — just truncate hard
     return name.slice(0, maxLength);
   }
 
-  return name.slice(0, maxLength).replace(/-+$/, '');
+  return fitWords(name, maxLength, strategy);
+}
+
+/**
+ * Returns progressively shorter versions of a title following the truncation
+ * strategy, longest first and ending with the empty string. Words are split
+ * on `separator` and re-joined with `joiner`.
+ *
+ * Example (drop-middle-words): "fix login page crash" → "fix login crash",
+ * "fix crash", "fix", ""
+ */
+export function truncationCandidates(
+  title: string,
+  strategy: TruncationStrategy = 'hard',
+  separator: RegExp = /\s+/,
+  joiner: string = ' ',
+): string[] {
+  if (strategy === 'hard') {
+    const candidates: string[] = [];
+    for (let n = title.length - 1; n >= 0; n--) candidates.push(title.slice(0, n));
+    return candidates;
+  }
+
+  const words = title.split(separator).filter(Boolean);
+  const candidates: string[] = [];
+  for (let keep = words.length - 1; keep >= 0; keep--) {
+    if (strategy === 'word-boundary' || keep < 2) {
+      candidates.push(words.slice(0, keep).join(joiner));
+    } else {
+      const tail = Math.floor(keep / 2);
+      candidates.push([...words.slice(0, keep - tail), ...words.slice(words.length - tail)].join(joiner));
+    }
+  }
+  return candidates;
+}
+
+/** Shortens an already-sanitized, "-"-separated string to at most maxLength */
+function fitWords(value: string, maxLength: number, strategy: TruncationStrategy): string {
+  if (value.length <= maxLength) return value;
+  const fitted = truncationCandidates(value, strategy, /-+/, '-').find((c) => c.length <= maxLength) ?? '';
+  return fitted.replace(/-+$/, '');
 }
 
 /**
@@ -181,3 +329,28 @@ export function encodeBranchForArtifactLink(branchName: string): string {
   const name = stripRefsHeads(branchName);
   return 'GB' + encodeURIComponent(name).replace(/%2F/g, '%2F');
 }
+
+/**
+ * Reads a Git branch artifact link URI
+ * (vstfs:///Git/Ref/{projectId}%2F{repoId}%2FGB{branch}); null for any other link
+ */
+export function parseBranchArtifactLink(url: string): LinkedBranch | null {
+  const match = url.match(/^vstfs:\/\/\/Git\/Ref\/([^%/]+)%2F([^%/]+)%2FGB(.+)$/i);
+  if (!match) return null;
+  try {
+    return { projectId: match[1], repoId: match[2], branchName: decodeURIComponent(match[3]) };
+  } catch {
+    return null;
+  }
+}
+
+/** Formats a raw REST field value: identities → display name, arrays → joined */
+export function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(formatFieldValue).join(' ');
+  if (typeof value === 'object') {
+    const identity = value as { displayName?: string };
+    return identity.displayName ?? '';
+  }
+  return String(value);
+}
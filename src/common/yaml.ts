@@ -0,0 +1,388 @@
+/**
+ * A small YAML reader and writer for BranchPilot config files.
+ *
+ * It supports the subset configs need: block mappings and sequences,
+ * flow collections ([a, b] and {a: b}), plain, single- and double-quoted
+ * scalars, and comments. Anchors, tags, multi-document streams and block
+ * scalars (| and >) are rejected with a YamlError.
+ *
+ * As in YAML, a plain value starting with "{" or "[" is a flow collection,
+ * so templates such as {prefix}{wi.id} must be quoted.
+ *
+ * stringifyYaml writes the same subset back, in block style, so its output
+ * can be read by parseYaml (and by any YAML parser).
+ */
+
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(`line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  /** 1-based line number, for error messages */
+  number: number;
+}
+
+/** Parses a YAML document into plain objects, arrays and scalars */
+export function parseYaml(source: string): unknown {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const number = i + 1;
+    const indentMatch = /^[ \t]*/.exec(raw)![0];
+    if (indentMatch.includes('\t') && raw.trim() !== '') {
+      throw new YamlError('tabs are not allowed for indentation', number);
+    }
+    const text = stripComment(raw.slice(indentMatch.length), number).trimEnd();
+    if (text === '' || (lines.length === 0 && text === '---')) return;
+    if (text === '---' || text === '...') throw new YamlError('multiple documents are not supported', number);
+    lines.push({ indent: indentMatch.length, text, number });
+  });
+
+  if (lines.length === 0) return null;
+  const parser = new BlockParser(lines);
+  const value = parser.parseBlock(lines[0].indent);
+  parser.expectEnd();
+  return value;
+}
+
+class BlockParser {
+  private index = 0;
+
+  constructor(private lines: Line[]) {}
+
+  parseBlock(indent: number): unknown {
+    const line = this.lines[this.index];
+    if (isSequenceItem(line.text)) return this.parseSequence(indent);
+    if (findMappingColon(line.text) >= 0) return this.parseMapping(indent);
+    // A lone scalar or flow collection
+    this.index++;
+    return parseInline(line.text, line.number);
+  }
+
+  expectEnd(): void {
+    const line = this.lines[this.index];
+    if (line) throw new YamlError('unexpected indentation', line.number);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (this.current(indent) && isSequenceItem(this.current(indent)!.text)) {
+      const line = this.lines[this.index];
+      const content = line.text.slice(1).trimStart();
+      if (content === '') {
+        this.index++;
+        items.push(this.parseNested(indent));
+      } else if (findMappingColon(content) >= 0 && !/^[[{"']/.test(content)) {
+        // "- key: value" starts a mapping indented at the position of "key"
+        const offset = line.text.length - content.length;
+        this.lines[this.index] = { indent: indent + offset, text: content, number: line.number };
+        items.push(this.parseMapping(indent + offset));
+      } else {
+        this.index++;
+        items.push(parseInline(content, line.number));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    while (this.current(indent) && !isSequenceItem(this.current(indent)!.text)) {
+      const line = this.lines[this.index];
+      const colon = findMappingColon(line.text);
+      if (colon < 0) throw new YamlError(`expected "key: value", found "${line.text}"`, line.number);
+
+      const key = parseKey(line.text.slice(0, colon).trim(), line.number);
+      if (Object.prototype.hasOwnProperty.call(map, key)) {
+        throw new YamlError(`duplicate key "${key}"`, line.number);
+      }
+      const rest = line.text.slice(colon + 1).trim();
+      this.index++;
+
+      if (rest === '') {
+        const next = this.lines[this.index];
+        // "key:" followed by a sequence at the same indentation is allowed
+        map[key] = next && next.indent === indent && isSequenceItem(next.text)
+          ? this.parseSequence(indent)
+          : this.parseNested(indent);
+      } else if (/^[|>]/.test(rest)) {
+        throw new YamlError('block scalars (| and >) are not supported; use a quoted string', line.number);
+      } else {
+        map[key] = parseInline(rest, line.number);
+      }
+    }
+    return map;
+  }
+
+  /** Parses the block indented below the current line, or null when there is none */
+  private parseNested(indent: number): unknown {
+    const next = this.lines[this.index];
+    if (!next || next.indent <= indent) return null;
+    return this.parseBlock(next.indent);
+  }
+
+  /** The current line if it belongs to the block at `indent` */
+  private current(indent: number): Line | undefined {
+    const line = this.lines[this.index];
+    if (!line || line.indent < indent) return undefined;
+    if (line.indent > indent) throw new YamlError('unexpected indentation', line.number);
+    return line;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/** Index of the ":" separating a mapping key from its value, or -1 */
+function findMappingColon(text: string): number {
+  if (/^[[{]/.test(text)) return -1;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if ((c === '"' || c === "'") && i === 0) {
+      quote = c;
+    } else if (c === ':' && (i + 1 === text.length || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseKey(text: string, line: number): string {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const { value, end } = readQuoted(text, 0, line);
+    if (end !== text.length) throw new YamlError(`unexpected text after key ${text}`, line);
+    return value;
+  }
+  if (/^[&*!?]/.test(text)) throw new YamlError(`unsupported key "${text}"`, line);
+  return text;
+}
+
+/** Removes a trailing comment ("#" at the start or after whitespace, outside quotes) */
+function stripComment(text: string, line: number): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === '\\' && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      // Quotes only open a string at the start of a scalar
+      if (i === 0 || /[\s:[{,-]/.test(text[i - 1])) quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  if (quote) throw new YamlError('unterminated quoted string', line);
+  return text;
+}
+
+/** Parses a value written on one line: a scalar or a flow collection */
+function parseInline(text: string, line: number): unknown {
+  const reader = new FlowReader(text, line);
+  const value = reader.readValue(false);
+  reader.expectEnd();
+  return value;
+}
+
+class FlowReader {
+  private pos = 0;
+
+  constructor(private text: string, private line: number) {}
+
+  readValue(inFlow: boolean): unknown {
+    this.skipSpaces();
+    const c = this.text[this.pos];
+    if (c === '[') return this.readSequence();
+    if (c === '{') return this.readMapping();
+    if (c === '"' || c === "'") {
+      const { value, end } = readQuoted(this.text, this.pos, this.line);
+      this.pos = end;
+      return value;
+    }
+    if (c === '&' || c === '*' || c === '!') {
+      throw new YamlError('anchors, aliases and tags are not supported', this.line);
+    }
+    const stop = inFlow ? /[,\]}]/ : /$^/;
+    let end = this.pos;
+    while (end < this.text.length && !stop.test(this.text[end])) {
+      if (inFlow && this.text[end] === ':' && /[\s,\]}]/.test(this.text[end + 1] ?? ' ')) break;
+      end++;
+    }
+    const plain = this.text.slice(this.pos, end).trim();
+    this.pos = end;
+    return resolvePlain(plain);
+  }
+
+  expectEnd(): void {
+    this.skipSpaces();
+    if (this.pos < this.text.length) {
+      throw new YamlError(`unexpected "${this.text.slice(this.pos)}"`, this.line);
+    }
+  }
+
+  private readSequence(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++;
+    this.skipSpaces();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return items;
+    }
+    for (;;) {
+      items.push(this.readValue(true));
+      this.skipSpaces();
+      const c = this.text[this.pos++];
+      if (c === ']') return items;
+      if (c !== ',') throw new YamlError('expected "," or "]" in flow sequence', this.line);
+    }
+  }
+
+  private readMapping(): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    this.pos++;
+    this.skipSpaces();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return map;
+    }
+    for (;;) {
+      const key = this.readValue(true);
+      this.skipSpaces();
+      if (this.text[this.pos] !== ':') {
+        throw new YamlError('expected ":" in flow mapping (quote values starting with "{" or "[")', this.line);
+      }
+      this.pos++;
+      map[String(key)] = this.readValue(true);
+      this.skipSpaces();
+      const c = this.text[this.pos++];
+      if (c === '}') return map;
+      if (c !== ',') throw new YamlError('expected "," or "}" in flow mapping', this.line);
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.pos] === ' ') this.pos++;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', '0': '\0', b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', ' ': ' ',
+};
+
+/** Reads a quoted scalar starting at `start`; returns its value and the index after it */
+function readQuoted(text: string, start: number, line: number): { value: string; end: number } {
+  const quote = text[start];
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote === "'") {
+      if (c !== "'") value += c;
+      else if (text[i + 1] === "'") value += text[++i];
+      else return { value, end: i + 1 };
+    } else if (c === '\\') {
+      const next = text[++i];
+      if (next === 'u') {
+        const hex = text.slice(i + 1, i + 5);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw new YamlError('invalid \\u escape', line);
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 4;
+      } else if (next in ESCAPES) {
+        value += ESCAPES[next];
+      } else {
+        throw new YamlError(`invalid escape "\\${next ?? ''}" in double-quoted string (use single quotes for regexes)`, line);
+      }
+    } else if (c === '"') {
+      return { value, end: i + 1 };
+    } else {
+      value += c;
+    }
+  }
+  throw new YamlError('unterminated quoted string', line);
+}
+
+/** Resolves a plain scalar to null, a boolean, a number or a string (YAML 1.2 core schema) */
+function resolvePlain(text: string): unknown {
+  if (text === '' || /^(null|Null|NULL|~)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return parseInt(text, 10);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return parseFloat(text);
+  return text;
+}
+
+/**
+ * Writes plain objects, arrays and scalars as a YAML document. Strings are
+ * quoted only when needed, with single quotes so regexes keep their
+ * backslashes; `header` lines are written first as comments.
+ */
+export function stringifyYaml(value: unknown, header: string[] = []): string {
+  const lines = header.map((line) => (line ? `# ${line}` : '#'));
+  if (isBlock(value)) lines.push(...writeBlock(value, 0));
+  else lines.push(writeScalar(value));
+  return `${lines.join('\n')}\n`;
+}
+
+/** A non-empty array or object, written over several lines */
+function isBlock(value: unknown): value is unknown[] | Record<string, unknown> {
+  return !!value && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+function writeBlock(value: unknown[] | Record<string, unknown>, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isBlock(item) && !Array.isArray(item)) {
+        // "- key: value", with the other keys aligned under the first
+        const [first, ...rest] = writeBlock(item, indent + 2);
+        lines.push(`${pad}- ${first.slice(indent + 2)}`, ...rest);
+      } else if (isBlock(item)) {
+        lines.push(`${pad}-`, ...writeBlock(item, indent + 2));
+      } else {
+        lines.push(`${pad}- ${writeScalar(item)}`);
+      }
+    }
+    return lines;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    if (isBlock(item)) {
+      lines.push(`${pad}${writeString(key)}:`, ...writeBlock(item, Array.isArray(item) ? indent : indent + 2));
+    } else {
+      lines.push(`${pad}${writeString(key)}: ${writeScalar(item)}`);
+    }
+  }
+  return lines;
+}
+
+function writeScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  if (typeof value === 'string') return writeString(value);
+  return String(value);
+}
+
+function writeString(value: string): string {
+  const plain = value !== ''
+    && value === value.trim()
+    && !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value)
+    && !/: |:$| #|[\s:[{,-]['"]|[\x00-\x1f\x7f]/.test(value)
+    && typeof resolvePlain(value) === 'string';
+  if (plain) return value;
+  // Single-quoted strings cannot hold line breaks or other control characters
+  if (/[\x00-\x1f\x7f]/.test(value)) return JSON.stringify(value);
+  return `'${value.replace(/'/g, "''")}'`;
+}
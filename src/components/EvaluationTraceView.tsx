@@ -0,0 +1,78 @@
+import React from 'react';
+import { EvaluationTrace, RuleTrace, TransformationStep } from '../common/types';
+import { I18nKey, t } from '../i18n';
+import './evaluation-trace.scss';
+
+const OUTCOME_ICONS: Record<RuleTrace['outcome'], string> = {
+  matched: '✓',
+  noMatch: '✗',
+  skipped: '–',
+};
+
+const OUTCOME_LABELS: Record<RuleTrace['outcome'], I18nKey> = {
+  matched: 'trace.outcome.matched',
+  noMatch: 'trace.outcome.noMatch',
+  skipped: 'trace.outcome.skipped',
+};
+
+const STEP_LABELS: Record<TransformationStep['step'], I18nKey> = {
+  shorten: 'trace.step.shorten',
+  render: 'trace.step.render',
+  transliterate: 'trace.step.transliterate',
+  sanitize: 'trace.step.sanitize',
+  lowercase: 'trace.step.lowercase',
+  truncate: 'trace.step.truncate',
+};
+
+/**
+ * Renders an EvaluationTrace: the rules considered (with the outcome of each
+ * predicate) and the transformations applied to the rendered template.
+ * Shared by the create-branch dialog and the settings page.
+ */
+export const EvaluationTraceView: React.FC<{ trace: EvaluationTrace }> = ({ trace }) => (
+  <div className="bp-trace">
+    <div className="bp-trace__section">{t('trace.section.rules', { branch: trace.sourceBranch })}</div>
+    {trace.rules.length === 0 && <div className="bp-trace__empty">{t('trace.noRules')}</div>}
+    <ol className="bp-trace__rules">
+      {trace.rules.map((rule, i) => (
+        <li key={i} className={`bp-trace__rule bp-trace__rule--${rule.outcome}`}>
+          <span className="bp-trace__icon">{OUTCOME_ICONS[rule.outcome]}</span>
+          <span className="bp-trace__rule-name">{rule.ruleName}</span>
+          <span className="bp-trace__meta">
+            {t('trace.priority', { priority: rule.priority })} · {t(OUTCOME_LABELS[rule.outcome])}
+          </span>
+          {rule.predicates.length > 0 && (
+            <ul className="bp-trace__predicates">
+              {rule.predicates.map((p, j) => (
+                <li key={j} className={p.matched ? 'bp-trace__predicate--matched' : undefined}>
+                  <span className="bp-trace__icon">{p.matched ? '✓' : '✗'}</span>
+                  <code>{p.description}</code>
+                  {p.error && <span className="bp-trace__error">{t('trace.invalidPattern', { message: p.error })}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+    {trace.matchedRuleName === 'default' && (
+      <div className="bp-trace__empty">{t('trace.defaultUsed')}</div>
+    )}
+
+    <div className="bp-trace__section">{t('trace.section.steps')}</div>
+    <table className="bp-trace__steps">
+      <tbody>
+        <tr>
+          <th>{t('trace.step.template')}</th>
+          <td><code>{trace.template}</code></td>
+        </tr>
+        {trace.steps.map((step, i) => (
+          <tr key={i}>
+            <th>{t(STEP_LABELS[step.step])}</th>
+            <td><code>{step.value}</code></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
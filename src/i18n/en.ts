@@ -36,6 +36,7 @@ export const en = {
   'modal.error.permissionDenied':
     'You do not have permission to create branches in this repository.',
   'modal.error.generic': 'An error occurred: {message}',
+  'modal.error.template': 'The branch name template is invalid: {message}',
   'modal.warning.nameTooLong':
     'Branch name is {length} characters (recommended max: {max}).',
   'modal.section.diagnostics': 'Diagnostic details',
@@ -43,7 +44,46 @@ export const en = {
   'modal.diagnostics.copied': 'Copied!',
   'modal.stateUpdate': 'Work item state will be set to "{state}".',
   'modal.info.nameLocked': 'Name is locked by administrator settings.',
+  'modal.info.baseBranchSuggested': 'Suggested by rule "{rule}" — you can pick another branch.',
+  'modal.info.repoOverride': 'Repository override "{key}" applies.',
+  'modal.info.repoConfig': 'Naming rules from {path} in this repository.',
+  'modal.repoConfig.invalid': '{path} in this repository is invalid and was ignored; the project rules apply:',
+  'modal.repoConfig.loadFailed': 'Could not read the repository config file; the project rules apply. ({message})',
   'modal.wi.updated': 'Updated {time}',
+  'modal.field.otherRepos': 'Also create in',
+  'modal.field.otherRepos.placeholder': 'Add a repository…',
+  'modal.field.rollback': 'If a repository fails, delete the branches already created',
+  'modal.btn.removeRepo': 'Remove repository',
+  'modal.btn.close': 'Close',
+  'modal.error.inRepo': '{repo}: {message}',
+  'modal.results.title': 'Result per repository',
+  'modal.results.created': 'Created and linked to the work item',
+  'modal.results.rolledBack': 'Created, then deleted by the rollback',
+  'modal.results.skipped': 'Not created: an earlier repository failed',
+  'modal.results.linkFailed': 'Created, but it could not be linked to the work item',
+  'modal.results.rollbackFailed': 'Created, but the rollback could not delete it; it is linked to the work item',
+  'modal.bulk.loading': 'Loading work items…',
+  'modal.bulk.workItems': 'Work items ({count})',
+  'modal.bulk.missing': '{count} selected work items could not be read and are not listed.',
+  'modal.bulk.create': 'Create {count} branches',
+  'modal.bulk.retry': 'Retry failed ({count})',
+  'modal.bulk.progress': 'Creating {current} of {total}…',
+  'modal.bulk.status.pending': 'To create',
+  'modal.bulk.status.creating': 'Creating…',
+  'modal.bulk.status.created': '✓ Created and linked',
+  'modal.bulk.status.failed': '⚠ Failed',
+  'modal.bulk.baseBranchSuggested': 'Suggested by rule "{rule}" for {count} of {total} work items — you can pick another branch.',
+  'modal.bulk.linked': 'Already linked in this repository:',
+  'modal.bulk.forbidden': 'The project settings do not allow another branch in this repository; this work item is skipped.',
+  'modal.linked.title': 'Branches already linked to this work item ({count})',
+  'modal.linked.otherRepo': 'Other project',
+  'modal.linked.open': 'Open',
+  'modal.linked.deleted': 'Deleted',
+  'modal.linked.copyCheckout': 'Copy checkout command',
+  'modal.linked.duplicate': 'This work item already has a branch in {repos}. Check it out instead, or confirm to create another one.',
+  'modal.linked.confirm': 'Create another branch anyway',
+  'modal.linked.confirmRequired': 'Confirm that you want another branch for this work item.',
+  'modal.linked.forbidden': 'This work item already has a branch in this repository, and the project settings do not allow another one.',
 
   // ── Settings Hub ───────────────────────────────────────────────────
   'settings.title': 'BranchPilot Settings',
@@ -51,12 +91,44 @@ export const en = {
     'Configure branch naming rules, defaults, and per-repository overrides.',
   'settings.btn.save': 'Save',
   'settings.btn.export': 'Export JSON',
-  'settings.btn.import': 'Import JSON',
+  'settings.btn.exportSchema': 'Export schema',
+  'settings.btn.dismiss': 'Dismiss',
+  'settings.btn.exportYaml': 'Export YAML',
+  'settings.btn.import': 'Import JSON / YAML',
   'settings.btn.reset': 'Reset to defaults',
+  'settings.scope.label': 'Configuration for',
+  'settings.scope.project': 'This project',
+  'settings.scope.organization': 'Organization (all projects)',
+  'settings.scope.project.hint': 'Rules and settings used when creating branches in this project.',
+  'settings.scope.organization.hint': 'Shared rules and settings, inherited by every project that has inheritance enabled.',
+  'settings.source.organization': 'Organization',
+  'settings.source.project': 'Project',
+  'settings.inheritance.enabled': 'Inherit from the organization configuration',
+  'settings.inheritance.noOrganization': 'No organization configuration has been saved yet: the built-in defaults are inherited.',
+  'settings.inheritance.mode': 'Combine with the organization rules',
+  'settings.inheritance.mode.prepend': 'Project rules first, then organization rules',
+  'settings.inheritance.mode.append': 'Organization rules first, then project rules',
+  'settings.inheritance.mode.replace': 'Project rules only',
+  'settings.inheritance.rules': 'Inherited organization rules ({count})',
   'settings.saved': 'Settings saved.',
   'settings.saveError': 'Failed to save settings: {message}',
+  'settings.migrated':
+    'The stored configuration was upgraded from schema v{from} to v{to}. Click Save to store the upgraded version.',
+  'settings.validation.stored': 'The stored configuration has problems. Invalid rules never match until they are fixed:',
+  'settings.validation.rejected': 'The configuration was not applied because of these errors:',
+  'settings.validation.warnings': 'The configuration was applied with warnings:',
+  'settings.lint.errors': 'Rule problems to fix before saving ({count}):',
+  'settings.lint.warnings': 'Possible rule problems ({count})',
+  'settings.lint.blocked': 'Fix the rule problems listed above to save',
   'settings.importSuccess': 'Configuration imported successfully.',
   'settings.importError': 'Failed to import configuration: {message}',
+  'settings.import.title': 'Import {file}',
+  'settings.import.mode': 'Import as',
+  'settings.import.mode.replace': 'Replace the whole configuration',
+  'settings.import.mode.merge': 'Merge: update rules with the same name or work item type, append the others',
+  'settings.import.noChanges': 'Importing this file changes nothing.',
+  'settings.import.apply': 'Apply import',
+  'settings.import.cancel': 'Cancel',
   'settings.confirmReset':
     'Are you sure you want to reset all settings to defaults? This cannot be undone.',
 
@@ -65,16 +137,53 @@ export const en = {
   'settings.general.language.en': 'English',
   'settings.general.language.it': 'Italiano',
   'settings.general.lowercase': 'Force branch names to lowercase',
+  'settings.general.transliterate':
+    'Transliterate accented and non-Latin letters (é → e, ß → ss)',
   'settings.general.nonAlnumReplacement':
     'Non-alphanumeric replacement character',
   'settings.general.maxLength': 'Maximum branch name length',
+  'settings.general.stopWordLanguages': 'Remove stop words from the title (languages)',
+  'settings.general.stopWords': 'Additional stop words',
+  'settings.general.abbreviations': 'Title abbreviations',
+  'settings.general.ancestorDepth': 'Parent levels to fetch',
+  'settings.general.truncation': 'Title truncation strategy',
+  'settings.general.truncation.hard': 'Hard cut',
+  'settings.general.truncation.wordBoundary': 'Word boundary',
+  'settings.general.truncation.dropMiddleWords': 'Drop middle words',
   'settings.general.allowManualOverride':
     'Allow users to manually edit the branch name',
+  'settings.general.duplicateBranches': 'Work item already has a branch',
+  'settings.general.duplicateBranches.confirm': 'Ask for confirmation',
+  'settings.general.duplicateBranches.forbid': 'Do not allow another branch',
 
   'settings.section.defaults': 'Default Template',
   'settings.defaults.template': 'Default branch name template',
   'settings.defaults.template.hint':
-    'Available tokens: {wi.id}, {wi.title}, {wi.type}, {wi.state}, {prefix}',
+    'Available tokens: {wi.id}, {wi.title}, {wi.type}, {wi.state}, {wi.field:Custom.Component}, {prefix}, {date:YYYYMMDD}, {iteration.leaf}, {area.leaf}, {user.alias}, {user.initials}, {parent.id}, {ancestor:Epic.id}. Filters: {wi.title|slug|max:30}',
+
+  'settings.section.conditionalRules': 'Conditional Rules',
+  'settings.conditional.addRule': 'Add rule',
+  'settings.conditional.removeRule': 'Remove',
+  'settings.conditional.name': 'Rule name',
+  'settings.conditional.priority': 'Priority',
+  'settings.conditional.match': 'Apply when',
+  'settings.conditional.match.all': 'all conditions match (AND)',
+  'settings.conditional.match.any': 'any condition matches (OR)',
+  'settings.conditional.addPredicate': 'Add condition',
+  'settings.conditional.prefix': 'Prefix',
+  'settings.conditional.template': 'Template',
+  'settings.conditional.stateEnabled': 'Update work item state',
+  'settings.conditional.state': 'New state',
+  'settings.predicate.sourceBranch': 'Source branch',
+  'settings.predicate.workItemType': 'Work item type',
+  'settings.predicate.state': 'State',
+  'settings.predicate.areaPath': 'Area path under',
+  'settings.predicate.iterationPath': 'Iteration path under',
+  'settings.predicate.tags': 'Tags',
+  'settings.predicate.priority': 'Priority between',
+  'settings.predicate.field': 'Field',
+  'settings.predicate.operator.contains': 'contains',
+  'settings.predicate.operator.exists': 'is set',
 
   'settings.section.sourceBranchRules': 'Source Branch Rules',
   'settings.sourceBranch.addRule': 'Add rule',
@@ -97,6 +206,59 @@ export const en = {
   'settings.workItemType.stateEnabled': 'Update work item state',
   'settings.workItemType.state': 'New state',
 
+  'settings.section.baseBranchRules': 'Base Branch Rules',
+  'settings.baseBranch.addRule': 'Add rule',
+  'settings.baseBranch.branch': 'Preferred base branch',
+
+  'settings.section.presets': 'Presets',
+  'settings.presets.gitflow': 'GitFlow',
+  'settings.presets.gitflow.description': 'feature and bugfix branches from develop, hotfixes from main, fixes on release branches',
+  'settings.presets.githubFlow': 'GitHub Flow',
+  'settings.presets.githubFlow.description': 'every branch starts from main and is merged back with a pull request',
+  'settings.presets.trunkBased': 'Trunk-based development',
+  'settings.presets.trunkBased.description': 'short-lived branches from the trunk; release branches only get hotfixes',
+  'settings.presets.releaseTrain': 'Release trains',
+  'settings.presets.releaseTrain.description': 'a numbered release branch per train; bugs start from the latest train, other work from main',
+  'settings.presets.option.mainBranch': 'Main branch',
+  'settings.presets.option.developBranch': 'Develop branch',
+  'settings.presets.option.featurePrefix': 'Feature prefix',
+  'settings.presets.option.bugfixPrefix': 'Bugfix prefix',
+  'settings.presets.option.hotfixPrefix': 'Hotfix prefix',
+  'settings.presets.option.releasePrefix': 'Release prefix',
+  'settings.presets.option.numberedReleases': 'Numbered release branches (e.g. release/2.4)',
+  'settings.presets.mode': 'Apply as',
+  'settings.presets.mode.replace': 'Replace the current rules and default template',
+  'settings.presets.mode.merge': 'Merge: add the preset rules that are missing',
+  'settings.presets.preview': 'Changes to the current configuration',
+  'settings.presets.noChanges': 'The configuration already contains this preset.',
+  'settings.presets.apply': 'Apply preset',
+  'settings.presets.applied': 'Preset applied. Review the rules and click Save to persist.',
+
+  'settings.section.history': 'History',
+  'settings.history.empty': 'No saved versions yet. Every save from now on is listed here.',
+  'settings.history.version': 'Version',
+  'settings.history.date': 'Saved',
+  'settings.history.author': 'By',
+  'settings.history.comment': 'Comment',
+  'settings.history.restore': 'Restore',
+  'settings.history.changes': 'Changes in version {version}',
+  'settings.history.first': 'First recorded version.',
+  'settings.history.noChanges': 'Saved without changes.',
+  'settings.history.path': 'Setting',
+  'settings.history.before': 'Before',
+  'settings.history.after': 'After',
+  'settings.history.commentPlaceholder': 'Describe the change (optional)',
+  'settings.history.confirmRestore': 'Restore version {version}? It is saved as a new version, and unsaved edits are discarded.',
+  'settings.history.restoreComment': 'Restored version {version}',
+  'settings.history.restored': 'Version {version} restored.',
+  'settings.conflict.message': 'Someone else saved this configuration while you were editing it. Your changes are not saved yet.',
+  'settings.conflict.savedBy': '{author} saved this configuration ({time}) while you were editing it. Your changes are not saved yet.',
+  'settings.conflict.reload': 'Reload theirs',
+  'settings.conflict.merge': 'Merge',
+  'settings.conflict.overwrite': 'Overwrite with mine',
+  'settings.conflict.merged': 'Changes merged. Review them and save.',
+  'settings.conflict.mergedWithConflicts': 'Changes merged; these were changed on both sides and keep your version. Review them and save:',
+
   'settings.section.repoOverrides': 'Repository Overrides',
   'settings.repoOverrides.hint':
     'Override templates for specific repositories.',
@@ -108,18 +270,44 @@ export const en = {
   // ── Settings tab descriptions ───────────────────────────────────────
   'settings.tab.general.description':
     'Global formatting settings applied to all generated branch names. The default template is used as a fallback when no specific rule matches.',
+  'settings.tab.conditional.description':
+    'Rules that combine several conditions — source branch, work item type, area and iteration path, tags, priority, or any field — with AND or OR. Rules are evaluated by ascending priority: the default 0 runs before source branch rules (1000) and work item type rules (2000). The first matching rule wins.',
   'settings.tab.sourceBranch.description':
-    'Rules matched against the source branch the user selects in the dialog. Evaluated first — highest priority. Use glob or regex patterns to target branches like "hotfix/*" or "release/x.y" and apply a dedicated prefix and template.',
+    'Rules matched against the source branch the user selects in the dialog. Evaluated after conditional rules with a priority below 1000. Use glob or regex patterns to target branches like "hotfix/*" or "release/x.y" and apply a dedicated prefix and template.',
+  'settings.tab.baseBranch.description':
+    'Rules suggesting the base branch the dialog preselects, based on the work item (type, state, area path, …). For example, Bugs in production can start from the latest "hotfix/*" branch and User Stories from "develop". The first matching rule whose branch exists in the repository wins; without a match the repository default branch is used. Users can always pick another branch.',
+  'settings.tab.presets.description':
+    'Start from a common branching strategy. Adjust the branch names and prefixes, check the changes it makes, then replace the current rules with it or merge it into them. General settings and repository overrides are kept. Nothing is saved until you click Save.',
+  'settings.tab.history.description':
+    'Every save of this configuration, with who made it and why. Select a version to see what it changed compared with the previous one; restoring a version saves it again as a new version.',
   'settings.tab.workItemType.description':
     'Rules matched against the work item type (Bug, User Story, Task, …). Applied when no source branch rule matches. Define a prefix and template for each type to generate consistent branch names automatically.',
 
   // ── Field tooltips ──────────────────────────────────────────────────
   'settings.tooltip.nonAlnumReplacement':
     'Characters in the work item title that are not letters or digits are replaced with this character.\nCommon choices: "-" or "_".\nLeave empty to strip them entirely.',
+  'settings.tooltip.transliterate':
+    'Converts letters such as "è", "ß", "ø", Cyrillic and Greek to plain ASCII before sanitizing, so "Perché l\'università è lenta" becomes "perche-l-universita-e-lenta" instead of "perch-l-universit-lenta".',
   'settings.tooltip.maxLength':
     'Branch names longer than this limit will trigger a warning in the dialog. Git supports up to 250 characters, but shorter names are easier to read and type.',
+  'settings.tooltip.stopWordLanguages':
+    'Comma-separated language codes (en, it, de, fr, es). Filler words of these languages such as "the", "di", "per" are removed from {wi.title}, so the meaningful words survive truncation.',
+  'settings.tooltip.stopWords':
+    'Comma-separated words removed from {wi.title} in addition to the built-in lists. Matching is case-insensitive.',
+  'settings.tooltip.abbreviations':
+    'Comma-separated "word=short" pairs applied to {wi.title} word by word, e.g. "configuration=config, authentication=auth".',
+  'settings.tooltip.ancestorDepth':
+    'How many parent levels (Task → User Story → Feature → Epic) are fetched for {parent.*} and {ancestor:Type.*} tokens. Parents are only fetched when a template uses these tokens. 0 disables them.',
+  'settings.tooltip.truncation':
+    'How the title is shortened when the branch name exceeds the maximum length. Only the title is shortened: the prefix, ID and every other template segment are kept.\nHard cut: cut at the exact character.\nWord boundary: drop trailing words, never cutting a word in half.\nDrop middle words: keep the first and last words of the title.',
+  'settings.tooltip.inheritance':
+    'When enabled, this project uses the organization configuration and stores only what it changes. Values marked "Organization" follow the organization configuration; changing them makes them project values.',
+  'settings.tooltip.ruleListMode':
+    'Rules are evaluated in list order. Put project rules first to override organization rules, after them to add fallbacks, or use only the project rules.',
   'settings.tooltip.allowManualOverride':
     'When enabled, users can freely edit the generated branch name in the dialog before creating it. Disable to enforce strict naming compliance across the team.',
+  'settings.tooltip.duplicateBranches':
+    'What the dialog does when the work item is already linked to a branch in the selected repository, e.g. when BranchPilot is run twice on the same item.',
   'settings.tooltip.matchType':
     'Glob: simple wildcard patterns, e.g. "hotfix/*" or "main".\nRegex: full regular expressions, e.g. "^release/\\d+\\.\\d+$".\nBoth are tested against the full source branch name.',
   'settings.tooltip.pattern':
@@ -127,13 +315,66 @@ export const en = {
   'settings.tooltip.prefix':
     'Static text prepended to the generated name.\nExample: prefix "hotfix/" + template "{prefix}{wi.id}-{wi.title}" → "hotfix/1234-fix-login".\nLeave empty if the template already contains the desired path.',
   'settings.tooltip.template':
-    'Branch name template. Supported tokens:\n· {wi.id} → work item ID (e.g. 1234)\n· {wi.title} → title, lowercased & sanitized\n· {wi.type} → work item type (Bug, Story…)\n· {wi.state} → current work item state\n· {prefix} → value of the Prefix field above',
+    'Branch name template. Supported tokens:\n· {wi.id} → work item ID (e.g. 1234)\n· {wi.title} → title, lowercased & sanitized\n· {wi.type} → work item type (Bug, Story…)\n· {wi.state} → current work item state\n· {wi.field:Ref} → any field by reference name (e.g. Custom.Component)\n· {prefix} → value of the Prefix field above\n· {match.version} → capture group of a regex source branch pattern\n· {date:YYYYMMDD} → current date\n· {iteration.leaf} / {area.leaf} → last segment of the iteration / area path (e.g. Sprint 42)\n· {user.alias} / {user.initials} → the user creating the branch (e.g. jdoe / JD)\n· {parent.id} / {parent.title} / {parent.type} → the parent work item\n· {ancestor:Epic.id} → the nearest ancestor of a type (also .title)\nChain filters with |: lower, upper, trim, slug, max:N, words:N, initials, pad:N, replace:A:B',
+  'settings.tooltip.baseBranch':
+    'A branch name such as "develop", or a glob/regex pattern such as "hotfix/*". When several branches match, the latest one is chosen (highest version number, e.g. "hotfix/2.10" over "hotfix/2.9").',
+  'settings.tooltip.priority':
+    'Lower values are evaluated first. Source branch rules run at 1000 and work item type rules at 2000, so use e.g. 1500 to place a rule between them.',
   'settings.tooltip.stateOnCreate':
     'When the branch is created, the linked work item will automatically transition to this state. Enter the exact state name from your process template (e.g. "Active", "In Progress", "Committed").',
 
+  // ── Config ─────────────────────────────────────────────────────────
+  'config.error.newerSchema':
+    'This configuration was saved by a newer version of BranchPilot (schema v{stored}; this version supports up to v{supported}). Update the extension before using or editing it.',
+
   // ── Action ─────────────────────────────────────────────────────────
   'action.label': 'New branch... (BranchPilot)',
   'action.title': 'Create a new branch linked to this Work Item',
+
+  // ── Evaluation trace ────────────────────────────────────────────────
+  'trace.title': 'Why this name?',
+  'trace.section.rules': 'Rules evaluated for source branch "{branch}"',
+  'trace.section.steps': 'Transformations',
+  'trace.noRules': 'No rules configured.',
+  'trace.defaultUsed': 'No rule matched — the default template was used.',
+  'trace.priority': 'priority {priority}',
+  'trace.outcome.matched': 'matched',
+  'trace.outcome.noMatch': 'no match',
+  'trace.outcome.skipped': 'not evaluated (an earlier rule matched)',
+  'trace.invalidPattern': 'Invalid pattern: {message}',
+  'trace.step.template': 'Template',
+  'trace.step.shorten': 'Shortened title',
+  'trace.step.render': 'Rendered',
+  'trace.step.transliterate': 'Transliterated',
+  'trace.step.sanitize': 'Sanitized',
+  'trace.step.lowercase': 'Lowercased',
+  'trace.step.truncate': 'Truncated',
+  'settings.section.explain': 'Explain a branch name',
+  'settings.explain.description':
+    'Try the current (unsaved) configuration against a sample work item and source branch, and see which rules were evaluated and how the name was built.',
+  'settings.explain.sourceBranch': 'Source branch',
+  'settings.explain.workItemType': 'Work item type',
+  'settings.explain.title': 'Work item title',
+  'settings.explain.defaultTitle': 'Fix login page crash',
+  'settings.section.simulator': 'Simulate on real work items',
+  'settings.simulator.description':
+    'Run the current (unsaved) configuration against real work items before saving it. Results update as you edit the rules.',
+  'settings.simulator.source': 'Work items from',
+  'settings.simulator.source.ids': 'Work item IDs',
+  'settings.simulator.source.query': 'Saved query',
+  'settings.simulator.ids': 'Work item IDs',
+  'settings.simulator.query': 'Query ID or path',
+  'settings.simulator.run': 'Run simulation',
+  'settings.simulator.noWorkItems': 'No work items found.',
+  'settings.simulator.truncated': 'The query returned {count} work items; only the first {max} are simulated.',
+  'settings.simulator.error': 'Simulation failed: {message}',
+  'settings.simulator.col.workItem': 'Work item',
+  'settings.simulator.col.branchName': 'Branch name',
+  'settings.simulator.col.rule': 'Matched rule',
+  'settings.simulator.col.state': 'State transition',
+  'settings.tooltip.simulatorIds': 'Comma-separated work item IDs, e.g. "1234, 1235".',
+  'settings.tooltip.simulatorQuery':
+    'The ID (GUID) or the path of a saved query, e.g. "Shared Queries/Current Sprint". Flat, tree and one-hop queries are supported.',
 };
 
 export type I18nKey = keyof typeof en;
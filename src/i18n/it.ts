@@ -38,25 +38,98 @@ export const it: Partial<Record<I18nKey, string>> = {
   'modal.error.permissionDenied':
     'Non hai i permessi per creare branch in questo repository.',
   'modal.error.generic': 'Si è verificato un errore: {message}',
+  'modal.error.template': 'Il template del nome branch non è valido: {message}',
   'modal.warning.nameTooLong':
     'Il nome del branch è lungo {length} caratteri (massimo consigliato: {max}).',
   'modal.section.diagnostics': 'Dettagli diagnostici',
   'modal.btn.copyDiagnostics': 'Copia diagnostica',
   'modal.diagnostics.copied': 'Copiato!',
   'modal.stateUpdate': 'Lo stato del work item sarà impostato a "{state}".',
-  'modal.info.nameLocked': 'Il nome è bloccato dalle impostazioni dell\'amministratore.',  'modal.wi.updated': 'Aggiornato {time}',
+  'modal.info.nameLocked': 'Il nome è bloccato dalle impostazioni dell\'amministratore.',
+  'modal.info.baseBranchSuggested': 'Suggerito dalla regola "{rule}" — puoi scegliere un altro branch.',
+  'modal.info.repoOverride': 'Si applica la sostituzione per repository "{key}".',
+  'modal.info.repoConfig': 'Regole di naming da {path} in questo repository.',
+  'modal.repoConfig.invalid': '{path} in questo repository non è valido ed è stato ignorato; si applicano le regole del progetto:',
+  'modal.repoConfig.loadFailed': 'Impossibile leggere il file di configurazione del repository; si applicano le regole del progetto. ({message})',
+  'modal.wi.updated': 'Aggiornato {time}',
+  'modal.field.otherRepos': 'Crea anche in',
+  'modal.field.otherRepos.placeholder': 'Aggiungi un repository…',
+  'modal.field.rollback': 'Se un repository non riesce, elimina i branch già creati',
+  'modal.btn.removeRepo': 'Rimuovi repository',
+  'modal.btn.close': 'Chiudi',
+  'modal.error.inRepo': '{repo}: {message}',
+  'modal.results.title': 'Risultato per repository',
+  'modal.results.created': 'Creato e collegato al work item',
+  'modal.results.rolledBack': 'Creato, poi eliminato dal rollback',
+  'modal.results.skipped': 'Non creato: un repository precedente non è riuscito',
+  'modal.results.linkFailed': 'Creato, ma non è stato possibile collegarlo al work item',
+  'modal.results.rollbackFailed': 'Creato, ma il rollback non è riuscito a eliminarlo; è collegato al work item',
+  'modal.bulk.loading': 'Caricamento dei work item…',
+  'modal.bulk.workItems': 'Work item ({count})',
+  'modal.bulk.missing': '{count} work item selezionati non sono leggibili e non sono elencati.',
+  'modal.bulk.create': 'Crea {count} branch',
+  'modal.bulk.retry': 'Riprova i falliti ({count})',
+  'modal.bulk.progress': 'Creazione {current} di {total}…',
+  'modal.bulk.status.pending': 'Da creare',
+  'modal.bulk.status.creating': 'Creazione…',
+  'modal.bulk.status.created': '✓ Creato e collegato',
+  'modal.bulk.status.failed': '⚠ Non riuscito',
+  'modal.bulk.baseBranchSuggested': 'Suggerito dalla regola "{rule}" per {count} work item su {total} — puoi scegliere un altro branch.',
+  'modal.bulk.linked': 'Già collegato in questo repository:',
+  'modal.bulk.forbidden': 'Le impostazioni del progetto non consentono un altro branch in questo repository; questo work item viene saltato.',
+  'modal.linked.title': 'Branch già collegati a questo work item ({count})',
+  'modal.linked.otherRepo': 'Altro progetto',
+  'modal.linked.open': 'Apri',
+  'modal.linked.deleted': 'Eliminato',
+  'modal.linked.copyCheckout': 'Copia comando di checkout',
+  'modal.linked.duplicate': 'Questo work item ha già un branch in {repos}. Usa quello, oppure conferma per crearne un altro.',
+  'modal.linked.confirm': 'Crea comunque un altro branch',
+  'modal.linked.confirmRequired': 'Conferma di volere un altro branch per questo work item.',
+  'modal.linked.forbidden': 'Questo work item ha già un branch in questo repository e le impostazioni del progetto non ne consentono un altro.',
   // ── Settings Hub ───────────────────────────────────────────────────
   'settings.title': 'Impostazioni BranchPilot',
   'settings.subtitle':
     'Configura le regole di nomenclatura branch, i valori predefiniti e le sostituzioni per repository.',
   'settings.btn.save': 'Salva',
   'settings.btn.export': 'Esporta JSON',
-  'settings.btn.import': 'Importa JSON',
+  'settings.btn.exportSchema': 'Esporta schema',
+  'settings.btn.dismiss': 'Chiudi',
+  'settings.btn.exportYaml': 'Esporta YAML',
+  'settings.btn.import': 'Importa JSON / YAML',
   'settings.btn.reset': 'Ripristina predefiniti',
+  'settings.scope.label': 'Configurazione per',
+  'settings.scope.project': 'Questo progetto',
+  'settings.scope.organization': 'Organizzazione (tutti i progetti)',
+  'settings.scope.project.hint': 'Regole e impostazioni usate per creare branch in questo progetto.',
+  'settings.scope.organization.hint': 'Regole e impostazioni condivise, ereditate da ogni progetto con l\'ereditarietà attiva.',
+  'settings.source.organization': 'Organizzazione',
+  'settings.source.project': 'Progetto',
+  'settings.inheritance.enabled': 'Eredita dalla configurazione dell\'organizzazione',
+  'settings.inheritance.noOrganization': 'Non è ancora stata salvata una configurazione dell\'organizzazione: vengono ereditati i valori predefiniti.',
+  'settings.inheritance.mode': 'Combinazione con le regole dell\'organizzazione',
+  'settings.inheritance.mode.prepend': 'Prima le regole del progetto, poi quelle dell\'organizzazione',
+  'settings.inheritance.mode.append': 'Prima le regole dell\'organizzazione, poi quelle del progetto',
+  'settings.inheritance.mode.replace': 'Solo le regole del progetto',
+  'settings.inheritance.rules': 'Regole ereditate dall\'organizzazione ({count})',
   'settings.saved': 'Impostazioni salvate.',
   'settings.saveError': 'Errore nel salvataggio: {message}',
+  'settings.migrated':
+    'La configurazione salvata è stata aggiornata dallo schema v{from} al v{to}. Fai clic su Salva per memorizzare la versione aggiornata.',
+  'settings.validation.stored': 'La configurazione salvata contiene problemi. Le regole non valide non vengono applicate finché non sono corrette:',
+  'settings.validation.rejected': 'La configurazione non è stata applicata a causa di questi errori:',
+  'settings.validation.warnings': 'La configurazione è stata applicata con degli avvisi:',
+  'settings.lint.errors': 'Problemi nelle regole da correggere prima di salvare ({count}):',
+  'settings.lint.warnings': 'Possibili problemi nelle regole ({count})',
+  'settings.lint.blocked': 'Correggi i problemi nelle regole elencati sopra per salvare',
   'settings.importSuccess': 'Configurazione importata con successo.',
   'settings.importError': 'Errore durante l\'importazione: {message}',
+  'settings.import.title': 'Importa {file}',
+  'settings.import.mode': 'Importa come',
+  'settings.import.mode.replace': 'Sostituisci l\'intera configurazione',
+  'settings.import.mode.merge': 'Unisci: aggiorna le regole con lo stesso nome o tipo di work item, aggiungi le altre',
+  'settings.import.noChanges': 'Importare questo file non cambia nulla.',
+  'settings.import.apply': 'Applica importazione',
+  'settings.import.cancel': 'Annulla',
   'settings.confirmReset':
     'Sei sicuro di voler ripristinare tutte le impostazioni ai valori predefiniti? L\'operazione non può essere annullata.',
 
@@ -65,16 +138,53 @@ export const it: Partial<Record<I18nKey, string>> = {
   'settings.general.language.en': 'English',
   'settings.general.language.it': 'Italiano',
   'settings.general.lowercase': 'Forza nomi branch in minuscolo',
+  'settings.general.transliterate':
+    'Translittera lettere accentate e non latine (é → e, ß → ss)',
   'settings.general.nonAlnumReplacement':
     'Carattere sostitutivo per non-alfanumerici',
   'settings.general.maxLength': 'Lunghezza massima nome branch',
+  'settings.general.stopWordLanguages': 'Rimuovi le stop word dal titolo (lingue)',
+  'settings.general.stopWords': 'Stop word aggiuntive',
+  'settings.general.abbreviations': 'Abbreviazioni del titolo',
+  'settings.general.ancestorDepth': 'Livelli di parent da recuperare',
+  'settings.general.truncation': 'Strategia di troncamento del titolo',
+  'settings.general.truncation.hard': 'Taglio netto',
+  'settings.general.truncation.wordBoundary': 'Parole intere',
+  'settings.general.truncation.dropMiddleWords': 'Rimuovi le parole centrali',
   'settings.general.allowManualOverride':
     'Permetti agli utenti di modificare manualmente il nome del branch',
+  'settings.general.duplicateBranches': 'Work item con un branch già collegato',
+  'settings.general.duplicateBranches.confirm': 'Chiedi conferma',
+  'settings.general.duplicateBranches.forbid': 'Non consentire un altro branch',
 
   'settings.section.defaults': 'Template predefinito',
   'settings.defaults.template': 'Template predefinito per il nome branch',
   'settings.defaults.template.hint':
-    'Token disponibili: {wi.id}, {wi.title}, {wi.type}, {wi.state}, {prefix}',
+    'Token disponibili: {wi.id}, {wi.title}, {wi.type}, {wi.state}, {wi.field:Custom.Component}, {prefix}, {date:YYYYMMDD}, {iteration.leaf}, {area.leaf}, {user.alias}, {user.initials}, {parent.id}, {ancestor:Epic.id}. Filtri: {wi.title|slug|max:30}',
+
+  'settings.section.conditionalRules': 'Regole condizionali',
+  'settings.conditional.addRule': 'Aggiungi regola',
+  'settings.conditional.removeRule': 'Rimuovi',
+  'settings.conditional.name': 'Nome regola',
+  'settings.conditional.priority': 'Priorità',
+  'settings.conditional.match': 'Applica quando',
+  'settings.conditional.match.all': 'tutte le condizioni sono vere (AND)',
+  'settings.conditional.match.any': 'almeno una condizione è vera (OR)',
+  'settings.conditional.addPredicate': 'Aggiungi condizione',
+  'settings.conditional.prefix': 'Prefisso',
+  'settings.conditional.template': 'Template',
+  'settings.conditional.stateEnabled': 'Aggiorna stato work item',
+  'settings.conditional.state': 'Nuovo stato',
+  'settings.predicate.sourceBranch': 'Branch sorgente',
+  'settings.predicate.workItemType': 'Tipo work item',
+  'settings.predicate.state': 'Stato',
+  'settings.predicate.areaPath': 'Area path sotto',
+  'settings.predicate.iterationPath': 'Iteration path sotto',
+  'settings.predicate.tags': 'Tag',
+  'settings.predicate.priority': 'Priorità compresa tra',
+  'settings.predicate.field': 'Campo',
+  'settings.predicate.operator.contains': 'contiene',
+  'settings.predicate.operator.exists': 'è valorizzato',
 
   'settings.section.sourceBranchRules': 'Regole per branch sorgente',
   'settings.sourceBranch.addRule': 'Aggiungi regola',
@@ -97,6 +207,59 @@ export const it: Partial<Record<I18nKey, string>> = {
   'settings.workItemType.stateEnabled': 'Aggiorna stato work item',
   'settings.workItemType.state': 'Nuovo stato',
 
+  'settings.section.baseBranchRules': 'Regole branch di base',
+  'settings.baseBranch.addRule': 'Aggiungi regola',
+  'settings.baseBranch.branch': 'Branch di base preferito',
+
+  'settings.section.presets': 'Preset',
+  'settings.presets.gitflow': 'GitFlow',
+  'settings.presets.gitflow.description': 'branch feature e bugfix da develop, hotfix da main, correzioni sui branch di release',
+  'settings.presets.githubFlow': 'GitHub Flow',
+  'settings.presets.githubFlow.description': 'ogni branch parte da main e torna in main con una pull request',
+  'settings.presets.trunkBased': 'Sviluppo trunk-based',
+  'settings.presets.trunkBased.description': 'branch di breve durata dal trunk; i branch di release ricevono solo hotfix',
+  'settings.presets.releaseTrain': 'Release train',
+  'settings.presets.releaseTrain.description': 'un branch di release numerato per ogni train; i bug partono dall\'ultimo train, il resto da main',
+  'settings.presets.option.mainBranch': 'Branch principale',
+  'settings.presets.option.developBranch': 'Branch di sviluppo',
+  'settings.presets.option.featurePrefix': 'Prefisso feature',
+  'settings.presets.option.bugfixPrefix': 'Prefisso bugfix',
+  'settings.presets.option.hotfixPrefix': 'Prefisso hotfix',
+  'settings.presets.option.releasePrefix': 'Prefisso release',
+  'settings.presets.option.numberedReleases': 'Branch di release numerati (es. release/2.4)',
+  'settings.presets.mode': 'Applica come',
+  'settings.presets.mode.replace': 'Sostituisci le regole e il template predefinito attuali',
+  'settings.presets.mode.merge': 'Unisci: aggiungi le regole del preset mancanti',
+  'settings.presets.preview': 'Modifiche alla configurazione attuale',
+  'settings.presets.noChanges': 'La configurazione contiene già questo preset.',
+  'settings.presets.apply': 'Applica preset',
+  'settings.presets.applied': 'Preset applicato. Controlla le regole e fai clic su Salva per renderlo permanente.',
+
+  'settings.section.history': 'Cronologia',
+  'settings.history.empty': 'Nessuna versione salvata. Da ora ogni salvataggio viene elencato qui.',
+  'settings.history.version': 'Versione',
+  'settings.history.date': 'Salvata',
+  'settings.history.author': 'Da',
+  'settings.history.comment': 'Commento',
+  'settings.history.restore': 'Ripristina',
+  'settings.history.changes': 'Modifiche nella versione {version}',
+  'settings.history.first': 'Prima versione registrata.',
+  'settings.history.noChanges': 'Salvata senza modifiche.',
+  'settings.history.path': 'Impostazione',
+  'settings.history.before': 'Prima',
+  'settings.history.after': 'Dopo',
+  'settings.history.commentPlaceholder': 'Descrivi la modifica (facoltativo)',
+  'settings.history.confirmRestore': 'Ripristinare la versione {version}? Viene salvata come nuova versione e le modifiche non salvate vanno perse.',
+  'settings.history.restoreComment': 'Ripristinata la versione {version}',
+  'settings.history.restored': 'Versione {version} ripristinata.',
+  'settings.conflict.message': 'Qualcun altro ha salvato questa configurazione mentre la modificavi. Le tue modifiche non sono ancora salvate.',
+  'settings.conflict.savedBy': '{author} ha salvato questa configurazione ({time}) mentre la modificavi. Le tue modifiche non sono ancora salvate.',
+  'settings.conflict.reload': 'Ricarica la loro',
+  'settings.conflict.merge': 'Unisci',
+  'settings.conflict.overwrite': 'Sovrascrivi con la mia',
+  'settings.conflict.merged': 'Modifiche unite. Controllale e salva.',
+  'settings.conflict.mergedWithConflicts': 'Modifiche unite; queste sono state cambiate da entrambe le parti e mantengono la tua versione. Controllale e salva:',
+
   'settings.section.repoOverrides': 'Sostituzioni per repository',
   'settings.repoOverrides.hint':
     'Sostituisci i template per repository specifici.',
@@ -108,18 +271,44 @@ export const it: Partial<Record<I18nKey, string>> = {
   // ── Settings tab descriptions ───────────────────────────────────────
   'settings.tab.general.description':
     'Impostazioni di formattazione globali applicate a tutti i nomi branch generati. Il template predefinito viene usato come fallback quando nessuna regola specifica corrisponde.',
+  'settings.tab.conditional.description':
+    'Regole che combinano più condizioni — branch sorgente, tipo di work item, area e iteration path, tag, priorità o qualsiasi campo — in AND o in OR. Le regole sono valutate per priorità crescente: il valore predefinito 0 precede le regole per branch sorgente (1000) e per tipo di work item (2000). Vince la prima regola che corrisponde.',
   'settings.tab.sourceBranch.description':
-    'Regole abbinate al branch sorgente selezionato dall\'utente nel dialogo. Valutate per prime — massima priorità. Usa pattern glob o regex per branch come "hotfix/*" o "release/x.y" e applica prefisso e template dedicati.',
+    'Regole abbinate al branch sorgente selezionato dall\'utente nel dialogo. Valutate dopo le regole condizionali con priorità inferiore a 1000. Usa pattern glob o regex per branch come "hotfix/*" o "release/x.y" e applica prefisso e template dedicati.',
+  'settings.tab.baseBranch.description':
+    'Regole che suggeriscono il branch di base preselezionato nella finestra, in base al work item (tipo, stato, area path, …). Ad esempio, i Bug in produzione possono partire dall\'ultimo branch "hotfix/*" e le User Story da "develop". Vince la prima regola corrispondente il cui branch esiste nel repository; senza corrispondenze viene usato il branch predefinito del repository. Gli utenti possono sempre scegliere un altro branch.',
+  'settings.tab.presets.description':
+    'Parti da una strategia di branching comune. Adatta i nomi dei branch e i prefissi, controlla le modifiche che apporta, poi sostituisci le regole attuali o uniscilo ad esse. Le impostazioni generali e gli override dei repository restano invariati. Nulla viene salvato finché non fai clic su Salva.',
+  'settings.tab.history.description':
+    'Ogni salvataggio di questa configurazione, con autore e motivo. Seleziona una versione per vedere cosa ha cambiato rispetto alla precedente; il ripristino di una versione la salva di nuovo come nuova versione.',
   'settings.tab.workItemType.description':
     'Regole abbinate al tipo di work item (Bug, User Story, Task, …). Applicate quando nessuna regola per branch sorgente corrisponde. Definisci prefisso e template per ogni tipo per generare nomi coerenti automaticamente.',
 
   // ── Field tooltips ──────────────────────────────────────────────────
   'settings.tooltip.nonAlnumReplacement':
     'I caratteri nel titolo del work item che non sono lettere o cifre vengono sostituiti con questo carattere.\nScelte comuni: "-" o "_".\nLascia vuoto per eliminarli.',
+  'settings.tooltip.transliterate':
+    'Converte lettere come "è", "ß", "ø", cirilliche e greche in ASCII prima della normalizzazione, così "Perché l\'università è lenta" diventa "perche-l-universita-e-lenta" invece di "perch-l-universit-lenta".',
   'settings.tooltip.maxLength':
     'I nomi branch più lunghi di questo limite generano un avviso nel dialogo. Git supporta fino a 250 caratteri, ma nomi più corti sono più leggibili.',
+  'settings.tooltip.stopWordLanguages':
+    'Codici lingua separati da virgola (en, it, de, fr, es). Le parole di riempimento di queste lingue come "the", "di", "per" vengono rimosse da {wi.title}, così le parole significative sopravvivono al troncamento.',
+  'settings.tooltip.stopWords':
+    'Parole separate da virgola rimosse da {wi.title} in aggiunta alle liste predefinite. Il confronto non distingue maiuscole e minuscole.',
+  'settings.tooltip.abbreviations':
+    'Coppie "parola=abbreviazione" separate da virgola, applicate a {wi.title} parola per parola, es. "configuration=config, authentication=auth".',
+  'settings.tooltip.ancestorDepth':
+    'Quanti livelli di parent (Task → User Story → Feature → Epic) vengono recuperati per i token {parent.*} e {ancestor:Tipo.*}. I parent sono recuperati solo se un template usa questi token. 0 li disattiva.',
+  'settings.tooltip.truncation':
+    'Come viene accorciato il titolo quando il nome del branch supera la lunghezza massima. Viene accorciato solo il titolo: prefisso, ID e ogni altro segmento del template restano intatti.\nTaglio netto: taglia al carattere esatto.\nParole intere: rimuove le parole finali, senza mai spezzare una parola.\nRimuovi le parole centrali: mantiene la prima e l\'ultima parola del titolo.',
+  'settings.tooltip.inheritance':
+    'Se attivo, il progetto usa la configurazione dell\'organizzazione e salva solo ciò che modifica. I valori contrassegnati "Organizzazione" seguono la configurazione dell\'organizzazione; modificandoli diventano valori del progetto.',
+  'settings.tooltip.ruleListMode':
+    'Le regole sono valutate nell\'ordine della lista. Metti prima le regole del progetto per sovrascrivere quelle dell\'organizzazione, dopo per aggiungere regole di riserva, oppure usa solo le regole del progetto.',
   'settings.tooltip.allowManualOverride':
     'Se abilitato, gli utenti possono modificare il nome branch generato prima di crearlo. Disabilita per imporre una denominazione uniforme nel team.',
+  'settings.tooltip.duplicateBranches':
+    'Cosa fa la finestra quando il work item è già collegato a un branch nel repository selezionato, ad esempio se BranchPilot viene eseguito due volte sullo stesso elemento.',
   'settings.tooltip.matchType':
     'Glob: pattern wildcard semplici, es. "hotfix/*" o "main".\nRegex: espressioni regolari complete, es. "^release/\\d+\\.\\d+$".\nEntrambi vengono testati sul nome completo del branch sorgente.',
   'settings.tooltip.pattern':
@@ -127,11 +316,64 @@ export const it: Partial<Record<I18nKey, string>> = {
   'settings.tooltip.prefix':
     'Testo statico anteposto al nome generato.\nEsempio: prefisso "hotfix/" + template "{prefix}{wi.id}-{wi.title}" → "hotfix/1234-fix-login".\nLascia vuoto se il template contiene già il percorso desiderato.',
   'settings.tooltip.template':
-    'Template per il nome branch. Token supportati:\n· {wi.id} → ID work item (es. 1234)\n· {wi.title} → titolo, normalizzato e in minuscolo\n· {wi.type} → tipo work item (Bug, Story…)\n· {wi.state} → stato corrente del work item\n· {prefix} → valore del campo Prefisso sopra',
+    'Template per il nome branch. Token supportati:\n· {wi.id} → ID work item (es. 1234)\n· {wi.title} → titolo, normalizzato e in minuscolo\n· {wi.type} → tipo work item (Bug, Story…)\n· {wi.state} → stato corrente del work item\n· {wi.field:Ref} → qualsiasi campo per nome di riferimento (es. Custom.Component)\n· {prefix} → valore del campo Prefisso sopra\n· {match.version} → gruppo catturato dal pattern regex del branch sorgente\n· {date:YYYYMMDD} → data corrente\n· {iteration.leaf} / {area.leaf} → ultimo segmento dell\'iteration / area path (es. Sprint 42)\n· {user.alias} / {user.initials} → l\'utente che crea il branch (es. jdoe / JD)\n· {parent.id} / {parent.title} / {parent.type} → il work item parent\n· {ancestor:Epic.id} → l\'antenato più vicino di un tipo (anche .title)\nFiltri concatenabili con |: lower, upper, trim, slug, max:N, words:N, initials, pad:N, replace:A:B',
+  'settings.tooltip.baseBranch':
+    'Un nome di branch come "develop", oppure un pattern glob/regex come "hotfix/*". Se più branch corrispondono, viene scelto il più recente (numero di versione più alto, es. "hotfix/2.10" invece di "hotfix/2.9").',
+  'settings.tooltip.priority':
+    'I valori più bassi sono valutati per primi. Le regole per branch sorgente usano 1000 e quelle per tipo di work item 2000: usa ad esempio 1500 per inserire una regola tra le due.',
   'settings.tooltip.stateOnCreate':
     'Quando il branch viene creato, il work item collegato passerà automaticamente a questo stato. Inserisci il nome esatto dello stato del tuo processo (es. "Attivo", "In Corso", "Committed").',
 
+  // ── Config ─────────────────────────────────────────────────────────
+  'config.error.newerSchema':
+    'Questa configurazione è stata salvata da una versione più recente di BranchPilot (schema v{stored}; questa versione supporta fino alla v{supported}). Aggiorna l\'estensione prima di usarla o modificarla.',
+
   // ── Action ─────────────────────────────────────────────────────────
   'action.label': 'Nuovo branch... (BranchPilot)',
   'action.title': 'Crea un nuovo branch collegato a questo Work Item',
+
+  // ── Evaluation trace ────────────────────────────────────────────────
+  'trace.title': 'Perché questo nome?',
+  'trace.section.rules': 'Regole valutate per il branch di origine "{branch}"',
+  'trace.section.steps': 'Trasformazioni',
+  'trace.noRules': 'Nessuna regola configurata.',
+  'trace.defaultUsed': 'Nessuna regola corrispondente — è stato usato il template predefinito.',
+  'trace.priority': 'priorità {priority}',
+  'trace.outcome.matched': 'corrispondente',
+  'trace.outcome.noMatch': 'non corrispondente',
+  'trace.outcome.skipped': 'non valutata (una regola precedente corrisponde)',
+  'trace.invalidPattern': 'Pattern non valido: {message}',
+  'trace.step.template': 'Template',
+  'trace.step.shorten': 'Titolo abbreviato',
+  'trace.step.render': 'Renderizzato',
+  'trace.step.transliterate': 'Traslitterato',
+  'trace.step.sanitize': 'Sanificato',
+  'trace.step.lowercase': 'In minuscolo',
+  'trace.step.truncate': 'Troncato',
+  'settings.section.explain': 'Spiega un nome di branch',
+  'settings.explain.description':
+    'Prova la configurazione corrente (non salvata) con un work item e un branch di origine di esempio, e scopri quali regole sono state valutate e come è stato costruito il nome.',
+  'settings.explain.sourceBranch': 'Branch di origine',
+  'settings.explain.workItemType': 'Tipo di work item',
+  'settings.explain.title': 'Titolo del work item',
+  'settings.explain.defaultTitle': 'Correggi crash della pagina di login',
+  'settings.section.simulator': 'Simula su work item reali',
+  'settings.simulator.description':
+    'Esegui la configurazione corrente (non salvata) su work item reali prima di salvarla. I risultati si aggiornano mentre modifichi le regole.',
+  'settings.simulator.source': 'Work item da',
+  'settings.simulator.source.ids': 'ID dei work item',
+  'settings.simulator.source.query': 'Query salvata',
+  'settings.simulator.ids': 'ID dei work item',
+  'settings.simulator.query': 'ID o percorso della query',
+  'settings.simulator.run': 'Esegui simulazione',
+  'settings.simulator.noWorkItems': 'Nessun work item trovato.',
+  'settings.simulator.truncated': 'La query ha restituito {count} work item; vengono simulati solo i primi {max}.',
+  'settings.simulator.error': 'Simulazione non riuscita: {message}',
+  'settings.simulator.col.workItem': 'Work item',
+  'settings.simulator.col.branchName': 'Nome del branch',
+  'settings.simulator.col.rule': 'Regola applicata',
+  'settings.simulator.col.state': 'Cambio di stato',
+  'settings.tooltip.simulatorIds': 'ID dei work item separati da virgola, es. "1234, 1235".',
+  'settings.tooltip.simulatorQuery':
+    'L\'ID (GUID) o il percorso di una query salvata, es. "Shared Queries/Current Sprint". Sono supportate query flat, ad albero e one-hop.',
 };
@@ -0,0 +1,613 @@
+import React, { useCallback, useEffect, useReducer, useRef } from 'react';
+
+import { BranchInfo, DuplicateBranchPolicy, ExtensionConfig, LinkedBranch, RepoInfo, TagInfo, WorkItemContext } from '../common/types';
+import { ConfigService } from '../services/ConfigService';
+import { RulesEngine } from '../rules/RulesEngine';
+import { validateBranchName } from '../common/utils';
+import { I18nKey, t } from '../i18n';
+import { logger } from '../services/Logger';
+import { BranchTagPicker, closePanel, createErrorMessage, SearchableSelect, WorkItemIcon } from './controls';
+import { loadRepoRules } from './repoRules';
+import { branchService, loadLinkedBranches, repoService, workItemService } from './services';
+
+/**
+ * Bulk creation: one branch per selected work item, all in the same
+ * repository and from the same base branch. The base branch rules pick the
+ * branch suggested for most of the work items. Each name is computed by the
+ * repository's rules and can be edited; branches are created one after the
+ * other, and the ones that failed can be retried. A work item that already
+ * has a branch in the repository follows general.duplicateBranches, item by
+ * item: it is skipped unless confirmed, or always skipped with "forbid".
+ */
+
+// ─── State machine ────────────────────────────────────────────────────────────
+
+type ItemStatus = 'pending' | 'creating' | 'created' | 'failed';
+
+interface BulkItem {
+  workItem: WorkItemContext;
+  branchName: string;
+  manualOverride: boolean;
+  nameError: string | null;
+  nameWarning: string | null;
+  status: ItemStatus;
+  /** Why the last attempt failed */
+  error: string | null;
+  /**
+   * The branch created for the item. Set even when linking it failed, so a
+   * retry only links it instead of creating a second branch.
+   */
+  createdBranch: string | null;
+  /** Branches already linked to the work item, in any repository */
+  linkedBranches: LinkedBranch[];
+  /** The user confirmed another branch despite a linked one in the repository */
+  confirmDuplicate: boolean;
+}
+
+interface BulkState {
+  loading: boolean;
+  loadError: string | null;
+  items: BulkItem[];
+  repoId: string;
+  branches: BranchInfo[];
+  tags: TagInfo[];
+  loadingBranches: boolean;
+  baseBranch: string;
+  baseObjectId: string;
+  /** Base branch suggested by a base branch rule, and for how many work items */
+  baseSuggestion: { branch: string; ruleName: string; count: number } | null;
+  /** Why the repository's config file was not applied */
+  repoConfigError: string | null;
+  /** Items processed / to process in the current run, null when idle */
+  progress: { done: number; total: number } | null;
+}
+
+type BulkAction =
+  | { type: 'ITEMS_LOADED'; payload: { workItems: WorkItemContext[]; linkedBranches: Map<number, LinkedBranch[]> } }
+  | { type: 'LOAD_ERROR'; payload: string }
+  | { type: 'SET_REPO'; payload: string }
+  | { type: 'REPO_LOADED'; payload: { branches: BranchInfo[]; tags: TagInfo[]; baseBranch: string; baseObjectId: string; baseSuggestion: BulkState['baseSuggestion']; configError: string | null } }
+  | { type: 'WORK_ITEMS_RELOADED'; payload: WorkItemContext[] }
+  | { type: 'SET_BASE_REF'; payload: { name: string; objectId: string } }
+  | { type: 'NAMES_COMPUTED'; payload: Array<{ id: number; name: string; warning: string | null; error: string | null }> }
+  | { type: 'SET_NAME'; payload: { id: number; name: string } }
+  | { type: 'CONFIRM_DUPLICATE'; payload: { id: number; confirmed: boolean } }
+  | { type: 'RUN_START'; payload: number }
+  | { type: 'ITEM_STATUS'; payload: { id: number; status: ItemStatus; createdBranch?: string; error?: string } }
+  | { type: 'RUN_DONE' };
+
+const initialState: BulkState = {
+  loading: true,
+  loadError: null,
+  items: [],
+  repoId: '',
+  branches: [],
+  tags: [],
+  loadingBranches: false,
+  baseBranch: '',
+  baseObjectId: '',
+  baseSuggestion: null,
+  repoConfigError: null,
+  progress: null,
+};
+
+function reducer(state: BulkState, action: BulkAction): BulkState {
+  switch (action.type) {
+    case 'ITEMS_LOADED':
+      return {
+        ...state,
+        loading: false,
+        items: action.payload.workItems.map((workItem) => ({
+          workItem,
+          branchName: '',
+          manualOverride: false,
+          nameError: null,
+          nameWarning: null,
+          status: 'pending',
+          error: null,
+          createdBranch: null,
+          linkedBranches: action.payload.linkedBranches.get(workItem.id) ?? [],
+          confirmDuplicate: false,
+        })),
+      };
+    case 'LOAD_ERROR':
+      return { ...state, loading: false, loadError: action.payload };
+    case 'SET_REPO':
+      return {
+        ...state,
+        repoId: action.payload,
+        branches: [],
+        tags: [],
+        baseBranch: '',
+        baseObjectId: '',
+        baseSuggestion: null,
+        repoConfigError: null,
+        loadingBranches: true,
+      };
+    case 'REPO_LOADED':
+      return {
+        ...state,
+        branches: action.payload.branches,
+        tags: action.payload.tags,
+        baseBranch: action.payload.baseBranch,
+        baseObjectId: action.payload.baseObjectId,
+        baseSuggestion: action.payload.baseSuggestion,
+        repoConfigError: action.payload.configError,
+        loadingBranches: false,
+      };
+    case 'WORK_ITEMS_RELOADED': {
+      const byId = new Map(action.payload.map((wi) => [wi.id, wi]));
+      return {
+        ...state,
+        items: state.items.map((item) => ({ ...item, workItem: byId.get(item.workItem.id) ?? item.workItem })),
+      };
+    }
+    case 'SET_BASE_REF':
+      return { ...state, baseBranch: action.payload.name, baseObjectId: action.payload.objectId };
+    case 'NAMES_COMPUTED': {
+      const byId = new Map(action.payload.map((computed) => [computed.id, computed]));
+      return {
+        ...state,
+        items: state.items.map((item) => {
+          const computed = byId.get(item.workItem.id);
+          if (!computed || item.manualOverride || item.createdBranch) return item;
+          return { ...item, branchName: computed.name, nameWarning: computed.warning, nameError: computed.error };
+        }),
+      };
+    }
+    case 'SET_NAME':
+      return updateItem(state, action.payload.id, { branchName: action.payload.name, manualOverride: true, nameError: null });
+    case 'CONFIRM_DUPLICATE':
+      return updateItem(state, action.payload.id, { confirmDuplicate: action.payload.confirmed });
+    case 'RUN_START':
+      return { ...state, progress: { done: 0, total: action.payload } };
+    case 'ITEM_STATUS': {
+      const { id, status, createdBranch, error } = action.payload;
+      const finished = status === 'created' || status === 'failed';
+      const next = updateItem(state, id, {
+        status,
+        error: error ?? null,
+        ...(createdBranch !== undefined && { createdBranch, branchName: createdBranch }),
+      });
+      return finished && state.progress
+        ? { ...next, progress: { ...state.progress, done: state.progress.done + 1 } }
+        : next;
+    }
+    case 'RUN_DONE':
+      return { ...state, progress: null };
+    default:
+      return state;
+  }
+}
+
+function updateItem(state: BulkState, id: number, changes: Partial<BulkItem>): BulkState {
+  return {
+    ...state,
+    items: state.items.map((item) => (item.workItem.id === id ? { ...item, ...changes } : item)),
+  };
+}
+
+/** The base branch the rules suggest for the most work items; ties go to the earliest item */
+function suggestSharedBase(
+  engine: RulesEngine,
+  workItems: WorkItemContext[],
+  branchNames: string[],
+): BulkState['baseSuggestion'] {
+  const votes = new Map<string, { branch: string; ruleName: string; count: number }>();
+  for (const wi of workItems) {
+    const suggestion = engine.suggestBaseBranch(wi, branchNames);
+    if (!suggestion) continue;
+    const vote = votes.get(suggestion.branch) ?? { ...suggestion, count: 0 };
+    vote.count++;
+    votes.set(suggestion.branch, vote);
+  }
+  return [...votes.values()].reduce<BulkState['baseSuggestion']>(
+    (best, vote) => (!best || vote.count > best.count ? vote : best),
+    null,
+  );
+}
+
+/** Whether the duplicate policy keeps the item from getting a branch in the repository */
+function isDuplicateBlocked(item: BulkItem, repoId: string, policy: DuplicateBranchPolicy): boolean {
+  if (item.createdBranch) return false;
+  const live = item.linkedBranches.some((link) => !link.deleted && link.repoId === repoId);
+  return live && (policy === 'forbid' || !item.confirmDuplicate);
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+export interface BulkCreatePanelProps {
+  projectId: string;
+  workItemIds: number[];
+  repos: RepoInfo[];
+  configService: ConfigService;
+  config: ExtensionConfig;
+}
+
+export const BulkCreatePanel: React.FC<BulkCreatePanelProps> = ({
+  projectId,
+  workItemIds,
+  repos,
+  configService,
+  config,
+}) => {
+  const [state, dispatch] = useReducer(reducer, initialState);
+  /** Rules of the selected repository */
+  const rulesRef = useRef<{ engine: RulesEngine; maxLength: number } | null>(null);
+  /** Custom fields and ancestor levels loaded into the work items so far */
+  const loadedRef = useRef<{ fields: Set<string>; ancestorDepth: number }>({ fields: new Set(), ancestorDepth: 0 });
+  const allowManualOverride = config.general.allowManualNameOverride;
+  const duplicatePolicy = config.general.duplicateBranches ?? 'confirm';
+
+  /** Reads the work items with the fields and parent levels the engine needs */
+  const loadWorkItems = useCallback(
+    async (engine: RulesEngine, current: WorkItemContext[] | null): Promise<WorkItemContext[]> => {
+      const loaded = loadedRef.current;
+      const fields = engine.getReferencedFields();
+      let items = current;
+      if (!items || fields.some((f) => !loaded.fields.has(f))) {
+        const allFields = [...new Set([...loaded.fields, ...fields])];
+        const fetched = await workItemService.getWorkItemContexts(workItemIds, projectId, allFields);
+        const ancestors = new Map((current ?? []).map((wi) => [wi.id, wi.ancestors]));
+        items = fetched.map((wi) => ({ ...wi, ancestors: ancestors.get(wi.id) }));
+        loadedRef.current = { ...loadedRef.current, fields: new Set(allFields) };
+      }
+      const depth = engine.getAncestorDepth();
+      if (depth > loaded.ancestorDepth) {
+        items = await Promise.all(
+          items.map(async (wi) => ({ ...wi, ancestors: await workItemService.getAncestors(wi.id, depth) })),
+        );
+        loadedRef.current = { ...loadedRef.current, ancestorDepth: depth };
+      }
+      return items;
+    },
+    [workItemIds, projectId],
+  );
+
+  // ── Initialisation ──────────────────────────────────────────────────────
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      loadWorkItems(new RulesEngine(config), null),
+      Promise.all(workItemIds.map(async (id) => [id, await loadLinkedBranches(id)] as const)),
+    ])
+      .then(([workItems, linked]) => {
+        if (cancelled) return;
+        if (workItems.length === 0) dispatch({ type: 'LOAD_ERROR', payload: t('modal.error.invalidWorkItemId') });
+        else dispatch({ type: 'ITEMS_LOADED', payload: { workItems, linkedBranches: new Map(linked) } });
+      })
+      .catch((err) => {
+        logger.error('Bulk work item load failed', err);
+        if (!cancelled) dispatch({ type: 'LOAD_ERROR', payload: t('modal.error.generic', { message: String(err) }) });
+      });
+    return () => { cancelled = true; };
+  }, [config, workItemIds, loadWorkItems]);
+
+  // ── Names ────────────────────────────────────────────────────────────────
+
+  const computeNames = useCallback((workItems: WorkItemContext[], baseBranch: string) => {
+    const rules = rulesRef.current;
+    if (!rules || !baseBranch) return;
+    dispatch({
+      type: 'NAMES_COMPUTED',
+      payload: workItems.map((wi) => {
+        try {
+          const name = rules.engine.computeWithTrace(wi, baseBranch).branchName;
+          const validation = validateBranchName(name, rules.maxLength);
+          return { id: wi.id, name, warning: validation.warnings[0] ?? null, error: null };
+        } catch (err) {
+          logger.error('Branch name computation failed', err);
+          const message = t('modal.error.template', { message: err instanceof Error ? err.message : String(err) });
+          return { id: wi.id, name: '', warning: null, error: message };
+        }
+      }),
+    });
+  }, []);
+
+  // ── Repo selection ───────────────────────────────────────────────────────
+
+  const handleRepoChange = useCallback(
+    async (repoId: string) => {
+      const repo = repos.find((r) => r.id === repoId);
+      if (!repo) return;
+      dispatch({ type: 'SET_REPO', payload: repoId });
+
+      try {
+        const [branches, tags, rules] = await Promise.all([
+          repoService.getBranches(projectId, repoId),
+          repoService.getTags(projectId, repoId),
+          loadRepoRules(configService, config, projectId, repo),
+        ]);
+        rulesRef.current = { engine: rules.engine, maxLength: rules.maxLength };
+        const workItems = await loadWorkItems(rules.engine, state.items.map((item) => item.workItem));
+        dispatch({ type: 'WORK_ITEMS_RELOADED', payload: workItems });
+
+        // A base branch rule may suggest a better starting point than the repo default
+        const baseSuggestion = suggestSharedBase(rules.engine, workItems, branches.map((b) => b.name));
+        const baseBranch = baseSuggestion?.branch ?? repo.defaultBranch ?? (branches[0]?.name ?? '');
+        const baseObjectId = branches.find((b) => b.name === baseBranch)?.objectId ?? '';
+        dispatch({
+          type: 'REPO_LOADED',
+          payload: { branches, tags, baseBranch, baseObjectId, baseSuggestion, configError: rules.error?.message ?? null },
+        });
+        computeNames(workItems, baseBranch);
+      } catch (err) {
+        logger.error('Failed to load branches/tags', err);
+        dispatch({
+          type: 'REPO_LOADED',
+          payload: { branches: [], tags: [], baseBranch: '', baseObjectId: '', baseSuggestion: null, configError: null },
+        });
+      }
+    },
+    [repos, projectId, configService, config, state.items, loadWorkItems, computeNames],
+  );
+
+  const handleBaseChange = useCallback(
+    (name: string, objectId: string) => {
+      dispatch({ type: 'SET_BASE_REF', payload: { name, objectId } });
+      computeNames(state.items.map((item) => item.workItem), name);
+    },
+    [state.items, computeNames],
+  );
+
+  // ── Create ───────────────────────────────────────────────────────────────
+
+  /**
+   * Creates a branch for every item not created yet: the first run, or a
+   * retry of the failed ones. An item whose branch exists but could not be
+   * linked is only linked again.
+   */
+  const handleCreate = useCallback(async () => {
+    const repo = repos.find((r) => r.id === state.repoId);
+    const rules = rulesRef.current;
+    if (!repo || !rules || !state.baseObjectId) return;
+
+    const todo = state.items.filter(
+      (item) => item.status !== 'created' && !isDuplicateBlocked(item, repo.id, duplicatePolicy),
+    );
+    dispatch({ type: 'RUN_START', payload: todo.length });
+
+    for (const item of todo) {
+      const { workItem } = item;
+      const branchName = item.branchName.trim();
+      if (!item.createdBranch) {
+        const validation = validateBranchName(branchName, rules.maxLength);
+        if (!branchName || !validation.valid) {
+          const error = item.nameError ?? validation.errors[0] ?? t('modal.error.branchNameRequired');
+          dispatch({ type: 'ITEM_STATUS', payload: { id: workItem.id, status: 'failed', error } });
+          continue;
+        }
+      }
+
+      dispatch({ type: 'ITEM_STATUS', payload: { id: workItem.id, status: 'creating' } });
+      let createdBranch = item.createdBranch;
+      try {
+        if (!createdBranch) {
+          const result = await branchService.createBranch({
+            repoId: repo.id,
+            repoName: repo.name,
+            projectId,
+            branchName,
+            sourceBranchName: state.baseBranch,
+            sourceObjectId: state.baseObjectId,
+            workItemId: workItem.id,
+            workItemType: workItem.type,
+          });
+          if (!result.success) {
+            dispatch({ type: 'ITEM_STATUS', payload: { id: workItem.id, status: 'failed', error: createErrorMessage(result.error) } });
+            continue;
+          }
+          createdBranch = result.branchName!;
+        }
+
+        const linked = await workItemService.addBranchLink(workItem.id, projectId, repo.id, createdBranch);
+        if (!linked) {
+          dispatch({
+            type: 'ITEM_STATUS',
+            payload: { id: workItem.id, status: 'failed', createdBranch, error: t('modal.results.linkFailed') },
+          });
+          continue;
+        }
+        const rule = rules.engine.resolveRule(state.baseBranch, workItem);
+        if (rule.workItemState?.enabled && rule.workItemState.state) {
+          await workItemService.updateState(workItem.id, rule.workItemState.state);
+        }
+        dispatch({ type: 'ITEM_STATUS', payload: { id: workItem.id, status: 'created', createdBranch } });
+      } catch (err) {
+        logger.error('Bulk branch creation failed', { workItemId: workItem.id, error: err });
+        dispatch({
+          type: 'ITEM_STATUS',
+          payload: {
+            id: workItem.id,
+            status: 'failed',
+            ...(createdBranch && { createdBranch }),
+            error: t('modal.error.generic', { message: String(err) }),
+          },
+        });
+      }
+    }
+    dispatch({ type: 'RUN_DONE' });
+  }, [repos, projectId, duplicatePolicy, state.repoId, state.baseBranch, state.baseObjectId, state.items]);
+
+  // ── Render ───────────────────────────────────────────────────────────────
+
+  if (state.loading) {
+    return (
+      <div className="bp-modal__spinner" style={{ justifyContent: 'center', height: '100vh' }}>
+        <div className="bp-spinner-icon" />
+        <span>{t('modal.bulk.loading')}</span>
+      </div>
+    );
+  }
+
+  if (state.loadError) {
+    return (
+      <div className="bp-modal" style={{ padding: 24 }}>
+        <div className="bp-modal__banner bp-modal__banner--error">
+          <span>⚠</span>
+          <span>{state.loadError}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const running = state.progress !== null;
+
+  /** Branches of the item already linked in the selected repository, and the duplicate policy's verdict */
+  const renderLinked = (item: BulkItem) => {
+    const links = item.linkedBranches.filter((link) => link.repoId === state.repoId);
+    if (links.length === 0) return null;
+    const duplicate = links.some((link) => !link.deleted);
+    return (
+      <div className="bp-modal__bulk-linked">
+        <div>
+          {t('modal.bulk.linked')}{' '}
+          {links.map((link) => (
+            <span key={link.branchName} className={link.deleted ? 'bp-modal__linked-item--deleted' : undefined}>
+              <code>{link.branchName}</code>
+              {link.deleted && <span className="bp-modal__linked-deleted"> {t('modal.linked.deleted')}</span>}{' '}
+            </span>
+          ))}
+        </div>
+        {duplicate && duplicatePolicy === 'forbid' && <div className="bp-modal__error">⚠ {t('modal.bulk.forbidden')}</div>}
+        {duplicate && duplicatePolicy === 'confirm' && (
+          <label className="bp-modal__checkbox">
+            <input
+              type="checkbox"
+              checked={item.confirmDuplicate}
+              disabled={running}
+              onChange={(e) =>
+                dispatch({ type: 'CONFIRM_DUPLICATE', payload: { id: item.workItem.id, confirmed: e.target.checked } })
+              }
+            />
+            {t('modal.linked.confirm')}
+          </label>
+        )}
+      </div>
+    );
+  };
+  // Branches already created tie the run to this repository and base
+  const locked = running || state.items.some((item) => item.createdBranch);
+  const selectedRepo = repos.find((r) => r.id === state.repoId);
+  const remaining = state.items.filter((item) => item.status !== 'created');
+  const creatable = remaining.filter((item) => !isDuplicateBlocked(item, state.repoId, duplicatePolicy));
+  const failed = state.items.filter((item) => item.status === 'failed').length;
+  const missing = workItemIds.length - state.items.length;
+
+  return (
+    <div className="bp-modal">
+      <div className="bp-modal__body">
+        {/* ── Repository ── */}
+        <div className="bp-modal__field">
+          <label>
+            {t('modal.field.repository')}
+            <span className="bp-required"> *</span>
+          </label>
+          <SearchableSelect
+            options={repos.map((r) => ({ value: r.id, label: r.name }))}
+            value={state.repoId}
+            onSelect={handleRepoChange}
+            placeholder={t('modal.field.repository.placeholder')}
+            filterPlaceholder={t('modal.picker.filterRepos')}
+            noOptionsText={t('modal.picker.noRepos')}
+            disabled={locked}
+          />
+          {state.repoConfigError && (
+            <div className="bp-modal__warning">⚠ {state.repoConfigError}</div>
+          )}
+        </div>
+
+        {/* ── Based on ── */}
+        <div className="bp-modal__field">
+          <label>
+            {t('modal.field.basedOn')}
+            <span className="bp-required"> *</span>
+          </label>
+          {state.loadingBranches ? (
+            <div className="bp-modal__spinner">
+              <div className="bp-spinner-icon" />
+              <span>{t('modal.loading.branches')}</span>
+            </div>
+          ) : (
+            <BranchTagPicker
+              branches={state.branches}
+              tags={state.tags}
+              defaultBranch={selectedRepo?.defaultBranch}
+              value={state.baseBranch}
+              onSelect={handleBaseChange}
+              disabled={!state.repoId || locked}
+            />
+          )}
+          {state.baseSuggestion && state.baseSuggestion.branch === state.baseBranch && (
+            <div className="bp-modal__info">
+              {state.baseSuggestion.count === state.items.length
+                ? t('modal.info.baseBranchSuggested', { rule: state.baseSuggestion.ruleName })
+                : t('modal.bulk.baseBranchSuggested', {
+                  rule: state.baseSuggestion.ruleName,
+                  count: state.baseSuggestion.count,
+                  total: state.items.length,
+                })}
+            </div>
+          )}
+        </div>
+
+        {/* ── Work items ── */}
+        <div className="bp-modal__field">
+          <label>{t('modal.bulk.workItems', { count: state.items.length })}</label>
+          {missing > 0 && <div className="bp-modal__info">{t('modal.bulk.missing', { count: missing })}</div>}
+          <div className="bp-modal__bulk-list">
+            {state.items.map((item) => (
+              <div key={item.workItem.id} className={`bp-modal__bulk-item bp-modal__bulk-item--${item.status}`}>
+                <div className="bp-modal__bulk-item-title">
+                  <WorkItemIcon type={item.workItem.type} iconUrl={item.workItem.typeIcon} color={item.workItem.typeColor} />
+                  <span className="bp-modal__wi-card-id">#{item.workItem.id}</span>
+                  <span className="bp-modal__bulk-item-name">{item.workItem.title}</span>
+                  <span className="bp-modal__bulk-item-status">{t(`modal.bulk.status.${item.status}` as I18nKey)}</span>
+                </div>
+                <input
+                  type="text"
+                  className="bp-modal__input"
+                  value={item.branchName}
+                  placeholder={t('modal.field.branchName.placeholder')}
+                  disabled={!allowManualOverride || running || !!item.createdBranch}
+                  onChange={(e) => dispatch({ type: 'SET_NAME', payload: { id: item.workItem.id, name: e.target.value } })}
+                />
+                {state.repoId && !item.createdBranch && renderLinked(item)}
+                {item.status === 'failed' && item.error && <div className="bp-modal__error">⚠ {item.error}</div>}
+                {item.status !== 'failed' && item.nameError && <div className="bp-modal__error">⚠ {item.nameError}</div>}
+                {item.status !== 'failed' && !item.nameError && item.nameWarning && (
+                  <div className="bp-modal__warning">⚠ {item.nameWarning}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* ── Footer ── */}
+      <div className="bp-modal__footer">
+        <button className="bp-btn bp-btn--secondary" disabled={running} onClick={closePanel}>
+          {remaining.length < state.items.length ? t('modal.btn.close') : t('modal.btn.cancel')}
+        </button>
+
+        <button
+          className="bp-btn bp-btn--primary"
+          disabled={running || creatable.length === 0 || !state.repoId || !state.baseObjectId || state.loadingBranches}
+          onClick={handleCreate}
+        >
+          {running ? (
+            <>
+              <div className="bp-spinner-icon" style={{ marginRight: 6, borderColor: 'rgba(255,255,255,0.4)', borderTopColor: 'white' }} />
+              {t('modal.bulk.progress', { current: Math.min(state.progress!.done + 1, state.progress!.total), total: state.progress!.total })}
+            </>
+          ) : failed > 0 ? (
+            t('modal.bulk.retry', { count: creatable.length })
+          ) : (
+            t('modal.bulk.create', { count: creatable.length })
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
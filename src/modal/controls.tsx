@@ -0,0 +1,394 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as SDK from 'azure-devops-extension-sdk';
+
+import { BranchInfo, TagInfo } from '../common/types';
+import { t } from '../i18n';
+
+/**
+ * Controls and helpers shared by the modal's single and bulk creation panels.
+ */
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Message for a failed CreateBranchResult error code */
+export function createErrorMessage(error: string | undefined): string {
+  if (error?.startsWith('branch_exists:')) {
+    const parts = error.split(':');
+    return t('modal.error.branchExists', { name: parts[1], suggestion: parts[2] });
+  }
+  if (error?.startsWith('branch_conflict:')) {
+    const parts = error.split(':');
+    return t('modal.error.branchConflict', { name: parts[1], conflictingRef: parts[2] });
+  }
+  if (error === 'permission_denied') return t('modal.error.permissionDenied');
+  return t('modal.error.generic', { message: error ?? 'unknown' });
+}
+
+/** Closes the panel the modal is shown in */
+export function closePanel(): void {
+  try {
+    const panelConfig = SDK.getConfiguration() as { panel?: { close(): void } };
+    if (panelConfig?.panel?.close) {
+      panelConfig.panel.close();
+    }
+  } catch {
+    // Panel close not available or already closed
+  }
+}
+
+// ─── WorkItemIcon ─────────────────────────────────────────────────────────────
+
+/** Returns a work item icon component - uses ADO icon URL if available, fallback to colored square */
+export function WorkItemIcon({ type, iconUrl, color }: { type: string; iconUrl?: string; color?: string }) {
+  if (iconUrl) {
+    return (
+      <img
+        className="bp-wi-icon"
+        src={iconUrl}
+        alt={type}
+        width="16"
+        height="16"
+        style={{ objectFit: 'contain' }}
+      />
+    );
+  }
+  const fallbackColor = color ? `#${color}` : getDefaultTypeColor(type);
+  return (
+    <div
+      className="bp-wi-icon bp-wi-icon--fallback"
+      style={{ backgroundColor: fallbackColor }}
+    />
+  );
+}
+
+function getDefaultTypeColor(type: string): string {
+  const t = type?.toLowerCase() ?? '';
+  if (t.includes('bug')) return '#cc293d';
+  if (t.includes('task')) return '#f2cb1d';
+  if (t.includes('user story') || t.includes('story')) return '#009ccc';
+  if (t.includes('feature')) return '#773b93';
+  if (t.includes('epic')) return '#ff7b00';
+  return '#605e5c';
+}
+
+// ─── SearchableSelect ─────────────────────────────────────────────────────────
+
+interface SearchableSelectOption {
+  value: string;
+  label: string;
+}
+
+interface SearchableSelectProps {
+  options: SearchableSelectOption[];
+  value: string;
+  onSelect: (value: string) => void;
+  placeholder?: string;
+  filterPlaceholder?: string;
+  noOptionsText?: string;
+  disabled?: boolean;
+  icon?: React.ReactNode;
+}
+
+export const SearchableSelect: React.FC<SearchableSelectProps> = ({
+  options,
+  value,
+  onSelect,
+  placeholder = '',
+  filterPlaceholder = '',
+  noOptionsText = '',
+  disabled = false,
+  icon,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [dropdownStyle, setDropdownStyle] = useState<React.CSSProperties>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setFilter('');
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  useEffect(() => {
+    if (open) {
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [open]);
+
+  const handleToggle = () => {
+    if (disabled) return;
+    if (!open && triggerRef.current) {
+      const rect = triggerRef.current.getBoundingClientRect();
+      setDropdownStyle({
+        position: 'fixed',
+        top: rect.bottom + 2,
+        left: rect.left,
+        width: rect.width,
+        zIndex: 9999,
+      });
+    }
+    setOpen((o) => !o);
+    setFilter('');
+  };
+
+  const filtered = options.filter((o) =>
+    o.label.toLowerCase().includes(filter.toLowerCase()),
+  );
+  const selectedLabel = options.find((o) => o.value === value)?.label ?? '';
+
+  return (
+    <div className="bp-picker" ref={containerRef}>
+      <button
+        ref={triggerRef}
+        type="button"
+        className={`bp-picker__trigger${!value ? ' bp-picker__trigger--placeholder' : ''}`}
+        disabled={disabled}
+        onClick={handleToggle}
+      >
+        {icon && <span className="bp-picker__trigger-icon">{icon}</span>}
+        <span className="bp-picker__trigger-value">{selectedLabel || placeholder}</span>
+        <svg className="bp-picker__chevron" width="12" height="12" viewBox="0 0 12 12">
+          <path fill="currentColor" d="M6 8L1 3h10z" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="bp-picker__dropdown" style={dropdownStyle}>
+          <div className="bp-picker__search-row">
+            <svg className="bp-picker__search-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+              <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.099zm-5.242 1.656a5.5 5.5 0 1 1 0-11 5.5 5.5 0 0 1 0 11z" />
+            </svg>
+            <input
+              ref={inputRef}
+              type="text"
+              className="bp-picker__search-input"
+              placeholder={filterPlaceholder}
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+            />
+          </div>
+          <div className="bp-picker__list">
+            {filtered.length === 0 ? (
+              <div className="bp-picker__empty">{noOptionsText}</div>
+            ) : (
+              filtered.map((o) => (
+                <button
+                  key={o.value}
+                  type="button"
+                  className={`bp-picker__item${o.value === value ? ' bp-picker__item--selected' : ''}`}
+                  onClick={() => { onSelect(o.value); setOpen(false); setFilter(''); }}
+                >
+                  <span className="bp-picker__item-check-area">
+                    {o.value === value && (
+                      <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
+                        <path d="M10.28 2.28L3.989 8.575 1.695 6.28A1 1 0 0 0 .28 7.695l3 3a1 1 0 0 0 1.414 0l7-7A1 1 0 0 0 10.28 2.28z" />
+                      </svg>
+                    )}
+                  </span>
+                  <span className="bp-picker__item-label">{o.label}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ─── BranchTagPicker ──────────────────────────────────────────────────────────
+
+type PickerTab = 'branches' | 'tags';
+
+interface BranchTagPickerProps {
+  branches: BranchInfo[];
+  tags: TagInfo[];
+  defaultBranch?: string;
+  value: string;
+  onSelect: (name: string, objectId: string) => void;
+  disabled?: boolean;
+  loading?: boolean;
+}
+
+export const BranchTagPicker: React.FC<BranchTagPickerProps> = ({
+  branches,
+  tags,
+  defaultBranch,
+  value,
+  onSelect,
+  disabled = false,
+  loading = false,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<PickerTab>('branches');
+  const [filter, setFilter] = useState('');
+  const [dropdownStyle, setDropdownStyle] = useState<React.CSSProperties>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setFilter('');
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  useEffect(() => {
+    if (open) {
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [open]);
+
+  const handleToggle = () => {
+    if (disabled || loading) return;
+    if (!open && triggerRef.current) {
+      const rect = triggerRef.current.getBoundingClientRect();
+      setDropdownStyle({
+        position: 'fixed',
+        top: rect.bottom + 2,
+        left: rect.left,
+        width: rect.width,
+        zIndex: 9999,
+      });
+    }
+    setOpen((o) => !o);
+    setFilter('');
+  };
+
+  const handleTabChange = (newTab: PickerTab) => {
+    setTab(newTab);
+    setFilter('');
+    setTimeout(() => inputRef.current?.focus(), 0);
+  };
+
+  const items = tab === 'branches' ? branches : tags;
+  const filtered = items.filter((item) =>
+    item.name.toLowerCase().includes(filter.toLowerCase()),
+  );
+
+  const filterPlaceholder = tab === 'branches'
+    ? t('modal.picker.filterBranches')
+    : t('modal.picker.filterTags');
+
+  const noItemsText = tab === 'branches'
+    ? t('modal.picker.noBranches')
+    : t('modal.picker.noTags');
+
+  // Sort branches: default first, then alphabetical
+  const sortedBranches = tab === 'branches'
+    ? [...filtered].sort((a, b) => {
+        if (a.name === defaultBranch) return -1;
+        if (b.name === defaultBranch) return 1;
+        return a.name.localeCompare(b.name);
+      })
+    : filtered;
+
+  return (
+    <div className="bp-picker" ref={containerRef}>
+      <button
+        ref={triggerRef}
+        type="button"
+        className={`bp-picker__trigger${!value ? ' bp-picker__trigger--placeholder' : ''}`}
+        disabled={disabled}
+        onClick={handleToggle}
+      >
+        <svg className="bp-picker__trigger-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+          <path fillRule="evenodd" d="M11.75 2.5a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zm-2.25.75a2.25 2.25 0 1 1 3 2.122V6A2.5 2.5 0 0 1 10 8.5H6a1 1 0 0 0-1 1v1.128a2.251 2.251 0 1 1-1.5 0V5.372a2.25 2.25 0 1 1 1.5 0v1.836A2.492 2.492 0 0 1 6 7h4a1 1 0 0 0 1-1v-.628A2.25 2.25 0 0 1 9.5 3.25zM4.25 12a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zM3.5 3.25a.75.75 0 1 1 1.5 0 .75.75 0 0 1-1.5 0z" />
+        </svg>
+        <span className="bp-picker__trigger-value">{value || t('modal.field.basedOn.placeholder')}</span>
+        <svg className="bp-picker__chevron" width="12" height="12" viewBox="0 0 12 12">
+          <path fill="currentColor" d="M6 8L1 3h10z" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="bp-picker__dropdown" style={dropdownStyle}>
+          {/* Search */}
+          <div className="bp-picker__search-row">
+            <svg className="bp-picker__search-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+              <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.099zm-5.242 1.656a5.5 5.5 0 1 1 0-11 5.5 5.5 0 0 1 0 11z" />
+            </svg>
+            <input
+              ref={inputRef}
+              type="text"
+              className="bp-picker__search-input"
+              placeholder={filterPlaceholder}
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+            />
+          </div>
+
+          {/* Tabs */}
+          <div className="bp-picker__tabs">
+            <button
+              type="button"
+              className={`bp-picker__tab${tab === 'branches' ? ' bp-picker__tab--active' : ''}`}
+              onClick={() => handleTabChange('branches')}
+            >
+              {t('modal.picker.tabBranches')}
+            </button>
+            <button
+              type="button"
+              className={`bp-picker__tab${tab === 'tags' ? ' bp-picker__tab--active' : ''}`}
+              onClick={() => handleTabChange('tags')}
+            >
+              {t('modal.picker.tabTags')}
+            </button>
+          </div>
+
+          {/* List */}
+          <div className="bp-picker__list">
+            {sortedBranches.length === 0 ? (
+              <div className="bp-picker__empty">{noItemsText}</div>
+            ) : (
+              sortedBranches.map((item) => (
+                <button
+                  key={item.name}
+                  type="button"
+                  className={`bp-picker__item${item.name === value ? ' bp-picker__item--selected' : ''}`}
+                  onClick={() => { onSelect(item.name, item.objectId); setOpen(false); setFilter(''); }}
+                >
+                  <span className="bp-picker__item-check-area">
+                    {item.name === value && (
+                      <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
+                        <path d="M10.28 2.28L3.989 8.575 1.695 6.28A1 1 0 0 0 .28 7.695l3 3a1 1 0 0 0 1.414 0l7-7A1 1 0 0 0 10.28 2.28z" />
+                      </svg>
+                    )}
+                  </span>
+                  {tab === 'branches' ? (
+                    <svg className="bp-picker__item-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+                      <path fillRule="evenodd" d="M11.75 2.5a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zm-2.25.75a2.25 2.25 0 1 1 3 2.122V6A2.5 2.5 0 0 1 10 8.5H6a1 1 0 0 0-1 1v1.128a2.251 2.251 0 1 1-1.5 0V5.372a2.25 2.25 0 1 1 1.5 0v1.836A2.492 2.492 0 0 1 6 7h4a1 1 0 0 0 1-1v-.628A2.25 2.25 0 0 1 9.5 3.25zM4.25 12a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zM3.5 3.25a.75.75 0 1 1 1.5 0 .75.75 0 0 1-1.5 0z" />
+                    </svg>
+                  ) : (
+                    <svg className="bp-picker__item-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+                      <path d="M7.05 1.5L1.5 7.05a.75.75 0 0 0 0 1.06l6.44 6.44a.75.75 0 0 0 1.06 0l5.55-5.55a.75.75 0 0 0 0-1.06L8.11 1.5A.75.75 0 0 0 7.05 1.5zM6 6a1 1 0 1 1 2 0 1 1 0 0 1-2 0z" />
+                    </svg>
+                  )}
+                  <span className="bp-picker__item-label">{item.name}</span>
+                  {tab === 'branches' && item.name === defaultBranch && (
+                    <span className="bp-picker__item-badge">Default</span>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
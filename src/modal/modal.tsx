@@ -1,24 +1,56 @@
-import React, { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useReducer, useRef } from 'react';
 import ReactDOM from 'react-dom';
 import * as SDK from 'azure-devops-extension-sdk';
 
-import { BranchInfo, ModalConfig, RepoInfo, TagInfo, WorkItemContext } from '../common/types';
+import {
+  BaseBranchSuggestion,
+  BranchInfo,
+  DuplicateBranchPolicy,
+  EvaluationTrace,
+  ExtensionConfig,
+  LinkedBranch,
+  ModalConfig,
+  RepoBranchResult,
+  RepoInfo,
+  TagInfo,
+  WorkItemContext,
+} from '../common/types';
 import { ConfigService } from '../services/ConfigService';
-import { WorkItemService } from '../services/WorkItemService';
-import { RepoService } from '../services/RepoService';
-import { BranchService } from '../services/BranchService';
 import { RulesEngine } from '../rules/RulesEngine';
+import { EvaluationTraceView } from '../components/EvaluationTraceView';
 import { validateBranchName } from '../common/utils';
-import { initLocale, t } from '../i18n';
+import { ConfigVersionError } from '../common/migrations';
+import { I18nKey, initLocale, t } from '../i18n';
 import { logger } from '../services/Logger';
 import { DEFAULT_CONFIG } from '../common/constants';
 
+import { BulkCreatePanel } from './BulkCreatePanel';
+import { BranchTagPicker, closePanel, createErrorMessage, SearchableSelect, WorkItemIcon } from './controls';
+import { loadRepoRules } from './repoRules';
+import { branchService, loadLinkedBranches, repoService, workItemService } from './services';
+
 import './modal.scss';
 
 // ─── State machine ────────────────────────────────────────────────────────────
 
 type LoadState = 'idle' | 'loading' | 'ready' | 'error';
 
+/** Another repository the branch is created in, with its own base branch and name */
+interface RepoTarget {
+  repoId: string;
+  branches: BranchInfo[];
+  tags: TagInfo[];
+  loading: boolean;
+  baseBranch: string;
+  baseObjectId: string;
+  branchName: string;
+  manualOverride: boolean;
+  nameError: string | null;
+  nameWarning: string | null;
+  /** Why the repository's config file was not applied */
+  configError: string | null;
+}
+
 interface ModalState {
   initState: LoadState;
   initError: string | null;
@@ -36,6 +68,10 @@ interface ModalState {
   selectedBaseObjectId: string;
   branchName: string;
   manualOverride: boolean;
+  /** More repositories to create the branch in, besides the selected one */
+  targets: RepoTarget[];
+  /** Delete the branches already created when one repository fails */
+  rollbackOnFailure: boolean;
 
   // UI state
   loadingRepos: boolean;
@@ -44,28 +80,62 @@ interface ModalState {
   creating: boolean;
   successMessage: string | null;
   createError: string | null;
+  /** Per-repository outcome of a creation in several repositories */
+  results: RepoBranchResult[] | null;
 
   // Validation
   branchNameError: string | null;
   branchNameWarning: string | null;
   stateHint: string | null;
+  /** How the computed name was derived (null for manual edits) */
+  trace: EvaluationTrace | null;
+  /** Base branch suggested by a base branch rule for the selected repo */
+  baseBranchSuggestion: BaseBranchSuggestion | null;
+  /** repoOverrides key matching the selected repo */
+  repoOverride: string | null;
+  /** Config file of the selected repo whose rules are in effect */
+  repoConfigFile: string | null;
+  /** Why the selected repo's config file was not applied */
+  repoConfigError: { message: string; problems: string[] } | null;
   showDiagnostics: boolean;
   diagnosticsCopied: boolean;
   allowManualOverride: boolean;
+  /** Branches already linked to the work item */
+  linkedBranches: LinkedBranch[];
+  duplicatePolicy: DuplicateBranchPolicy;
+  /** The user confirmed creating a branch where the work item already has one */
+  confirmDuplicate: boolean;
+  /** Branch whose checkout command was just copied */
+  checkoutCopied: string | null;
+  /** Work items of a multi-selection: the bulk panel is shown instead of the form */
+  bulkWorkItemIds: number[] | null;
 }
 
 type Action =
-  | { type: 'INIT_SUCCESS'; payload: { projectId: string; workItem: WorkItemContext; repos: RepoInfo[]; allowManualOverride: boolean } }
+  | { type: 'INIT_SUCCESS'; payload: { projectId: string; workItem: WorkItemContext; repos: RepoInfo[]; allowManualOverride: boolean; linkedBranches: LinkedBranch[]; duplicatePolicy: DuplicateBranchPolicy } }
+  | { type: 'INIT_BULK'; payload: { projectId: string; workItemIds: number[]; repos: RepoInfo[] } }
   | { type: 'INIT_ERROR'; payload: string }
   | { type: 'SET_REPO'; payload: string }
-  | { type: 'BRANCHES_LOADED'; payload: { branches: BranchInfo[]; defaultBranch: string; defaultObjectId: string } }
+  | { type: 'BRANCHES_LOADED'; payload: { branches: BranchInfo[]; defaultBranch: string; defaultObjectId: string; suggestion: BaseBranchSuggestion | null } }
   | { type: 'TAGS_LOADED'; payload: TagInfo[] }
+  | { type: 'REPO_CONFIG_LOADED'; payload: { workItem: WorkItemContext; override: string | null; file: string | null; error: ModalState['repoConfigError'] } }
   | { type: 'SET_BASE_REF'; payload: { name: string; objectId: string } }
   | { type: 'SET_BRANCH_NAME'; payload: string }
-  | { type: 'SET_BRANCH_COMPUTED'; payload: { name: string; warning: string | null; stateHint: string | null } }
+  | { type: 'SET_BRANCH_COMPUTED'; payload: { name: string; warning: string | null; stateHint: string | null; trace: EvaluationTrace } }
+  | { type: 'SET_BRANCH_ERROR'; payload: string }
   | { type: 'CREATE_START' }
   | { type: 'CREATE_SUCCESS'; payload: string }
   | { type: 'CREATE_ERROR'; payload: string }
+  | { type: 'CREATE_DONE'; payload: RepoBranchResult[] }
+  | { type: 'ADD_TARGET'; payload: string }
+  | { type: 'REMOVE_TARGET'; payload: string }
+  | { type: 'TARGET_LOADED'; payload: { repoId: string; branches: BranchInfo[]; tags: TagInfo[]; baseBranch: string; baseObjectId: string; workItem: WorkItemContext | null; configError: string | null } }
+  | { type: 'SET_TARGET_BASE'; payload: { repoId: string; name: string; objectId: string } }
+  | { type: 'SET_TARGET_NAME'; payload: { repoId: string; name: string } }
+  | { type: 'SET_TARGET_COMPUTED'; payload: { repoId: string; name: string; warning: string | null; error: string | null } }
+  | { type: 'SET_ROLLBACK'; payload: boolean }
+  | { type: 'CONFIRM_DUPLICATE'; payload: boolean }
+  | { type: 'CHECKOUT_COPIED'; payload: string }
   | { type: 'TOGGLE_DIAGNOSTICS' }
   | { type: 'DIAGNOSTICS_COPIED' }
   | { type: 'SET_LOADING_BRANCHES'; payload: boolean };
@@ -83,18 +153,31 @@ const initialState: ModalState = {
   selectedBaseObjectId: '',
   branchName: '',
   manualOverride: false,
+  targets: [],
+  rollbackOnFailure: true,
   loadingRepos: false,
   loadingBranches: false,
   loadingTags: false,
   creating: false,
   successMessage: null,
   createError: null,
+  results: null,
   branchNameError: null,
   branchNameWarning: null,
   stateHint: null,
+  trace: null,
+  baseBranchSuggestion: null,
+  repoOverride: null,
+  repoConfigFile: null,
+  repoConfigError: null,
   showDiagnostics: false,
   diagnosticsCopied: false,
   allowManualOverride: true,
+  linkedBranches: [],
+  duplicatePolicy: 'confirm',
+  confirmDuplicate: false,
+  checkoutCopied: null,
+  bulkWorkItemIds: null,
 };
 
 function reducer(state: ModalState, action: Action): ModalState {
@@ -107,6 +190,17 @@ function reducer(state: ModalState, action: Action): ModalState {
         workItem: action.payload.workItem,
         repos: action.payload.repos,
         allowManualOverride: action.payload.allowManualOverride,
+        linkedBranches: action.payload.linkedBranches,
+        duplicatePolicy: action.payload.duplicatePolicy,
+        loadingRepos: false,
+      };
+    case 'INIT_BULK':
+      return {
+        ...state,
+        initState: 'ready',
+        projectId: action.payload.projectId,
+        repos: action.payload.repos,
+        bulkWorkItemIds: action.payload.workItemIds,
         loadingRepos: false,
       };
     case 'INIT_ERROR':
@@ -115,6 +209,9 @@ function reducer(state: ModalState, action: Action): ModalState {
       return {
         ...state,
         selectedRepoId: action.payload,
+        targets: state.targets.filter((target) => target.repoId !== action.payload),
+        results: null,
+        confirmDuplicate: false,
         selectedBaseBranch: '',
         selectedBaseObjectId: '',
         branches: [],
@@ -125,6 +222,11 @@ function reducer(state: ModalState, action: Action): ModalState {
         branchNameError: null,
         branchNameWarning: null,
         stateHint: null,
+        trace: null,
+        baseBranchSuggestion: null,
+        repoOverride: null,
+        repoConfigFile: null,
+        repoConfigError: null,
       };
     case 'BRANCHES_LOADED':
       return {
@@ -132,31 +234,93 @@ function reducer(state: ModalState, action: Action): ModalState {
         branches: action.payload.branches,
         selectedBaseBranch: action.payload.defaultBranch,
         selectedBaseObjectId: action.payload.defaultObjectId,
+        baseBranchSuggestion: action.payload.suggestion,
         loadingBranches: false,
       };
     case 'TAGS_LOADED':
       return { ...state, tags: action.payload, loadingTags: false };
+    case 'REPO_CONFIG_LOADED':
+      return {
+        ...state,
+        workItem: action.payload.workItem,
+        repoOverride: action.payload.override,
+        repoConfigFile: action.payload.file,
+        repoConfigError: action.payload.error,
+      };
     case 'SET_BASE_REF':
       return { ...state, selectedBaseBranch: action.payload.name, selectedBaseObjectId: action.payload.objectId };
     case 'SET_BRANCH_NAME':
-      return { ...state, branchName: action.payload, manualOverride: true };
+      return { ...state, branchName: action.payload, manualOverride: true, trace: null };
     case 'SET_BRANCH_COMPUTED':
       return {
         ...state,
         branchName: action.payload.name,
         branchNameWarning: action.payload.warning,
         stateHint: action.payload.stateHint,
+        trace: action.payload.trace,
         branchNameError: null,
         manualOverride: false,
       };
+    case 'SET_BRANCH_ERROR':
+      return { ...state, branchName: '', branchNameError: action.payload, branchNameWarning: null, stateHint: null, trace: null };
     case 'SET_LOADING_BRANCHES':
       return { ...state, loadingBranches: action.payload };
     case 'CREATE_START':
-      return { ...state, creating: true, createError: null, successMessage: null };
+      return { ...state, creating: true, createError: null, successMessage: null, results: null };
     case 'CREATE_SUCCESS':
       return { ...state, creating: false, successMessage: action.payload };
     case 'CREATE_ERROR':
       return { ...state, creating: false, createError: action.payload };
+    case 'CREATE_DONE':
+      return { ...state, creating: false, results: action.payload };
+    case 'ADD_TARGET':
+      return {
+        ...state,
+        results: null,
+        confirmDuplicate: false,
+        targets: [
+          ...state.targets,
+          {
+            repoId: action.payload,
+            branches: [],
+            tags: [],
+            loading: true,
+            baseBranch: '',
+            baseObjectId: '',
+            branchName: '',
+            manualOverride: false,
+            nameError: null,
+            nameWarning: null,
+            configError: null,
+          },
+        ],
+      };
+    case 'REMOVE_TARGET':
+      return { ...state, results: null, targets: state.targets.filter((target) => target.repoId !== action.payload) };
+    case 'TARGET_LOADED': {
+      const { repoId, workItem, ...loaded } = action.payload;
+      return {
+        ...updateTarget(state, repoId, { ...loaded, loading: false }),
+        workItem: workItem ?? state.workItem,
+      };
+    }
+    case 'SET_TARGET_BASE':
+      return updateTarget(state, action.payload.repoId, { baseBranch: action.payload.name, baseObjectId: action.payload.objectId });
+    case 'SET_TARGET_NAME':
+      return updateTarget(state, action.payload.repoId, { branchName: action.payload.name, manualOverride: true, nameError: null });
+    case 'SET_TARGET_COMPUTED':
+      return updateTarget(state, action.payload.repoId, {
+        branchName: action.payload.name,
+        nameWarning: action.payload.warning,
+        nameError: action.payload.error,
+        manualOverride: false,
+      });
+    case 'SET_ROLLBACK':
+      return { ...state, rollbackOnFailure: action.payload };
+    case 'CONFIRM_DUPLICATE':
+      return { ...state, confirmDuplicate: action.payload };
+    case 'CHECKOUT_COPIED':
+      return { ...state, checkoutCopied: action.payload };
     case 'TOGGLE_DIAGNOSTICS':
       return { ...state, showDiagnostics: !state.showDiagnostics };
     case 'DIAGNOSTICS_COPIED':
@@ -166,8 +330,26 @@ function reducer(state: ModalState, action: Action): ModalState {
   }
 }
 
+function updateTarget(state: ModalState, repoId: string, changes: Partial<RepoTarget>): ModalState {
+  return {
+    ...state,
+    targets: state.targets.map((target) => (target.repoId === repoId ? { ...target, ...changes } : target)),
+  };
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
+/** Live linked branches in the repositories the branch is about to be created in */
+function duplicateLinks(state: ModalState): LinkedBranch[] {
+  const repoIds = [state.selectedRepoId, ...state.targets.map((target) => target.repoId)];
+  return state.linkedBranches.filter((link) => !link.deleted && repoIds.includes(link.repoId));
+}
+
+/** Command that checks out an existing remote branch */
+function checkoutCommand(branchName: string): string {
+  return `git fetch origin && git checkout ${branchName}`;
+}
+
 /** Returns a relative time string like "2m ago", "1h ago", "3d ago" */
 function formatRelativeTime(dateStr?: string): string {
   if (!dateStr) return '';
@@ -189,373 +371,18 @@ function formatRelativeTime(dateStr?: string): string {
   }
 }
 
-/** Returns a work item icon component - uses ADO icon URL if available, fallback to colored square */
-function WorkItemIcon({ type, iconUrl, color }: { type: string; iconUrl?: string; color?: string }) {
-  if (iconUrl) {
-    return (
-      <img
-        className="bp-wi-icon"
-        src={iconUrl}
-        alt={type}
-        width="16"
-        height="16"
-        style={{ objectFit: 'contain' }}
-      />
-    );
-  }
-  const fallbackColor = color ? `#${color}` : getDefaultTypeColor(type);
-  return (
-    <div
-      className="bp-wi-icon bp-wi-icon--fallback"
-      style={{ backgroundColor: fallbackColor }}
-    />
-  );
-}
-
-function getDefaultTypeColor(type: string): string {
-  const t = type?.toLowerCase() ?? '';
-  if (t.includes('bug')) return '#cc293d';
-  if (t.includes('task')) return '#f2cb1d';
-  if (t.includes('user story') || t.includes('story')) return '#009ccc';
-  if (t.includes('feature')) return '#773b93';
-  if (t.includes('epic')) return '#ff7b00';
-  return '#605e5c';
-}
-
-// ─── SearchableSelect ─────────────────────────────────────────────────────────
-
-interface SearchableSelectOption {
-  value: string;
-  label: string;
-}
-
-interface SearchableSelectProps {
-  options: SearchableSelectOption[];
-  value: string;
-  onSelect: (value: string) => void;
-  placeholder?: string;
-  filterPlaceholder?: string;
-  noOptionsText?: string;
-  disabled?: boolean;
-  icon?: React.ReactNode;
-}
-
-const SearchableSelect: React.FC<SearchableSelectProps> = ({
-  options,
-  value,
-  onSelect,
-  placeholder = '',
-  filterPlaceholder = '',
-  noOptionsText = '',
-  disabled = false,
-  icon,
-}) => {
-  const [open, setOpen] = useState(false);
-  const [filter, setFilter] = useState('');
-  const [dropdownStyle, setDropdownStyle] = useState<React.CSSProperties>({});
-  const containerRef = useRef<HTMLDivElement>(null);
-  const triggerRef = useRef<HTMLButtonElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => {
-    if (!open) return;
-    const handler = (e: MouseEvent) => {
-      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
-        setOpen(false);
-        setFilter('');
-      }
-    };
-    document.addEventListener('mousedown', handler);
-    return () => document.removeEventListener('mousedown', handler);
-  }, [open]);
-
-  useEffect(() => {
-    if (open) {
-      setTimeout(() => inputRef.current?.focus(), 0);
-    }
-  }, [open]);
-
-  const handleToggle = () => {
-    if (disabled) return;
-    if (!open && triggerRef.current) {
-      const rect = triggerRef.current.getBoundingClientRect();
-      setDropdownStyle({
-        position: 'fixed',
-        top: rect.bottom + 2,
-        left: rect.left,
-        width: rect.width,
-        zIndex: 9999,
-      });
-    }
-    setOpen((o) => !o);
-    setFilter('');
-  };
-
-  const filtered = options.filter((o) =>
-    o.label.toLowerCase().includes(filter.toLowerCase()),
-  );
-  const selectedLabel = options.find((o) => o.value === value)?.label ?? '';
-
-  return (
-    <div className="bp-picker" ref={containerRef}>
-      <button
-        ref={triggerRef}
-        type="button"
-        className={`bp-picker__trigger${!value ? ' bp-picker__trigger--placeholder' : ''}`}
-        disabled={disabled}
-        onClick={handleToggle}
-      >
-        {icon && <span className="bp-picker__trigger-icon">{icon}</span>}
-        <span className="bp-picker__trigger-value">{selectedLabel || placeholder}</span>
-        <svg className="bp-picker__chevron" width="12" height="12" viewBox="0 0 12 12">
-          <path fill="currentColor" d="M6 8L1 3h10z" />
-        </svg>
-      </button>
-
-      {open && (
-        <div className="bp-picker__dropdown" style={dropdownStyle}>
-          <div className="bp-picker__search-row">
-            <svg className="bp-picker__search-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
-              <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.099zm-5.242 1.656a5.5 5.5 0 1 1 0-11 5.5 5.5 0 0 1 0 11z" />
-            </svg>
-            <input
-              ref={inputRef}
-              type="text"
-              className="bp-picker__search-input"
-              placeholder={filterPlaceholder}
-              value={filter}
-              onChange={(e) => setFilter(e.target.value)}
-            />
-          </div>
-          <div className="bp-picker__list">
-            {filtered.length === 0 ? (
-              <div className="bp-picker__empty">{noOptionsText}</div>
-            ) : (
-              filtered.map((o) => (
-                <button
-                  key={o.value}
-                  type="button"
-                  className={`bp-picker__item${o.value === value ? ' bp-picker__item--selected' : ''}`}
-                  onClick={() => { onSelect(o.value); setOpen(false); setFilter(''); }}
-                >
-                  <span className="bp-picker__item-check-area">
-                    {o.value === value && (
-                      <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
-                        <path d="M10.28 2.28L3.989 8.575 1.695 6.28A1 1 0 0 0 .28 7.695l3 3a1 1 0 0 0 1.414 0l7-7A1 1 0 0 0 10.28 2.28z" />
-                      </svg>
-                    )}
-                  </span>
-                  <span className="bp-picker__item-label">{o.label}</span>
-                </button>
-              ))
-            )}
-          </div>
-        </div>
-      )}
-    </div>
-  );
-};
-
-// ─── BranchTagPicker ──────────────────────────────────────────────────────────
-
-type PickerTab = 'branches' | 'tags';
-
-interface BranchTagPickerProps {
-  branches: BranchInfo[];
-  tags: TagInfo[];
-  defaultBranch?: string;
-  value: string;
-  onSelect: (name: string, objectId: string) => void;
-  disabled?: boolean;
-  loading?: boolean;
-}
-
-const BranchTagPicker: React.FC<BranchTagPickerProps> = ({
-  branches,
-  tags,
-  defaultBranch,
-  value,
-  onSelect,
-  disabled = false,
-  loading = false,
-}) => {
-  const [open, setOpen] = useState(false);
-  const [tab, setTab] = useState<PickerTab>('branches');
-  const [filter, setFilter] = useState('');
-  const [dropdownStyle, setDropdownStyle] = useState<React.CSSProperties>({});
-  const containerRef = useRef<HTMLDivElement>(null);
-  const triggerRef = useRef<HTMLButtonElement>(null);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => {
-    if (!open) return;
-    const handler = (e: MouseEvent) => {
-      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
-        setOpen(false);
-        setFilter('');
-      }
-    };
-    document.addEventListener('mousedown', handler);
-    return () => document.removeEventListener('mousedown', handler);
-  }, [open]);
-
-  useEffect(() => {
-    if (open) {
-      setTimeout(() => inputRef.current?.focus(), 0);
-    }
-  }, [open]);
-
-  const handleToggle = () => {
-    if (disabled || loading) return;
-    if (!open && triggerRef.current) {
-      const rect = triggerRef.current.getBoundingClientRect();
-      setDropdownStyle({
-        position: 'fixed',
-        top: rect.bottom + 2,
-        left: rect.left,
-        width: rect.width,
-        zIndex: 9999,
-      });
-    }
-    setOpen((o) => !o);
-    setFilter('');
-  };
-
-  const handleTabChange = (newTab: PickerTab) => {
-    setTab(newTab);
-    setFilter('');
-    setTimeout(() => inputRef.current?.focus(), 0);
-  };
-
-  const items = tab === 'branches' ? branches : tags;
-  const filtered = items.filter((item) =>
-    item.name.toLowerCase().includes(filter.toLowerCase()),
-  );
-
-  const filterPlaceholder = tab === 'branches'
-    ? t('modal.picker.filterBranches')
-    : t('modal.picker.filterTags');
-
-  const noItemsText = tab === 'branches'
-    ? t('modal.picker.noBranches')
-    : t('modal.picker.noTags');
-
-  // Sort branches: default first, then alphabetical
-  const sortedBranches = tab === 'branches'
-    ? [...filtered].sort((a, b) => {
-        if (a.name === defaultBranch) return -1;
-        if (b.name === defaultBranch) return 1;
-        return a.name.localeCompare(b.name);
-      })
-    : filtered;
-
-  return (
-    <div className="bp-picker" ref={containerRef}>
-      <button
-        ref={triggerRef}
-        type="button"
-        className={`bp-picker__trigger${!value ? ' bp-picker__trigger--placeholder' : ''}`}
-        disabled={disabled}
-        onClick={handleToggle}
-      >
-        <svg className="bp-picker__trigger-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
-          <path fillRule="evenodd" d="M11.75 2.5a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zm-2.25.75a2.25 2.25 0 1 1 3 2.122V6A2.5 2.5 0 0 1 10 8.5H6a1 1 0 0 0-1 1v1.128a2.251 2.251 0 1 1-1.5 0V5.372a2.25 2.25 0 1 1 1.5 0v1.836A2.492 2.492 0 0 1 6 7h4a1 1 0 0 0 1-1v-.628A2.25 2.25 0 0 1 9.5 3.25zM4.25 12a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zM3.5 3.25a.75.75 0 1 1 1.5 0 .75.75 0 0 1-1.5 0z" />
-        </svg>
-        <span className="bp-picker__trigger-value">{value || t('modal.field.basedOn.placeholder')}</span>
-        <svg className="bp-picker__chevron" width="12" height="12" viewBox="0 0 12 12">
-          <path fill="currentColor" d="M6 8L1 3h10z" />
-        </svg>
-      </button>
-
-      {open && (
-        <div className="bp-picker__dropdown" style={dropdownStyle}>
-          {/* Search */}
-          <div className="bp-picker__search-row">
-            <svg className="bp-picker__search-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
-              <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.099zm-5.242 1.656a5.5 5.5 0 1 1 0-11 5.5 5.5 0 0 1 0 11z" />
-            </svg>
-            <input
-              ref={inputRef}
-              type="text"
-              className="bp-picker__search-input"
-              placeholder={filterPlaceholder}
-              value={filter}
-              onChange={(e) => setFilter(e.target.value)}
-            />
-          </div>
-
-          {/* Tabs */}
-          <div className="bp-picker__tabs">
-            <button
-              type="button"
-              className={`bp-picker__tab${tab === 'branches' ? ' bp-picker__tab--active' : ''}`}
-              onClick={() => handleTabChange('branches')}
-            >
-              {t('modal.picker.tabBranches')}
-            </button>
-            <button
-              type="button"
-              className={`bp-picker__tab${tab === 'tags' ? ' bp-picker__tab--active' : ''}`}
-              onClick={() => handleTabChange('tags')}
-            >
-              {t('modal.picker.tabTags')}
-            </button>
-          </div>
-
-          {/* List */}
-          <div className="bp-picker__list">
-            {sortedBranches.length === 0 ? (
-              <div className="bp-picker__empty">{noItemsText}</div>
-            ) : (
-              sortedBranches.map((item) => (
-                <button
-                  key={item.name}
-                  type="button"
-                  className={`bp-picker__item${item.name === value ? ' bp-picker__item--selected' : ''}`}
-                  onClick={() => { onSelect(item.name, item.objectId); setOpen(false); setFilter(''); }}
-                >
-                  <span className="bp-picker__item-check-area">
-                    {item.name === value && (
-                      <svg width="12" height="12" viewBox="0 0 12 12" fill="currentColor">
-                        <path d="M10.28 2.28L3.989 8.575 1.695 6.28A1 1 0 0 0 .28 7.695l3 3a1 1 0 0 0 1.414 0l7-7A1 1 0 0 0 10.28 2.28z" />
-                      </svg>
-                    )}
-                  </span>
-                  {tab === 'branches' ? (
-                    <svg className="bp-picker__item-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
-                      <path fillRule="evenodd" d="M11.75 2.5a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zm-2.25.75a2.25 2.25 0 1 1 3 2.122V6A2.5 2.5 0 0 1 10 8.5H6a1 1 0 0 0-1 1v1.128a2.251 2.251 0 1 1-1.5 0V5.372a2.25 2.25 0 1 1 1.5 0v1.836A2.492 2.492 0 0 1 6 7h4a1 1 0 0 0 1-1v-.628A2.25 2.25 0 0 1 9.5 3.25zM4.25 12a.75.75 0 1 0 0 1.5.75.75 0 0 0 0-1.5zM3.5 3.25a.75.75 0 1 1 1.5 0 .75.75 0 0 1-1.5 0z" />
-                    </svg>
-                  ) : (
-                    <svg className="bp-picker__item-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
-                      <path d="M7.05 1.5L1.5 7.05a.75.75 0 0 0 0 1.06l6.44 6.44a.75.75 0 0 0 1.06 0l5.55-5.55a.75.75 0 0 0 0-1.06L8.11 1.5A.75.75 0 0 0 7.05 1.5zM6 6a1 1 0 1 1 2 0 1 1 0 0 1-2 0z" />
-                    </svg>
-                  )}
-                  <span className="bp-picker__item-label">{item.name}</span>
-                  {tab === 'branches' && item.name === defaultBranch && (
-                    <span className="bp-picker__item-badge">Default</span>
-                  )}
-                </button>
-              ))
-            )}
-          </div>
-        </div>
-      )}
-    </div>
-  );
-};
-
-// ─── Services (instantiated once) ───────────────────────────────────────────
-
-const repoService = new RepoService();
-const workItemService = new WorkItemService();
-const branchService = new BranchService(repoService);
-
 // ─── Component ───────────────────────────────────────────────────────────────
 
 const CreateBranchModal: React.FC = () => {
   const [state, dispatch] = useReducer(reducer, initialState);
   const rulesEngineRef = useRef<RulesEngine | null>(null);
   const maxLengthRef = useRef<number>(80);
+  /** Project config, the starting point for each repository's rules */
+  const configRef = useRef<{ service: ConfigService; config: ExtensionConfig } | null>(null);
+  /** Rules engine and maximum name length of each additional repository */
+  const targetRulesRef = useRef(new Map<string, { engine: RulesEngine; maxLength: number }>());
+  /** Custom fields and ancestor levels loaded into the work item so far */
+  const loadedRef = useRef<{ fields: Set<string>; ancestorDepth: number }>({ fields: new Set(), ancestorDepth: 0 });
 
   // ── Initialisation ──────────────────────────────────────────────────────
 
@@ -607,7 +434,36 @@ const CreateBranchModal: React.FC = () => {
           .then(c => { console.log('[BranchPilot] Config loaded:', c); return c; })
           .catch(e => { console.error('[BranchPilot] Config load failed:', e); throw e; });
 
-        const workItemPromise = withTimeout(workItemService.getWorkItemContext(workItemId, projectId), 15000, 'WorkItem')
+        // Several work items selected: the bulk panel loads them itself
+        const workItemIds = [...new Set((sdkConfig.workItemIds ?? []).filter((id) => id > 0))];
+        if (workItemIds.length > 1) {
+          const [config, repos] = await Promise.all([
+            configPromise,
+            withTimeout(repoService.getRepositories(projectId), 15000, 'Repos'),
+          ]);
+          configRef.current = { service: configService, config };
+          initLocale(config.general.language || 'en');
+          if (!cancelled) dispatch({ type: 'INIT_BULK', payload: { projectId, workItemIds, repos } });
+          return;
+        }
+
+        // The work item fetch needs the config to know which custom fields the templates reference
+        // and whether {parent.*} / {ancestor:…} tokens require the parent chain
+        const workItemPromise = configPromise
+          .then(async c => {
+            const engine = new RulesEngine(c);
+            const wi = await withTimeout(
+              workItemService.getWorkItemContext(workItemId, projectId, engine.getReferencedFields()),
+              15000,
+              'WorkItem',
+            );
+            const depth = engine.getAncestorDepth();
+            if (wi && depth > 0) {
+              wi.ancestors = await withTimeout(workItemService.getAncestors(wi.id, depth), 15000, 'Ancestors');
+            }
+            loadedRef.current = { fields: new Set(engine.getReferencedFields()), ancestorDepth: depth };
+            return wi;
+          })
           .then(wi => { console.log('[BranchPilot] WorkItem loaded:', wi); return wi; })
           .catch(e => { console.error('[BranchPilot] WorkItem load failed:', e); throw e; });
 
@@ -615,10 +471,15 @@ const CreateBranchModal: React.FC = () => {
           .then(r => { console.log('[BranchPilot] Repos loaded:', r); return r; })
           .catch(e => { console.error('[BranchPilot] Repos load failed:', e); throw e; });
 
-        const [config, workItem, repos] = await Promise.all([
+        // Branches created earlier for this work item, so a second run does not silently add another
+        const linkedPromise = withTimeout(loadLinkedBranches(workItemId), 15000, 'LinkedBranches')
+          .catch(e => { console.error('[BranchPilot] Linked branches load failed:', e); return []; });
+
+        const [config, workItem, repos, linkedBranches] = await Promise.all([
           configPromise,
           workItemPromise,
           reposPromise,
+          linkedPromise,
         ]);
         console.log('[BranchPilot] All data loaded:', { config, workItem, repos });
 
@@ -627,8 +488,10 @@ const CreateBranchModal: React.FC = () => {
           return;
         }
 
-        rulesEngineRef.current = new RulesEngine(config);
+        const sdkUser = SDK.getUser();
+        rulesEngineRef.current = new RulesEngine(config, { displayName: sdkUser.displayName, uniqueName: sdkUser.name });
         maxLengthRef.current = config.general.maxLength;
+        configRef.current = { service: configService, config };
 
         initLocale(config.general.language || 'en');
 
@@ -641,13 +504,18 @@ const CreateBranchModal: React.FC = () => {
               workItem,
               repos,
               allowManualOverride: config.general.allowManualNameOverride,
+              linkedBranches,
+              duplicatePolicy: config.general.duplicateBranches ?? 'confirm',
             },
           });
         }
       } catch (err) {
         console.error('[BranchPilot] Modal init failed:', err);
         logger.error('Modal init failed', err);
-        if (!cancelled) dispatch({ type: 'INIT_ERROR', payload: t('modal.error.generic', { message: String(err) }) });
+        const message = err instanceof ConfigVersionError
+          ? t('config.error.newerSchema', { stored: err.storedVersion, supported: err.supportedVersion })
+          : t('modal.error.generic', { message: String(err) });
+        if (!cancelled) dispatch({ type: 'INIT_ERROR', payload: message });
       } finally {
         console.log('[BranchPilot] Notifying load succeeded');
         if (!cancelled) SDK.notifyLoadSucceeded();
@@ -664,10 +532,19 @@ const CreateBranchModal: React.FC = () => {
     if (!state.selectedBaseBranch || !state.workItem || !rulesEngineRef.current) return;
     if (state.manualOverride) return;
 
-    const { branchName, rule } = rulesEngineRef.current.computeWithRule(
-      state.workItem,
-      state.selectedBaseBranch,
-    );
+    let computed: ReturnType<RulesEngine['computeWithTrace']>;
+    try {
+      computed = rulesEngineRef.current.computeWithTrace(state.workItem, state.selectedBaseBranch);
+    } catch (err) {
+      // Invalid template (e.g. unknown filter) — surface it instead of crashing the panel
+      logger.error('Branch name computation failed', err);
+      dispatch({
+        type: 'SET_BRANCH_ERROR',
+        payload: t('modal.error.template', { message: err instanceof Error ? err.message : String(err) }),
+      });
+      return;
+    }
+    const { branchName, rule, trace } = computed;
 
     const validation = validateBranchName(branchName, maxLengthRef.current);
     const warning = validation.warnings.length > 0 ? validation.warnings[0] : null;
@@ -679,10 +556,59 @@ const CreateBranchModal: React.FC = () => {
 
     dispatch({
       type: 'SET_BRANCH_COMPUTED',
-      payload: { name: branchName, warning, stateHint },
+      payload: { name: branchName, warning, stateHint, trace },
     });
   }, [state.selectedBaseBranch, state.workItem, state.manualOverride]);
 
+  // ── Repo rules ───────────────────────────────────────────────────────────
+
+  /**
+   * Loads a repository's rules, then reloads the work item when the repo's
+   * templates need fields or parent levels that were not fetched yet.
+   */
+  const resolveRepoRules = useCallback(
+    async (repo: RepoInfo, workItem: WorkItemContext) => {
+      if (!configRef.current) return null;
+      const { service, config } = configRef.current;
+      const rules = await loadRepoRules(service, config, state.projectId, repo);
+      const { engine } = rules;
+
+      let current = workItem;
+      const loaded = loadedRef.current;
+      const missingFields = engine.getReferencedFields().filter((f) => !loaded.fields.has(f));
+      if (missingFields.length > 0) {
+        const fields = [...loaded.fields, ...missingFields];
+        const reloaded = await workItemService.getWorkItemContext(workItem.id, state.projectId, fields);
+        if (reloaded) {
+          current = { ...reloaded, ancestors: current.ancestors };
+          loadedRef.current = { ...loadedRef.current, fields: new Set(fields) };
+        }
+      }
+      const depth = engine.getAncestorDepth();
+      if (depth > loaded.ancestorDepth) {
+        current = { ...current, ancestors: await workItemService.getAncestors(workItem.id, depth) };
+        loadedRef.current = { ...loadedRef.current, ancestorDepth: depth };
+      }
+
+      return { ...rules, workItem: current };
+    },
+    [state.projectId],
+  );
+
+  /** Puts the selected repository's rules in effect */
+  const applyRepoRules = useCallback(
+    async (repo: RepoInfo, workItem: WorkItemContext) => {
+      const rules = await resolveRepoRules(repo, workItem);
+      if (!rules) return;
+      const { engine, maxLength, override, file, error } = rules;
+      rulesEngineRef.current = engine;
+      maxLengthRef.current = maxLength;
+      dispatch({ type: 'REPO_CONFIG_LOADED', payload: { workItem: rules.workItem, override, file, error } });
+      return rules.workItem;
+    },
+    [resolveRepoRules],
+  );
+
   // ── Repo selection ───────────────────────────────────────────────────────
 
   const handleRepoChange = useCallback(
@@ -692,18 +618,23 @@ const CreateBranchModal: React.FC = () => {
       try {
         const repo = state.repos.find((r) => r.id === repoId);
 
-        const [branches, tags] = await Promise.all([
+        const [branches, tags, workItem] = await Promise.all([
           repoService.getBranches(state.projectId, repoId),
           repoService.getTags(state.projectId, repoId),
+          repo && state.workItem ? applyRepoRules(repo, state.workItem) : state.workItem,
         ]);
 
-        const defaultBranchName = repo?.defaultBranch ?? (branches[0]?.name ?? '');
+        // A base branch rule may suggest a better starting point than the repo default
+        const suggestion = workItem && rulesEngineRef.current
+          ? rulesEngineRef.current.suggestBaseBranch(workItem, branches.map((b) => b.name))
+          : null;
+        const defaultBranchName = suggestion?.branch ?? repo?.defaultBranch ?? (branches[0]?.name ?? '');
         const defaultBranchObj = branches.find((b) => b.name === defaultBranchName);
         const defaultObjectId = defaultBranchObj?.objectId ?? '';
 
         dispatch({
           type: 'BRANCHES_LOADED',
-          payload: { branches, defaultBranch: defaultBranchName, defaultObjectId },
+          payload: { branches, defaultBranch: defaultBranchName, defaultObjectId, suggestion },
         });
         dispatch({ type: 'TAGS_LOADED', payload: tags });
       } catch (err) {
@@ -711,9 +642,82 @@ const CreateBranchModal: React.FC = () => {
         dispatch({ type: 'SET_LOADING_BRANCHES', payload: false });
       }
     },
-    [state.repos, state.projectId],
+    [state.repos, state.projectId, state.workItem, applyRepoRules],
   );
 
+  // ── Additional repositories ──────────────────────────────────────────────
+
+  /** Computes an additional repository's branch name with that repository's rules */
+  const computeTargetName = useCallback(
+    (repoId: string, workItem: WorkItemContext, baseBranch: string) => {
+      const rules = targetRulesRef.current.get(repoId);
+      if (!rules || !baseBranch) return;
+      try {
+        const name = rules.engine.computeWithTrace(workItem, baseBranch).branchName;
+        const validation = validateBranchName(name, rules.maxLength);
+        dispatch({
+          type: 'SET_TARGET_COMPUTED',
+          payload: { repoId, name, warning: validation.warnings[0] ?? null, error: null },
+        });
+      } catch (err) {
+        logger.error('Branch name computation failed', err);
+        dispatch({
+          type: 'SET_TARGET_COMPUTED',
+          payload: { repoId, name: '', warning: null, error: t('modal.error.template', { message: err instanceof Error ? err.message : String(err) }) },
+        });
+      }
+    },
+    [],
+  );
+
+  const handleAddTarget = useCallback(
+    async (repoId: string) => {
+      const repo = state.repos.find((r) => r.id === repoId);
+      if (!repo || !state.workItem) return;
+      dispatch({ type: 'ADD_TARGET', payload: repoId });
+
+      try {
+        const [branches, tags, rules] = await Promise.all([
+          repoService.getBranches(state.projectId, repoId),
+          repoService.getTags(state.projectId, repoId),
+          resolveRepoRules(repo, state.workItem),
+        ]);
+        const workItem = rules?.workItem ?? state.workItem;
+        if (rules) targetRulesRef.current.set(repoId, { engine: rules.engine, maxLength: rules.maxLength });
+
+        const suggestion = rules?.engine.suggestBaseBranch(workItem, branches.map((b) => b.name)) ?? null;
+        const baseBranch = suggestion?.branch ?? repo.defaultBranch ?? (branches[0]?.name ?? '');
+        const baseObjectId = branches.find((b) => b.name === baseBranch)?.objectId ?? '';
+
+        dispatch({
+          type: 'TARGET_LOADED',
+          payload: { repoId, branches, tags, baseBranch, baseObjectId, workItem: rules?.workItem ?? null, configError: rules?.error?.message ?? null },
+        });
+        computeTargetName(repoId, workItem, baseBranch);
+      } catch (err) {
+        logger.error('Failed to load branches/tags', err);
+        dispatch({
+          type: 'TARGET_LOADED',
+          payload: { repoId, branches: [], tags: [], baseBranch: '', baseObjectId: '', workItem: null, configError: null },
+        });
+      }
+    },
+    [state.repos, state.projectId, state.workItem, resolveRepoRules, computeTargetName],
+  );
+
+  const handleTargetBase = useCallback(
+    (target: RepoTarget, name: string, objectId: string) => {
+      dispatch({ type: 'SET_TARGET_BASE', payload: { repoId: target.repoId, name, objectId } });
+      if (!target.manualOverride && state.workItem) computeTargetName(target.repoId, state.workItem, name);
+    },
+    [state.workItem, computeTargetName],
+  );
+
+  const handleRemoveTarget = useCallback((repoId: string) => {
+    targetRulesRef.current.delete(repoId);
+    dispatch({ type: 'REMOVE_TARGET', payload: repoId });
+  }, []);
+
   // ── Create ───────────────────────────────────────────────────────────────
 
   const handleCreate = useCallback(async () => {
@@ -738,8 +742,39 @@ const CreateBranchModal: React.FC = () => {
       return;
     }
 
+    const duplicates = duplicateLinks(state);
+    if (duplicates.length > 0 && (state.duplicatePolicy === 'forbid' || !state.confirmDuplicate)) {
+      dispatch({
+        type: 'CREATE_ERROR',
+        payload: state.duplicatePolicy === 'forbid' ? t('modal.linked.forbidden') : t('modal.linked.confirmRequired'),
+      });
+      return;
+    }
+
+    for (const target of state.targets) {
+      const repoName = state.repos.find((r) => r.id === target.repoId)?.name ?? target.repoId;
+      const targetValidation = validateBranchName(
+        target.branchName.trim(),
+        targetRulesRef.current.get(target.repoId)?.maxLength ?? maxLengthRef.current,
+      );
+      const problem = !target.baseObjectId
+        ? t('modal.error.basedOnRequired')
+        : !target.branchName.trim()
+          ? t('modal.error.branchNameRequired')
+          : targetValidation.errors[0];
+      if (problem) {
+        dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.inRepo', { repo: repoName, message: problem }) });
+        return;
+      }
+    }
+
     dispatch({ type: 'CREATE_START' });
 
+    if (state.targets.length > 0) {
+      await createInRepos();
+      return;
+    }
+
     try {
       const sourceObjectId = selectedBaseObjectId;
       if (!sourceObjectId) {
@@ -760,49 +795,103 @@ const CreateBranchModal: React.FC = () => {
       });
 
       if (!result.success) {
-        if (result.error?.startsWith('branch_exists:')) {
-          const parts = result.error.split(':');
-          dispatch({
-            type: 'CREATE_ERROR',
-            payload: t('modal.error.branchExists', { name: parts[1], suggestion: parts[2] }),
-          });
-        } else if (result.error?.startsWith('branch_conflict:')) {
-          const parts = result.error.split(':');
-          dispatch({
-            type: 'CREATE_ERROR',
-            payload: t('modal.error.branchConflict', { name: parts[1], conflictingRef: parts[2] }),
-          });
-        } else if (result.error === 'permission_denied') {
-          dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.permissionDenied') });
-        } else {
-          dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.generic', { message: result.error ?? 'unknown' }) });
-        }
+        dispatch({ type: 'CREATE_ERROR', payload: createErrorMessage(result.error) });
         return;
       }
 
       await workItemService.addBranchLink(workItem!.id, projectId, selectedRepoId, result.branchName!);
+      await updateWorkItemState(rulesEngineRef.current, selectedBaseBranch);
 
-      if (rulesEngineRef.current) {
-        const rule = rulesEngineRef.current.resolveRule(selectedBaseBranch, workItem!.type);
-        if (rule.workItemState?.enabled && rule.workItemState.state) {
-          await workItemService.updateState(workItem!.id, rule.workItemState.state);
-        }
+      closePanel();
+    } catch (err) {
+      logger.error('Create branch failed', err);
+      dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.generic', { message: String(err) }) });
+    }
+
+    /** Sets the work item state of a repository's rule, if it has one */
+    async function updateWorkItemState(engine: RulesEngine | null | undefined, baseBranch: string) {
+      if (!engine) return;
+      const rule = engine.resolveRule(baseBranch, workItem!);
+      if (rule.workItemState?.enabled && rule.workItemState.state) {
+        await workItemService.updateState(workItem!.id, rule.workItemState.state);
       }
+    }
 
+    /**
+     * Creates the branch in the selected repository and every additional one,
+     * links each branch that was kept to the work item and shows the outcome
+     * per repository instead of closing the panel.
+     */
+    async function createInRepos() {
+      if (!selectedBaseObjectId) {
+        dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.basedOnRequired') });
+        return;
+      }
+      const params = [
+        { repoId: selectedRepoId, branchName: branchName.trim(), sourceBranchName: selectedBaseBranch, sourceObjectId: selectedBaseObjectId },
+        ...state.targets.map((target) => ({
+          repoId: target.repoId,
+          branchName: target.branchName.trim(),
+          sourceBranchName: target.baseBranch,
+          sourceObjectId: target.baseObjectId,
+        })),
+      ].map((target) => ({
+        ...target,
+        repoName: state.repos.find((r) => r.id === target.repoId)?.name ?? target.repoId,
+        projectId,
+        workItemId: workItem!.id,
+        workItemType: workItem!.type,
+      }));
+
+      let created: RepoBranchResult[];
       try {
-        const panelConfig = SDK.getConfiguration() as { panel?: { close(): void } };
-        if (panelConfig?.panel?.close) {
-          panelConfig.panel.close();
+        created = await branchService.createBranches(params, state.rollbackOnFailure);
+      } catch (err) {
+        logger.error('Create branches failed', err);
+        dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.generic', { message: String(err) }) });
+        return;
+      }
+
+      // Each kept branch is linked on its own, so one failed link does not hide the other results
+      const results: RepoBranchResult[] = [];
+      for (const result of created) {
+        if (result.status !== 'created') {
+          results.push(result);
+          continue;
+        }
+        let linked = false;
+        try {
+          linked = await workItemService.addBranchLink(workItem!.id, projectId, result.repoId, result.branchName);
+        } catch (err) {
+          logger.error('Branch link failed', { repoId: result.repoId, error: err });
         }
-      } catch {
-        // Panel close not available or already closed
+        results.push(linked ? result : { ...result, linkFailed: true });
       }
-    } catch (err) {
-      logger.error('Create branch failed', err);
-      dispatch({ type: 'CREATE_ERROR', payload: t('modal.error.generic', { message: String(err) }) });
+
+      // The state follows the rule of the first repository whose branch was kept
+      const kept = results.find((result) => result.status === 'created');
+      if (kept) {
+        const target = state.targets.find((t) => t.repoId === kept.repoId);
+        try {
+          await (target
+            ? updateWorkItemState(targetRulesRef.current.get(target.repoId)?.engine, target.baseBranch)
+            : updateWorkItemState(rulesEngineRef.current, selectedBaseBranch));
+        } catch (err) {
+          logger.error('Work item state update failed', err);
+        }
+      }
+      dispatch({ type: 'CREATE_DONE', payload: results });
     }
   }, [state]);
 
+  // ── Linked branches ──────────────────────────────────────────────────────
+
+  const handleCopyCheckout = useCallback((branchName: string) => {
+    navigator.clipboard.writeText(checkoutCommand(branchName)).then(() => {
+      dispatch({ type: 'CHECKOUT_COPIED', payload: branchName });
+    });
+  }, []);
+
   // ── Copy diagnostics ─────────────────────────────────────────────────────
 
   const handleCopyDiagnostics = useCallback(() => {
@@ -836,11 +925,70 @@ const CreateBranchModal: React.FC = () => {
     );
   }
 
+  if (state.bulkWorkItemIds && configRef.current) {
+    return (
+      <BulkCreatePanel
+        projectId={state.projectId}
+        workItemIds={state.bulkWorkItemIds}
+        repos={repos}
+        configService={configRef.current.service}
+        config={configRef.current.config}
+      />
+    );
+  }
+
   const selectedRepo = repos.find((r) => r.id === state.selectedRepoId);
+  const repoName = (repoId: string) => repos.find((r) => r.id === repoId)?.name ?? repoId;
+  const otherRepos = repos.filter(
+    (r) => r.id !== state.selectedRepoId && !state.targets.some((target) => target.repoId === r.id),
+  );
+  const created = state.results?.some((result) => result.status === 'created') ?? false;
+  const duplicates = duplicateLinks(state);
+  const duplicateBlocked = duplicates.length > 0 && (state.duplicatePolicy === 'forbid' || !state.confirmDuplicate);
 
   return (
     <div className="bp-modal">
       <div className="bp-modal__body">
+        {/* ── Branches already linked ── */}
+        {state.linkedBranches.length > 0 && (
+          <div className="bp-modal__linked">
+            <div className="bp-modal__linked-title">{t('modal.linked.title', { count: state.linkedBranches.length })}</div>
+            {state.linkedBranches.map((link) => {
+              const repo = repos.find((r) => r.id === link.repoId);
+              return (
+                <div
+                  key={`${link.repoId}/${link.branchName}`}
+                  className={`bp-modal__linked-item${link.deleted ? ' bp-modal__linked-item--deleted' : ''}`}
+                >
+                  <span className="bp-modal__linked-repo">{repo?.name ?? t('modal.linked.otherRepo')}</span>
+                  <code>{link.branchName}</code>
+                  {link.deleted && <span className="bp-modal__linked-deleted">{t('modal.linked.deleted')}</span>}
+                  {!link.deleted && repo?.webUrl && (
+                    <a
+                      className="bp-btn bp-btn--secondary bp-btn--small"
+                      href={`${repo.webUrl}?version=GB${encodeURIComponent(link.branchName)}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {t('modal.linked.open')}
+                    </a>
+                  )}
+                  {!link.deleted && (
+                    <button
+                      type="button"
+                      className="bp-btn bp-btn--secondary bp-btn--small"
+                      title={checkoutCommand(link.branchName)}
+                      onClick={() => handleCopyCheckout(link.branchName)}
+                    >
+                      {state.checkoutCopied === link.branchName ? t('modal.diagnostics.copied') : t('modal.linked.copyCheckout')}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* ── Branch name ── */}
         <div className="bp-modal__field">
           <label htmlFor="bp-name">
@@ -885,6 +1033,25 @@ const CreateBranchModal: React.FC = () => {
             noOptionsText={t('modal.picker.noRepos')}
             disabled={state.creating}
           />
+          {state.repoOverride && (
+            <div className="bp-modal__info">{t('modal.info.repoOverride', { key: state.repoOverride })}</div>
+          )}
+          {state.repoConfigFile && (
+            <div className="bp-modal__info">{t('modal.info.repoConfig', { path: state.repoConfigFile })}</div>
+          )}
+          {state.repoConfigError && (
+            <div className="bp-modal__banner bp-modal__banner--error">
+              <span>⚠</span>
+              <div>
+                <span>{state.repoConfigError.message}</span>
+                {state.repoConfigError.problems.length > 0 && (
+                  <ul className="bp-modal__problems">
+                    {state.repoConfigError.problems.map((problem) => <li key={problem}>{problem}</li>)}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* ── Based on ── */}
@@ -914,13 +1081,124 @@ const CreateBranchModal: React.FC = () => {
               loading={state.loadingBranches}
             />
           )}
+          {state.baseBranchSuggestion && state.baseBranchSuggestion.branch === state.selectedBaseBranch && (
+            <div className="bp-modal__info">
+              {t('modal.info.baseBranchSuggested', { rule: state.baseBranchSuggestion.ruleName })}
+            </div>
+          )}
         </div>
 
+        {/* ── Additional repositories ── */}
+        {state.selectedRepoId && (
+          <div className="bp-modal__field">
+            <label>{t('modal.field.otherRepos')}</label>
+            {state.targets.map((target) => (
+              <div key={target.repoId} className="bp-modal__target">
+                <div className="bp-modal__target-header">
+                  <span>{repoName(target.repoId)}</span>
+                  <button
+                    type="button"
+                    className="bp-btn bp-btn--secondary bp-btn--small"
+                    title={t('modal.btn.removeRepo')}
+                    disabled={state.creating}
+                    onClick={() => handleRemoveTarget(target.repoId)}
+                  >
+                    ✕
+                  </button>
+                </div>
+                {target.loading ? (
+                  <div className="bp-modal__spinner">
+                    <div className="bp-spinner-icon" />
+                    <span>{t('modal.loading.branches')}</span>
+                  </div>
+                ) : (
+                  <>
+                    <BranchTagPicker
+                      branches={target.branches}
+                      tags={target.tags}
+                      defaultBranch={repos.find((r) => r.id === target.repoId)?.defaultBranch}
+                      value={target.baseBranch}
+                      onSelect={(name, objectId) => handleTargetBase(target, name, objectId)}
+                      disabled={state.creating}
+                    />
+                    <input
+                      type="text"
+                      className="bp-modal__input"
+                      value={target.branchName}
+                      placeholder={t('modal.field.branchName.placeholder')}
+                      disabled={!state.allowManualOverride || state.creating}
+                      onChange={(e) => dispatch({ type: 'SET_TARGET_NAME', payload: { repoId: target.repoId, name: e.target.value } })}
+                    />
+                  </>
+                )}
+                {target.configError && <div className="bp-modal__warning">⚠ {target.configError}</div>}
+                {target.nameError && <div className="bp-modal__error">⚠ {target.nameError}</div>}
+                {!target.nameError && target.nameWarning && (
+                  <div className="bp-modal__warning">⚠ {target.nameWarning}</div>
+                )}
+              </div>
+            ))}
+            <SearchableSelect
+              options={otherRepos.map((r) => ({ value: r.id, label: r.name }))}
+              value=""
+              onSelect={handleAddTarget}
+              placeholder={t('modal.field.otherRepos.placeholder')}
+              filterPlaceholder={t('modal.picker.filterRepos')}
+              noOptionsText={t('modal.picker.noRepos')}
+              disabled={state.creating || otherRepos.length === 0}
+            />
+            {state.targets.length > 0 && (
+              <label className="bp-modal__checkbox">
+                <input
+                  type="checkbox"
+                  checked={state.rollbackOnFailure}
+                  disabled={state.creating}
+                  onChange={(e) => dispatch({ type: 'SET_ROLLBACK', payload: e.target.checked })}
+                />
+                {t('modal.field.rollback')}
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* ── Duplicate branch ── */}
+        {duplicates.length > 0 && !state.results && (
+          <div className={`bp-modal__banner bp-modal__banner--${state.duplicatePolicy === 'forbid' ? 'error' : 'warning'}`}>
+            <span>⚠</span>
+            <div>
+              <span>
+                {state.duplicatePolicy === 'forbid'
+                  ? t('modal.linked.forbidden')
+                  : t('modal.linked.duplicate', { repos: [...new Set(duplicates.map((link) => repoName(link.repoId)))].join(', ') })}
+              </span>
+              {state.duplicatePolicy === 'confirm' && (
+                <label className="bp-modal__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={state.confirmDuplicate}
+                    disabled={state.creating}
+                    onChange={(e) => dispatch({ type: 'CONFIRM_DUPLICATE', payload: e.target.checked })}
+                  />
+                  {t('modal.linked.confirm')}
+                </label>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* ── State update hint ── */}
         {state.stateHint && (
           <div className="bp-modal__state-hint">✓ {state.stateHint}</div>
         )}
 
+        {/* ── Evaluation trace (collapsible) ── */}
+        {state.trace && (
+          <details className="bp-modal__diagnostics">
+            <summary>{t('trace.title')}</summary>
+            <EvaluationTraceView trace={state.trace} />
+          </details>
+        )}
+
         {/* ── Success / Error banners ── */}
         {state.successMessage && (
           <div className="bp-modal__banner bp-modal__banner--success">
@@ -929,6 +1207,27 @@ const CreateBranchModal: React.FC = () => {
           </div>
         )}
 
+        {state.results && (
+          <div className="bp-modal__results">
+            <div className="bp-modal__results-title">{t('modal.results.title')}</div>
+            {state.results.map((result) => (
+              <div key={result.repoId} className={`bp-modal__result bp-modal__result--${result.status}`}>
+                <span className="bp-modal__result-repo">{result.repoName}</span>
+                <code>{result.branchName}</code>
+                <span>
+                  {result.status === 'failed'
+                    ? createErrorMessage(result.error)
+                    : result.rollbackFailed
+                      ? t('modal.results.rollbackFailed')
+                      : result.linkFailed
+                        ? t('modal.results.linkFailed')
+                        : t(`modal.results.${result.status}` as I18nKey)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {state.createError && (
           <div className="bp-modal__banner bp-modal__banner--error">
             <span>⚠</span>
@@ -987,22 +1286,18 @@ const CreateBranchModal: React.FC = () => {
         <button
           className="bp-btn bp-btn--secondary"
           disabled={state.creating}
-          onClick={() => {
-            try {
-              const panelConfig = SDK.getConfiguration() as { panel?: { close(): void } };
-              if (panelConfig?.panel?.close) {
-                panelConfig.panel.close();
-              }
-            } catch {/* Panel close not available */}
-          }}
+          onClick={closePanel}
         >
-          {t('modal.btn.cancel')}
+          {created ? t('modal.btn.close') : t('modal.btn.cancel')}
         </button>
 
         <button
           className="bp-btn bp-btn--primary"
           disabled={
             state.creating ||
+            created ||
+            duplicateBlocked ||
+            state.targets.some((target) => target.loading) ||
             !state.selectedRepoId ||
             !state.selectedBaseBranch ||
             !state.branchName
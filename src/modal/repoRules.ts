@@ -0,0 +1,56 @@
+import * as SDK from 'azure-devops-extension-sdk';
+
+import { ExtensionConfig, RepoInfo } from '../common/types';
+import { ConfigService } from '../services/ConfigService';
+import { RulesEngine } from '../rules/RulesEngine';
+import { applyRepoConfig, findRepoOverride, parseRepoConfigFile, RepoConfigError } from '../rules/RepoConfig';
+import { t } from '../i18n';
+import { logger } from '../services/Logger';
+import { repoService } from './services';
+
+export interface RepoRules {
+  engine: RulesEngine;
+  maxLength: number;
+  /** repoOverrides key matching the repository */
+  override: string | null;
+  /** Config file of the repository whose rules are in effect */
+  file: string | null;
+  /** Why the repository's config file was not applied */
+  error: { message: string; problems: string[] } | null;
+}
+
+/**
+ * Builds the rules engine for a repository: the project config, then the
+ * matching repo override, then the repo's config file. A broken file
+ * is reported and skipped.
+ */
+export async function loadRepoRules(
+  service: ConfigService,
+  config: ExtensionConfig,
+  projectId: string,
+  repo: RepoInfo,
+): Promise<RepoRules> {
+  const override = findRepoOverride(config.repoOverrides, repo)?.key ?? null;
+  let repoConfig = service.getRepoConfig(config, repo);
+  let file: string | null = null;
+  let error: RepoRules['error'] = null;
+
+  try {
+    const stored = await repoService.getConfigFile(projectId, repo);
+    if (stored) {
+      const parsed = parseRepoConfigFile(stored.path, stored.content);
+      if (parsed.warnings.length > 0) logger.warn('Repository config file has warnings', { path: stored.path, warnings: parsed.warnings });
+      repoConfig = applyRepoConfig(repoConfig, parsed.layer);
+      file = stored.path;
+    }
+  } catch (err) {
+    logger.error('Repository config file not applied', err);
+    error = err instanceof RepoConfigError
+      ? { message: t('modal.repoConfig.invalid', { path: err.path }), problems: err.problems }
+      : { message: t('modal.repoConfig.loadFailed', { message: err instanceof Error ? err.message : String(err) }), problems: [] };
+  }
+
+  const sdkUser = SDK.getUser();
+  const engine = new RulesEngine(repoConfig, { displayName: sdkUser.displayName, uniqueName: sdkUser.name });
+  return { engine, maxLength: repoConfig.general.maxLength, override, file, error };
+}
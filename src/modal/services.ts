@@ -0,0 +1,27 @@
+import { RepoService } from '../services/RepoService';
+import { WorkItemService } from '../services/WorkItemService';
+import { BranchService } from '../services/BranchService';
+import { LinkedBranch } from '../common/types';
+
+// Services shared by the modal's panels, instantiated once so they share the branch cache
+export const repoService = new RepoService();
+export const workItemService = new WorkItemService();
+export const branchService = new BranchService(repoService);
+
+/**
+ * Reads the branches linked to a work item and flags the ones deleted since.
+ * A branch whose repository cannot be read is assumed to still exist.
+ */
+export async function loadLinkedBranches(workItemId: number): Promise<LinkedBranch[]> {
+  const links = await workItemService.getLinkedBranches(workItemId);
+  return Promise.all(
+    links.map(async (link) => {
+      try {
+        const exists = await repoService.branchExists(link.projectId, link.repoId, link.branchName);
+        return exists ? link : { ...link, deleted: true };
+      } catch {
+        return link;
+      }
+    }),
+  );
+}
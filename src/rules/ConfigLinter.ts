@@ -0,0 +1,371 @@
+import { ExtensionConfig, RuleCondition, SourceBranchRule, ValidationResult, WorkItemTypeRule } from '../common/types';
+import { SOURCE_BRANCH_RULE_PRIORITY } from '../common/constants';
+import { TemplateRenderer } from './TemplateRenderer';
+import { matchesBranchPattern, patternError } from './RuleConditions';
+
+/**
+ * Lints a (valid) config for mistakes that still let it load but make rules
+ * behave differently than intended:
+ *
+ *   errors    invalid regexes and globs (field regex conditions included),
+ *             duplicate work item type rules, template tokens that do not
+ *             exist, unknown filters or filter arguments, prefixes whose
+ *             folders differ only in case (when names are not lowercased)
+ *   warnings  branch rules shadowed by an earlier rule, prefixes whose
+ *             folder is also a branch name a rule matches exactly
+ *
+ * Shadowing is checked on sample branch names generated from each pattern:
+ * a rule is reported when an earlier rule catches every sample it matches.
+ * Messages start with the path of the offending value, like validateConfig.
+ */
+export function lintConfig(config: ExtensionConfig): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const renderer = new TemplateRenderer();
+
+  const checkPattern = (path: string, matchType: 'glob' | 'regex', pattern: string) => {
+    const error = matchType === 'glob' ? globError(pattern) : patternError(matchType, pattern);
+    if (error) errors.push(`${path}: invalid ${matchType} (${error})`);
+  };
+  const checkTemplate = (path: string, template: string) => {
+    for (const token of renderer.unknownTokens(template)) errors.push(`${path}: unknown token "{${token}}"`);
+    for (const error of renderer.validate(template).errors) errors.push(`${path}: ${error.replace(/\.$/, '')}`);
+  };
+  const checkCondition = (path: string, condition: RuleCondition) => {
+    condition.predicates.forEach((predicate, i) => {
+      if (predicate.kind === 'sourceBranch') {
+        checkPattern(`${path}.predicates[${i}].match`, predicate.matchType, predicate.match);
+      } else if (predicate.kind === 'field' && predicate.operator === 'regex') {
+        checkPattern(`${path}.predicates[${i}].value`, 'regex', predicate.value ?? '');
+      }
+    });
+  };
+  const checkSourceBranchRules = (path: string, rules: SourceBranchRule[]) => {
+    rules.forEach((rule, i) => {
+      checkPattern(`${path}[${i}].match`, rule.matchType, rule.match);
+      checkTemplate(`${path}[${i}].template`, rule.template);
+    });
+  };
+  const checkWorkItemTypeRules = (path: string, rules: WorkItemTypeRule[]) => {
+    const seen = new Map<string, number>();
+    rules.forEach((rule, i) => {
+      checkTemplate(`${path}[${i}].template`, rule.template);
+      const type = rule.workItemType.trim().toLowerCase();
+      const first = seen.get(type);
+      if (first === undefined) seen.set(type, i);
+      else errors.push(`${path}[${i}].workItemType: duplicate of ${path}[${first}] ("${rule.workItemType}"); it never applies`);
+    });
+  };
+
+  checkTemplate('defaults.template', config.defaults.template);
+  for (const [repo, override] of Object.entries(config.repoOverrides)) {
+    if (override.defaultTemplate) checkTemplate(`repoOverrides.${repo}.defaultTemplate`, override.defaultTemplate);
+    checkSourceBranchRules(`repoOverrides.${repo}.rulesBySourceBranch`, override.rulesBySourceBranch ?? []);
+    checkWorkItemTypeRules(`repoOverrides.${repo}.rulesByWorkItemType`, override.rulesByWorkItemType ?? []);
+  }
+  checkSourceBranchRules('rulesBySourceBranch', config.rulesBySourceBranch);
+  checkWorkItemTypeRules('rulesByWorkItemType', config.rulesByWorkItemType);
+  (config.rules ?? []).forEach((rule, i) => {
+    checkCondition(`rules[${i}].when`, rule.when);
+    checkTemplate(`rules[${i}].template`, rule.template);
+  });
+  (config.baseBranchRules ?? []).forEach((rule, i) => {
+    checkCondition(`baseBranchRules[${i}].when`, rule.when);
+    checkPattern(`baseBranchRules[${i}].branch`, rule.matchType ?? 'glob', rule.branch);
+  });
+
+  const branchRules = branchOnlyRules(config);
+  warnings.push(...findShadowedRules(branchRules));
+  checkPrefixes(config, branchRules, errors, warnings);
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/** A rule whose conditions only look at the source branch, in evaluation order */
+interface BranchRule {
+  path: string;
+  name: string;
+  match: 'all' | 'any';
+  patterns: Array<{ matchType: 'glob' | 'regex'; pattern: string }>;
+}
+
+/** Conditional and source branch rules that depend on nothing but the source branch, as RulesEngine orders them */
+function branchOnlyRules(config: ExtensionConfig): BranchRule[] {
+  const rules = [
+    ...(config.rules ?? []).map((rule, i) => ({
+      path: `rules[${i}]`,
+      name: rule.name,
+      priority: rule.priority ?? 0,
+      when: rule.when,
+    })),
+    ...config.rulesBySourceBranch.map((rule, i) => ({
+      path: `rulesBySourceBranch[${i}]`,
+      name: rule.name,
+      priority: SOURCE_BRANCH_RULE_PRIORITY,
+      when: { match: 'all', predicates: [{ kind: 'sourceBranch', matchType: rule.matchType, match: rule.match }] } as RuleCondition,
+    })),
+  ];
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.priority - b.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule)
+    .filter(({ when }) => when.predicates.length > 0 && when.predicates.every((p) => p.kind === 'sourceBranch'))
+    .map(({ path, name, when }) => ({
+      path,
+      name,
+      match: when.match,
+      patterns: when.predicates.flatMap((p) => (p.kind === 'sourceBranch' ? [{ matchType: p.matchType, pattern: p.match }] : [])),
+    }));
+}
+
+function matchesRule(rule: BranchRule, branch: string): boolean {
+  const matches = (p: BranchRule['patterns'][number]) => matchesBranchPattern(branch, p.matchType, p.pattern);
+  return rule.match === 'all' ? rule.patterns.every(matches) : rule.patterns.some(matches);
+}
+
+function findShadowedRules(rules: BranchRule[]): string[] {
+  const warnings: string[] = [];
+  rules.forEach((rule, j) => {
+    const samples = rule.patterns
+      .flatMap((p) => sampleBranches(p.matchType, p.pattern))
+      .filter((branch) => matchesRule(rule, branch));
+    if (samples.length === 0) return;
+    const shadowing = samples.map((branch) => rules.slice(0, j).find((earlier) => matchesRule(earlier, branch)));
+    if (shadowing.every(Boolean)) {
+      const by = shadowing[0]!;
+      warnings.push(
+        `${rule.path}: "${rule.name}" is shadowed by ${by.path} ("${by.name}"), which comes first and matches the same branches (e.g. "${samples[0]}")`,
+      );
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Checks the folders the prefixes create. Git stores "feature/x" under a
+ * "feature" folder, so no branch can be called "feature" at the same time,
+ * and folders differing only in case clash on Windows and macOS clones.
+ */
+function checkPrefixes(config: ExtensionConfig, branchRules: BranchRule[], errors: string[], warnings: string[]): void {
+  const prefixes: Array<{ path: string; prefix: string; template: string }> = [
+    ...(config.rules ?? []).map((r, i) => ({ path: `rules[${i}].prefix`, prefix: r.prefix ?? '', template: r.template })),
+    // Stored rules may lack the prefix the type requires
+    ...config.rulesBySourceBranch.map((r, i) => ({ path: `rulesBySourceBranch[${i}].prefix`, prefix: r.prefix ?? '', template: r.template })),
+    ...config.rulesByWorkItemType.map((r, i) => ({ path: `rulesByWorkItemType[${i}].prefix`, prefix: r.prefix ?? '', template: r.template })),
+    { path: 'defaults.template', prefix: '', template: config.defaults.template },
+  ];
+
+  // Branches that rules match by their exact name, e.g. "^mac$" or "develop"
+  const exactBranches = branchRules.flatMap((rule) => rule.patterns
+    .map((p) => ({ rule, name: exactBranchName(p.matchType, p.pattern) }))
+    .filter((b): b is { rule: BranchRule; name: string } => b.name !== null));
+
+  const folders = new Map<string, { folder: string; path: string }>();
+  for (const { path, prefix, template } of prefixes) {
+    for (const folder of templateFolders(template, prefix)) {
+      const key = folder.toLowerCase();
+      const seen = folders.get(key);
+      if (!seen) {
+        folders.set(key, { folder, path });
+      } else if (seen.folder !== folder && !config.general.lowercase) {
+        errors.push(`${path}: folder "${folder}/" differs only in case from "${seen.folder}/" (${seen.path})`);
+      }
+    }
+  }
+  for (const [key, { folder, path }] of folders) {
+    const branch = exactBranches.find((b) => b.name.toLowerCase() === key);
+    if (branch) {
+      warnings.push(
+        `${path}: branches under "${folder}/" cannot be created while a branch named "${branch.name}" exists (matched by ${branch.rule.path})`,
+      );
+    }
+  }
+}
+
+/** The folders of the literal start of a template, e.g. ["app", "app/feature"] for "app/feature/{wi.id}" */
+function templateFolders(template: string, prefix: string): string[] {
+  const literal = template
+    .replace(/\{\s*prefix\s*\}/g, prefix.replace(/[{}]/g, ''))
+    .split('{')[0];
+  const segments = literal.split('/').slice(0, -1);
+  return segments.map((_, i) => segments.slice(0, i + 1).join('/')).filter((folder) => !folder.split('/').includes(''));
+}
+
+/** The one branch name a pattern matches, or null when it can match several */
+function exactBranchName(matchType: 'glob' | 'regex', pattern: string): string | null {
+  if (matchType === 'glob') return /[*?[\]{}!\\]/.test(pattern) || pattern === '' ? null : pattern;
+  const m = /^\^([^\\.*+?()[\]{}|^$]+)\$$/.exec(pattern);
+  return m ? m[1] : null;
+}
+
+/**
+ * Why a glob cannot be what its author meant: minimatch accepts anything,
+ * matching unbalanced brackets and braces literally.
+ */
+function globError(pattern: string): string | undefined {
+  if (pattern.trim() === '') return 'empty pattern';
+  let brackets = 0;
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') i++;
+    else if (c === '[' && brackets === 0) brackets++;
+    else if (c === ']' && brackets > 0) brackets--;
+    else if (brackets === 0 && c === '{') braces++;
+    else if (brackets === 0 && c === '}') braces--;
+    if (braces < 0) return 'unbalanced "}"';
+  }
+  if (brackets > 0) return 'unclosed "["';
+  if (braces > 0) return 'unclosed "{"';
+  return undefined;
+}
+
+// ─── Sample branch names ──────────────────────────────────────────────────────
+
+const MAX_SAMPLES = 16;
+
+/** Characters tried, in order, for wildcards and character classes */
+const SAMPLE_CHARS = ['x', '1', 'a', '0', '-', '_', '.', 'A', 'Z', '9', '/'];
+
+/**
+ * A few branch names a pattern is meant to match: each wildcard, class,
+ * alternative and optional part is filled in a couple of ways. Callers keep
+ * only the samples the pattern really matches.
+ */
+function sampleBranches(matchType: 'glob' | 'regex', pattern: string): string[] {
+  try {
+    return matchType === 'glob' ? globSamples(pattern) : new RegexSampler(new RegExp(pattern).source).samples();
+  } catch {
+    // Invalid patterns are reported on their own
+    return [];
+  }
+}
+
+function globSamples(pattern: string): string[] {
+  let samples = [''];
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    let options: string[];
+    if (c === '*' && pattern[i + 1] === '*') {
+      options = ['x', 'x/y'];
+      i++;
+    } else if (c === '*') {
+      options = ['x', '2.4'];
+    } else if (c === '?') {
+      options = ['x'];
+    } else if (c === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end < 0) return [];
+      options = [firstMatching(new RegExp(`^[${pattern.slice(i + 1, end).replace(/^!/, '^')}]$`))];
+      i = end;
+    } else if (c === '{') {
+      const end = pattern.indexOf('}', i + 1);
+      if (end < 0) return [];
+      options = pattern.slice(i + 1, end).split(',');
+      i = end;
+    } else if (c === '\\') {
+      options = [pattern[++i] ?? ''];
+    } else {
+      options = [c];
+    }
+    samples = combine(samples, options);
+  }
+  return samples;
+}
+
+/** Walks a regex and expands it into sample strings; unsupported syntax samples as "x" */
+class RegexSampler {
+  private pos = 0;
+
+  constructor(private pattern: string) {}
+
+  samples(): string[] {
+    return this.alternation();
+  }
+
+  private alternation(): string[] {
+    const options = [...this.sequence()];
+    while (this.pattern[this.pos] === '|') {
+      this.pos++;
+      options.push(...this.sequence());
+    }
+    return options.slice(0, MAX_SAMPLES);
+  }
+
+  private sequence(): string[] {
+    let samples = [''];
+    while (this.pos < this.pattern.length && this.pattern[this.pos] !== '|' && this.pattern[this.pos] !== ')') {
+      samples = combine(samples, this.quantified(this.atom()));
+    }
+    return samples;
+  }
+
+  private atom(): string[] {
+    const c = this.pattern[this.pos++];
+    if (c === '^' || c === '$') return [''];
+    if (c === '.') return ['x'];
+    if (c === '(') {
+      if (this.pattern.startsWith('?:', this.pos)) this.pos += 2;
+      else if (/^\?<[A-Za-z_]/.test(this.pattern.slice(this.pos))) this.pos = this.pattern.indexOf('>', this.pos) + 1;
+      else if (/^\?<?[=!]/.test(this.pattern.slice(this.pos))) {
+        // Lookarounds consume nothing
+        this.alternation();
+        this.pos++;
+        return [''];
+      }
+      const options = this.alternation();
+      this.pos++;
+      return options;
+    }
+    if (c === '[') {
+      let end = this.pos;
+      while (end < this.pattern.length && this.pattern[end] !== ']') end += this.pattern[end] === '\\' ? 2 : 1;
+      const set = this.pattern.slice(this.pos - 1, end + 1);
+      this.pos = end + 1;
+      return [firstMatching(new RegExp(`^${set}$`))];
+    }
+    if (c === '\\') {
+      const next = this.pattern[this.pos++];
+      if (next === 'b' || next === 'B') return [''];
+      if (/[dDwWsS]/.test(next)) return [firstMatching(new RegExp(`^\\${next}$`))];
+      return [next];
+    }
+    return [c];
+  }
+
+  /**
+   * Applies a quantifier. The atom is repeated the minimum number of times,
+   * once more and the maximum (or twice more when unbounded), so "\d+" is
+   * not sampled as if it were "\d".
+   */
+  private quantified(options: string[]): string[] {
+    const c = this.pattern[this.pos];
+    const counted = c === '{' ? /^\{(\d+)(?:(,)(\d*))?\}/.exec(this.pattern.slice(this.pos)) : null;
+    let min: number;
+    let max: number;
+    if (c === '?' || c === '*' || c === '+') {
+      this.pos++;
+      min = c === '+' ? 1 : 0;
+      max = c === '?' ? 1 : Infinity;
+    } else if (counted) {
+      this.pos += counted[0].length;
+      min = Number(counted[1]);
+      max = !counted[2] ? min : counted[3] ? Number(counted[3]) : Infinity;
+    } else {
+      return options;
+    }
+    // Lazy quantifiers sample like greedy ones
+    if (this.pattern[this.pos] === '?') this.pos++;
+    const counts = [...new Set([min, min + 1, max === Infinity ? min + 2 : max])].filter((n) => n <= max);
+    return counts.flatMap((n) => options.map((o) => o.repeat(n)));
+  }
+}
+
+function firstMatching(re: RegExp): string {
+  return SAMPLE_CHARS.find((c) => re.test(c)) ?? 'x';
+}
+
+/** Every sample followed by every option, capped at MAX_SAMPLES */
+function combine(samples: string[], options: string[]): string[] {
+  return samples.flatMap((s) => options.map((o) => s + o)).slice(0, MAX_SAMPLES);
+}
@@ -0,0 +1,67 @@
+import { ExtensionConfig, RuleCondition, SourceBranchRule, ValidationResult, WorkItemTypeRule } from '../common/types';
+import { validateSchema } from '../common/configSchema';
+import { TemplateRenderer } from './TemplateRenderer';
+import { patternError } from './RuleConditions';
+
+/**
+ * Validates a config document: first its shape against CONFIG_SCHEMA, then —
+ * once the shape is right — what the schema cannot express: regex syntax
+ * and template filters. Every message starts with the path of the offending
+ * value, e.g. "rulesBySourceBranch[3].match: invalid regex (…)".
+ */
+export function validateConfig(value: unknown): ValidationResult {
+  const result = validateSchema(value);
+  if (!result.valid) return result;
+
+  const config = value as ExtensionConfig;
+  const renderer = new TemplateRenderer();
+  const errors = result.errors;
+
+  const checkPattern = (path: string, matchType: 'glob' | 'regex', pattern: string) => {
+    const error = patternError(matchType, pattern);
+    if (error) errors.push(`${path}: invalid regex (${error})`);
+  };
+  const checkTemplate = (path: string, template: string) => {
+    for (const error of renderer.validate(template).errors) errors.push(`${path}: ${error}`);
+  };
+  const checkCondition = (path: string, condition: RuleCondition) => {
+    condition.predicates.forEach((predicate, i) => {
+      if (predicate.kind === 'sourceBranch') {
+        checkPattern(`${path}.predicates[${i}].match`, predicate.matchType, predicate.match);
+      }
+      if (predicate.kind === 'field' && predicate.operator === 'regex') {
+        checkPattern(`${path}.predicates[${i}].value`, 'regex', predicate.value ?? '');
+      }
+    });
+  };
+
+  const checkSourceBranchRules = (path: string, rules: SourceBranchRule[]) => {
+    rules.forEach((rule, i) => {
+      checkPattern(`${path}[${i}].match`, rule.matchType, rule.match);
+      checkTemplate(`${path}[${i}].template`, rule.template);
+    });
+  };
+  const checkWorkItemTypeRules = (path: string, rules: WorkItemTypeRule[]) => {
+    rules.forEach((rule, i) => checkTemplate(`${path}[${i}].template`, rule.template));
+  };
+
+  checkTemplate('defaults.template', config.defaults.template);
+  for (const [repo, override] of Object.entries(config.repoOverrides)) {
+    if (override.defaultTemplate) checkTemplate(`repoOverrides.${repo}.defaultTemplate`, override.defaultTemplate);
+    checkSourceBranchRules(`repoOverrides.${repo}.rulesBySourceBranch`, override.rulesBySourceBranch ?? []);
+    checkWorkItemTypeRules(`repoOverrides.${repo}.rulesByWorkItemType`, override.rulesByWorkItemType ?? []);
+  }
+  checkSourceBranchRules('rulesBySourceBranch', config.rulesBySourceBranch);
+  checkWorkItemTypeRules('rulesByWorkItemType', config.rulesByWorkItemType);
+  (config.rules ?? []).forEach((rule, i) => {
+    checkCondition(`rules[${i}].when`, rule.when);
+    checkTemplate(`rules[${i}].template`, rule.template);
+  });
+  (config.baseBranchRules ?? []).forEach((rule, i) => {
+    checkCondition(`baseBranchRules[${i}].when`, rule.when);
+    checkPattern(`baseBranchRules[${i}].branch`, rule.matchType ?? 'glob', rule.branch);
+  });
+
+  result.valid = errors.length === 0;
+  return result;
+}
@@ -0,0 +1,132 @@
+import { minimatch } from 'minimatch';
+import { ConfigLayer, ExtensionConfig, GeneralConfig, RepoInfo, RepoOverride, RuleListMode } from '../common/types';
+import { DEFAULT_CONFIG } from '../common/constants';
+import { migrateConfig } from '../common/migrations';
+import { mergeConfigLayers, RULE_LIST_KEYS } from '../common/configLayers';
+import { parseYaml } from '../common/yaml';
+import { validateConfig } from './ConfigValidator';
+
+/**
+ * Repository-level config, layered over the project's effective config in
+ * this order: the matching repoOverrides entry, then the repository's own
+ * config file.
+ *
+ * Config-as-code: a repository can carry its own naming rules in a
+ * .branchpilot.json (or .yml / .yaml) file at the root of its default
+ * branch. The file is a config layer like an inheriting project's: general
+ * and default values win field by field, and its rule lists are combined
+ * with the project's according to inheritance.ruleLists (default: "prepend").
+ */
+
+/** General settings a repository file cannot change; they stay with the project admins */
+const IGNORED_GENERAL_SETTINGS: Array<keyof GeneralConfig> = ['language', 'allowManualNameOverride', 'duplicateBranches'];
+
+/** A repository config file that cannot be used, with every problem found */
+export class RepoConfigError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly problems: string[],
+  ) {
+    super(`${path}: ${problems.join('; ')}`);
+    this.name = 'RepoConfigError';
+  }
+}
+
+export interface RepoConfigFile {
+  path: string;
+  layer: ConfigLayer;
+  /** Unknown properties and ignored settings */
+  warnings: string[];
+}
+
+/**
+ * Parses a repository config file (JSON or YAML, by extension), upgrades it
+ * to the current schema version and validates it on its own, so messages use
+ * the file's paths. Throws a RepoConfigError listing every problem.
+ */
+export function parseRepoConfigFile(path: string, content: string): RepoConfigFile {
+  let stored: unknown;
+  let migrated: Record<string, unknown>;
+  try {
+    stored = /\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content);
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+      throw new Error('(root): must be an object');
+    }
+    migrated = migrateConfig(stored as Record<string, unknown>).config;
+  } catch (err) {
+    throw new RepoConfigError(path, [err instanceof Error ? err.message : String(err)]);
+  }
+
+  const warnings: string[] = [];
+  const { $schema: _, repoOverrides, ...layer } = migrated as ConfigLayer & { $schema?: string };
+  if (repoOverrides) warnings.push('repoOverrides: ignored in repository config files');
+  if (layer.general) {
+    const general = { ...layer.general };
+    for (const key of IGNORED_GENERAL_SETTINGS) {
+      if (key in general) {
+        warnings.push(`general.${key}: ignored in repository config files`);
+        delete general[key];
+      }
+    }
+    layer.general = general;
+  }
+
+  // Rule lists the file does not set stay empty, so every error points at the file
+  const replaceAll = Object.fromEntries(RULE_LIST_KEYS.map((key) => [key, 'replace' as RuleListMode]));
+  const { inheritance: _merged, ...candidate } = mergeConfigLayers(
+    DEFAULT_CONFIG as ExtensionConfig,
+    { ...layer, inheritance: { enabled: true, ruleLists: replaceAll } },
+  );
+  const validation = validateConfig(layer.inheritance ? { ...candidate, inheritance: { ...layer.inheritance, enabled: true } } : candidate);
+  if (!validation.valid) throw new RepoConfigError(path, validation.errors);
+
+  return { path, layer, warnings: [...warnings, ...validation.warnings] };
+}
+
+/**
+ * Layers a repository config file over the config of the project (with the
+ * repo's entry in repoOverrides already applied, see getRepoConfig).
+ */
+export function applyRepoConfig(config: ExtensionConfig, layer: ConfigLayer): ExtensionConfig {
+  return {
+    ...mergeConfigLayers(config, { ...layer, inheritance: { enabled: true, ruleLists: layer.inheritance?.ruleLists } }),
+    inheritance: config.inheritance,
+  };
+}
+
+/**
+ * Finds the repoOverrides entry for a repository: a key equal to its ID or
+ * name first, then the first key that matches its name as a glob (e.g.
+ * "mobile-*"). Names are compared case-insensitively, like Azure Repos does.
+ */
+export function findRepoOverride(
+  overrides: Record<string, RepoOverride> | undefined,
+  repo: Pick<RepoInfo, 'id' | 'name'>,
+): { key: string; override: RepoOverride } | null {
+  const entries = Object.entries(overrides ?? {});
+  const exact = entries.find(([key]) => key === repo.id || key.toLowerCase() === repo.name.toLowerCase());
+  const match = exact ?? entries.find(([key]) => minimatch(repo.name, key, { nocase: true }));
+  return match ? { key: match[0], override: match[1] } : null;
+}
+
+/**
+ * Applies a repo override: general settings and default values win field by
+ * field, and its rule lists are combined with the project's according to
+ * override.ruleLists (default: "prepend").
+ */
+export function applyRepoOverride(config: ExtensionConfig, override: RepoOverride): ExtensionConfig {
+  const defaults = {
+    ...(override.defaultTemplate !== undefined && { template: override.defaultTemplate }),
+    ...(override.workItemState !== undefined && { workItemState: override.workItemState }),
+  };
+  return {
+    ...mergeConfigLayers(config, {
+      general: override.general,
+      defaults,
+      rulesBySourceBranch: override.rulesBySourceBranch,
+      rulesByWorkItemType: override.rulesByWorkItemType,
+      inheritance: { enabled: true, ruleLists: override.ruleLists },
+    }),
+    inheritance: config.inheritance,
+  };
+}
@@ -0,0 +1,299 @@
+import { minimatch } from 'minimatch';
+import {
+  ConditionalRule,
+  ExtensionConfig,
+  PredicateTrace,
+  RuleCondition,
+  RulePredicate,
+  WorkItemContext,
+} from '../common/types';
+import {
+  PRIORITY_FIELD,
+  SOURCE_BRANCH_RULE_PRIORITY,
+  WORK_ITEM_TYPE_RULE_PRIORITY,
+} from '../common/constants';
+import { formatFieldValue } from '../common/utils';
+
+/** The facts a rule condition is evaluated against */
+export interface RuleFacts {
+  sourceBranch: string;
+  workItem: WorkItemContext;
+}
+
+/**
+ * Builds the unified, priority-ordered rule list for a config.
+ *
+ * The legacy `rulesBySourceBranch` and `rulesByWorkItemType` arrays are
+ * converted into conditional rules at fixed priorities, so that without any
+ * explicit `rules` the evaluation order is exactly the historical one:
+ * source-branch rules, then work-item-type rules. The sort is stable, so rules
+ * sharing a priority keep their declaration order.
+ */
+export function toConditionalRules(config: ExtensionConfig): ConditionalRule[] {
+  const fromSourceBranch: ConditionalRule[] = (config.rulesBySourceBranch ?? []).map((rule) => ({
+    name: rule.name,
+    priority: SOURCE_BRANCH_RULE_PRIORITY,
+    when: {
+      match: 'all',
+      predicates: [{ kind: 'sourceBranch', matchType: rule.matchType, match: rule.match }],
+    },
+    prefix: rule.prefix ?? '',
+    template: rule.template,
+    workItemState: rule.workItemState,
+  }));
+
+  const fromWorkItemType: ConditionalRule[] = (config.rulesByWorkItemType ?? []).map((rule) => ({
+    name: `WI type: ${rule.workItemType}`,
+    priority: WORK_ITEM_TYPE_RULE_PRIORITY,
+    when: {
+      match: 'all',
+      predicates: [{ kind: 'workItemType', types: [rule.workItemType] }],
+    },
+    prefix: rule.prefix ?? '',
+    template: rule.template,
+    workItemState: rule.workItemState,
+  }));
+
+  return [...(config.rules ?? []), ...fromSourceBranch, ...fromWorkItemType]
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => (a.rule.priority ?? 0) - (b.rule.priority ?? 0) || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+/** Capture groups collected from regex source-branch predicates */
+export type BranchCaptures = Record<string, string>;
+
+/**
+ * Evaluates a rule condition. An empty predicate list never matches, so a
+ * half-configured rule cannot silently capture every work item.
+ */
+export function evaluateCondition(condition: RuleCondition, facts: RuleFacts): boolean {
+  return matchCondition(condition, facts) !== null;
+}
+
+/**
+ * Like evaluateCondition, but returns the regex capture groups of the
+ * matching source-branch predicates (empty object if there are none), or
+ * null when the condition does not match.
+ */
+export function matchCondition(condition: RuleCondition, facts: RuleFacts): BranchCaptures | null {
+  return traceCondition(condition, facts).captures;
+}
+
+/**
+ * Evaluates a rule condition and records the outcome of every predicate
+ * tested, including errors such as invalid patterns that otherwise count as
+ * a plain no-match.
+ */
+export function traceCondition(
+  condition: RuleCondition,
+  facts: RuleFacts,
+): { captures: BranchCaptures | null; predicates: PredicateTrace[] } {
+  const predicates = condition?.predicates ?? [];
+  const traces: PredicateTrace[] = [];
+  if (predicates.length === 0) return { captures: null, predicates: traces };
+
+  const captures: BranchCaptures = {};
+  let matchedAny = false;
+  for (const predicate of predicates) {
+    let predicateCaptures: BranchCaptures | null;
+    let error: string | undefined;
+    if (predicate.kind === 'sourceBranch') {
+      ({ captures: predicateCaptures, error } = tryCaptureBranchPattern(
+        facts.sourceBranch,
+        predicate.matchType,
+        predicate.match,
+      ));
+    } else {
+      predicateCaptures = evaluatePredicate(predicate, facts) ? {} : null;
+      if (predicate.kind === 'field' && predicate.operator === 'regex') {
+        error = regexError(predicate.value ?? '');
+      }
+    }
+    traces.push({ description: describePredicate(predicate), matched: predicateCaptures !== null, error });
+
+    if (predicateCaptures) {
+      Object.assign(captures, predicateCaptures);
+      matchedAny = true;
+      if (condition.match === 'any') break;
+    } else if (condition.match !== 'any') {
+      return { captures: null, predicates: traces };
+    }
+  }
+  return { captures: matchedAny ? captures : null, predicates: traces };
+}
+
+/** Human-readable description of a predicate, used in evaluation traces */
+export function describePredicate(predicate: RulePredicate): string {
+  switch (predicate.kind) {
+    case 'sourceBranch':
+      return `source branch ${predicate.matchType} "${predicate.match}"`;
+    case 'workItemType':
+      return `work item type is one of [${(predicate.types ?? []).join(', ')}]`;
+    case 'state':
+      return `state is one of [${(predicate.states ?? []).join(', ')}]`;
+    case 'areaPath':
+      return `area path under "${predicate.under}"`;
+    case 'iterationPath':
+      return `iteration path under "${predicate.under}"`;
+    case 'tags':
+      return `tags contain ${predicate.mode === 'any' ? 'any' : 'all'} of [${(predicate.tags ?? []).join(', ')}]`;
+    case 'priority':
+      return `priority between ${predicate.min ?? '-∞'} and ${predicate.max ?? '+∞'}`;
+    case 'field':
+      return predicate.operator === 'exists'
+        ? `field ${predicate.field} is set`
+        : `field ${predicate.field} ${predicate.operator} "${predicate.value ?? ''}"`;
+    default:
+      return 'unknown predicate';
+  }
+}
+
+export function evaluatePredicate(predicate: RulePredicate, facts: RuleFacts): boolean {
+  const { sourceBranch, workItem } = facts;
+
+  switch (predicate.kind) {
+    case 'sourceBranch':
+      return matchesBranchPattern(sourceBranch, predicate.matchType, predicate.match);
+    case 'workItemType':
+      return (predicate.types ?? []).some((t) => t.toLowerCase() === workItem.type.toLowerCase());
+    case 'state':
+      return (predicate.states ?? []).some((s) => s.toLowerCase() === workItem.state.toLowerCase());
+    case 'areaPath':
+      return isUnderPath(workItem.areaPath, predicate.under);
+    case 'iterationPath':
+      return isUnderPath(workItem.iterationPath, predicate.under);
+    case 'tags': {
+      const present = new Set((workItem.tags ?? []).map((t) => t.toLowerCase()));
+      const wanted = (predicate.tags ?? []).map((t) => t.toLowerCase());
+      if (wanted.length === 0) return false;
+      return predicate.mode === 'any'
+        ? wanted.some((t) => present.has(t))
+        : wanted.every((t) => present.has(t));
+    }
+    case 'priority': {
+      const raw = workItem.fields?.[PRIORITY_FIELD];
+      if (raw === undefined || raw === null || raw === '') return false;
+      const priority = Number(raw);
+      if (Number.isNaN(priority)) return false;
+      if (predicate.min !== undefined && priority < predicate.min) return false;
+      if (predicate.max !== undefined && priority > predicate.max) return false;
+      return true;
+    }
+    case 'field': {
+      const raw = workItem.fields?.[predicate.field];
+      const value = formatFieldValue(raw);
+      switch (predicate.operator) {
+        case 'exists':
+          return value.length > 0;
+        case 'equals':
+          return value.toLowerCase() === (predicate.value ?? '').toLowerCase();
+        case 'contains':
+          return value.toLowerCase().includes((predicate.value ?? '').toLowerCase());
+        case 'regex':
+          try {
+            return new RegExp(predicate.value ?? '').test(value);
+          } catch {
+            return false;
+          }
+        default:
+          return false;
+      }
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Tests a branch name against a glob or regex pattern.
+ * Invalid patterns never match.
+ */
+export function matchesBranchPattern(
+  branch: string,
+  matchType: 'glob' | 'regex',
+  pattern: string,
+): boolean {
+  return captureBranchPattern(branch, matchType, pattern) !== null;
+}
+
+/**
+ * Matches a branch name and returns the regex capture groups, keyed both by
+ * index ("0" is the whole match, "1", "2", …) and by group name. Globs have no
+ * captures and return an empty object. Returns null when there is no match or
+ * the pattern is invalid.
+ */
+export function captureBranchPattern(
+  branch: string,
+  matchType: 'glob' | 'regex',
+  pattern: string,
+): BranchCaptures | null {
+  return tryCaptureBranchPattern(branch, matchType, pattern).captures;
+}
+
+/** Like captureBranchPattern, but reports why an invalid pattern failed */
+export function tryCaptureBranchPattern(
+  branch: string,
+  matchType: 'glob' | 'regex',
+  pattern: string,
+): { captures: BranchCaptures | null; error?: string } {
+  try {
+    if (matchType === 'glob') {
+      return { captures: minimatch(branch, pattern, { nocase: true, matchBase: false }) ? {} : null };
+    }
+    const m = new RegExp(pattern).exec(branch);
+    if (!m) return { captures: null };
+    const captures: BranchCaptures = {};
+    m.forEach((value, index) => {
+      captures[String(index)] = value ?? '';
+    });
+    for (const [name, value] of Object.entries(m.groups ?? {})) {
+      captures[name] = value ?? '';
+    }
+    return { captures };
+  } catch (err) {
+    // Invalid pattern — never matches
+    return { captures: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Returns the field reference names that the conditions of the given rules
+ * read, so they can be requested along with the work item.
+ */
+export function collectConditionFields(rules: Array<Pick<ConditionalRule, 'when'>>): string[] {
+  const fields = new Set<string>();
+  for (const rule of rules) {
+    for (const predicate of rule.when?.predicates ?? []) {
+      if (predicate.kind === 'priority') fields.add(PRIORITY_FIELD);
+      if (predicate.kind === 'field' && predicate.field) fields.add(predicate.field);
+    }
+  }
+  return [...fields];
+}
+
+/**
+ * Returns why a branch pattern is invalid, or undefined when it is valid.
+ * Globs are always valid: minimatch matches malformed parts literally.
+ */
+export function patternError(matchType: 'glob' | 'regex', pattern: string): string | undefined {
+  return matchType === 'regex' ? regexError(pattern) : undefined;
+}
+
+/** Case-insensitive "path equals or is below" check for area/iteration paths */
+function isUnderPath(path: string | undefined, under: string): boolean {
+  if (!path || !under) return false;
+  const p = path.toLowerCase();
+  const u = under.toLowerCase().replace(/\\+$/, '');
+  return p === u || p.startsWith(`${u}\\`);
+}
+
+/** Returns the syntax error of a regex pattern, or undefined if it is valid */
+function regexError(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
@@ -1,56 +1,58 @@
-import { minimatch } from 'minimatch';
-import { ExtensionConfig, ResolvedRule, WorkItemContext } from '../common/types';
-import { sanitizeBranchName } from '../common/utils';
+import {
+  BaseBranchRule,
+  BaseBranchSuggestion,
+  ConditionalRule,
+  EvaluationTrace,
+  ExtensionConfig,
+  ResolvedRule,
+  RuleTrace,
+  TransformationStep,
+  UserContext,
+  WorkItemContext,
+} from '../common/types';
+import { sanitizeBranchName, shortenTitle, truncationCandidates } from '../common/utils';
+import { DEFAULT_CONFIG, MAX_ANCESTOR_DEPTH } from '../common/constants';
 import { TemplateRenderer } from './TemplateRenderer';
+import {
+  collectConditionFields,
+  matchCondition,
+  matchesBranchPattern,
+  RuleFacts,
+  toConditionalRules,
+  traceCondition,
+} from './RuleConditions';
 
 /**
  * RulesEngine resolves the active branch naming rule and renders the final
  * branch name according to the following precedence:
  *
- *   1. rulesBySourceBranch  (first match wins — glob or regex)
- *   2. rulesByWorkItemType  (first match wins — case-insensitive)
- *   3. defaults
+ *   1. rules                (conditional rules, ordered by priority — default 0)
+ *   2. rulesBySourceBranch  (first match wins — glob or regex; priority 1000)
+ *   3. rulesByWorkItemType  (first match wins — case-insensitive; priority 2000)
+ *   4. defaults
+ *
+ * The two legacy arrays are converted into conditional rules when the engine
+ * is created (see toConditionalRules), so all rules go through one evaluator.
  */
 export class RulesEngine {
   private renderer = new TemplateRenderer();
-
-  constructor(private config: ExtensionConfig) {}
+  private rules: ConditionalRule[];
 
   /**
-   * Resolves which rule applies for the given source branch and work item type.
+   * @param user the signed-in user, for {user.*} tokens (they render empty
+   *             without one)
    */
-  resolveRule(sourceBranch: string, workItemType: string): ResolvedRule {
-    // 1. Source-branch rules
-    for (const rule of this.config.rulesBySourceBranch ?? []) {
-      if (this.matchesBranch(sourceBranch, rule.matchType, rule.match)) {
-        return {
-          template: rule.template,
-          prefix: rule.prefix ?? '',
-          workItemState: rule.workItemState,
-          matchedRuleName: rule.name,
-        };
-      }
-    }
-
-    // 2. Work-item-type rules
-    for (const rule of this.config.rulesByWorkItemType ?? []) {
-      if (rule.workItemType.toLowerCase() === workItemType.toLowerCase()) {
-        return {
-          template: rule.template,
-          prefix: rule.prefix ?? '',
-          workItemState: rule.workItemState,
-          matchedRuleName: `WI type: ${rule.workItemType}`,
-        };
-      }
-    }
+  constructor(private config: ExtensionConfig, private user?: UserContext) {
+    this.rules = toConditionalRules(config);
+  }
 
-    // 3. Default
-    return {
-      template: this.config.defaults.template,
-      prefix: '',
-      workItemState: this.config.defaults.workItemState,
-      matchedRuleName: 'default',
-    };
+  /**
+   * Resolves which rule applies for the given source branch and work item.
+   * Passing only the work item type is supported for callers that have no
+   * full work item context; predicates on other facts then never match.
+   */
+  resolveRule(sourceBranch: string, workItem: WorkItemContext | string): ResolvedRule {
+    return this.evaluateRules(sourceBranch, workItem).rule;
   }
 
   /**
@@ -58,17 +60,14 @@ export class RulesEngine {
    *
    * Steps:
    *   1. Resolve rule
-   *   2. Render template tokens
-   *   3. Sanitize (non-alnum → replacement, lowercase, max length)
+   *   2. Shorten the title (abbreviations, stop words)
+   *   3. Render template tokens
+   *   4. Sanitize (non-alnum → replacement, lowercase)
+   *   5. If too long, shorten only the title (see general.truncation) and
+   *      re-render, so every other template segment stays intact
    */
   computeBranchName(workItem: WorkItemContext, sourceBranch: string): string {
-    const rule = this.resolveRule(sourceBranch, workItem.type);
-    const raw = this.renderer.render(rule.template, {
-      workItem,
-      prefix: rule.prefix,
-    });
-
-    return sanitizeBranchName(raw, this.config.general);
+    return this.computeWithRule(workItem, sourceBranch).branchName;
   }
 
   /**
@@ -78,33 +77,178 @@ export class RulesEngine {
     workItem: WorkItemContext,
     sourceBranch: string,
   ): { branchName: string; rule: ResolvedRule } {
-    const rule = this.resolveRule(sourceBranch, workItem.type);
-    const raw = this.renderer.render(rule.template, {
-      workItem,
+    const { branchName, rule } = this.computeWithTrace(workItem, sourceBranch);
+    return { branchName, rule };
+  }
+
+  /**
+   * Like computeWithRule, but also returns the evaluation trace: every rule
+   * considered with the outcome of each predicate, and every transformation
+   * applied to the rendered template.
+   */
+  computeWithTrace(
+    workItem: WorkItemContext,
+    sourceBranch: string,
+  ): { branchName: string; rule: ResolvedRule; trace: EvaluationTrace } {
+    const { general } = this.config;
+    const { rule, trace: rules } = this.evaluateRules(sourceBranch, workItem);
+    const steps: TransformationStep[] = [];
+    const renderWithTitle = (title: string) => this.renderer.render(rule.template, {
+      workItem: { ...workItem, title },
       prefix: rule.prefix,
+      match: rule.captures,
+      user: this.user,
     });
-    const branchName = sanitizeBranchName(raw, this.config.general);
-    return { branchName, rule };
+    const sanitizeUntruncated = (raw: string, trace?: TransformationStep[]) =>
+      sanitizeBranchName(raw, { ...general, maxLength: Number.POSITIVE_INFINITY }, trace);
+
+    const title = shortenTitle(workItem.title, general);
+    if (title !== workItem.title) steps.push({ step: 'shorten', value: title });
+    const raw = renderWithTitle(title);
+    steps.push({ step: 'render', value: raw });
+    let branchName = sanitizeUntruncated(raw, steps);
+
+    if (branchName.length > general.maxLength) {
+      let fitted: string | undefined;
+      for (const candidate of truncationCandidates(title, general.truncation)) {
+        const name = sanitizeUntruncated(renderWithTitle(candidate));
+        if (name.length <= general.maxLength) {
+          fitted = name;
+          break;
+        }
+      }
+      // Even an empty title does not fit: fall back to truncating the whole name
+      branchName = fitted ?? sanitizeBranchName(raw, general);
+      steps.push({ step: 'truncate', value: branchName });
+    }
+
+    return {
+      branchName,
+      rule,
+      trace: {
+        sourceBranch,
+        rules,
+        matchedRuleName: rule.matchedRuleName ?? 'default',
+        template: rule.template,
+        steps,
+        branchName,
+      },
+    };
+  }
+
+  /**
+   * Returns how many parent levels must be fetched for this config: 0 when no
+   * template uses {parent.*} or {ancestor:…} tokens, otherwise
+   * `general.ancestorDepth` (default 3, at most MAX_ANCESTOR_DEPTH; 0 disables
+   * the walk).
+   */
+  getAncestorDepth(): number {
+    if (!this.renderer.usesAncestorTokens(this.getTemplates())) return 0;
+    const depth = Math.floor(this.config.general.ancestorDepth ?? DEFAULT_CONFIG.general.ancestorDepth);
+    return Math.max(0, Math.min(depth, MAX_ANCESTOR_DEPTH));
+  }
+
+  /**
+   * Returns the work item field reference names the active config needs:
+   * `{wi.field:…}` tokens in any template (defaults, rules, repo overrides)
+   * plus fields read by rule conditions.
+   */
+  getReferencedFields(): string[] {
+    const fields = new Set([
+      ...this.renderer.collectFieldReferences(this.getTemplates()),
+      ...collectConditionFields(this.rules),
+      ...collectConditionFields(this.config.baseBranchRules ?? []),
+    ]);
+    return [...fields];
   }
 
-  // ──────────────────────────────────────────────────────────────────
-  // Private helpers
-  // ──────────────────────────────────────────────────────────────────
-
-  private matchesBranch(
-    branch: string,
-    matchType: 'glob' | 'regex',
-    pattern: string,
-  ): boolean {
-    try {
-      if (matchType === 'glob') {
-        return minimatch(branch, pattern, { nocase: true, matchBase: false });
-      } else {
-        return new RegExp(pattern).test(branch);
+  /** Every template of the config: defaults, rules and repo overrides */
+  private getTemplates(): string[] {
+    return [
+      this.config.defaults.template,
+      ...this.rules.map((r) => r.template),
+      ...Object.values(this.config.repoOverrides ?? {}).flatMap((o) => [
+        o.defaultTemplate ?? '',
+        ...(o.rulesBySourceBranch ?? []).map((r) => r.template),
+        ...(o.rulesByWorkItemType ?? []).map((r) => r.template),
+      ]),
+    ];
+  }
+
+  /**
+   * Suggests the base branch to preselect for a work item, from the
+   * `baseBranchRules` evaluated by priority. A rule applies when its
+   * condition matches and at least one of `branches` matches its pattern;
+   * among several matches the latest (highest version) is chosen.
+   * Returns null when no rule applies.
+   */
+  suggestBaseBranch(workItem: WorkItemContext, branches: string[]): BaseBranchSuggestion | null {
+    const facts: RuleFacts = { sourceBranch: '', workItem };
+    const rules: BaseBranchRule[] = (this.config.baseBranchRules ?? [])
+      .map((rule, index) => ({ rule, index }))
+      .sort((a, b) => (a.rule.priority ?? 0) - (b.rule.priority ?? 0) || a.index - b.index)
+      .map(({ rule }) => rule);
+
+    for (const rule of rules) {
+      if (!rule.branch || !matchCondition(rule.when, facts)) continue;
+      const candidates = branches.filter((b) => matchesBranchPattern(b, rule.matchType ?? 'glob', rule.branch));
+      if (candidates.length === 0) continue;
+      const [latest] = candidates.sort(compareVersionsDescending);
+      return { branch: latest, ruleName: rule.name };
+    }
+    return null;
+  }
+
+  /**
+   * Evaluates the rules in priority order. The first matching rule wins; the
+   * trace records every rule, marking those after the winner as skipped.
+   */
+  private evaluateRules(
+    sourceBranch: string,
+    workItem: WorkItemContext | string,
+  ): { rule: ResolvedRule; trace: RuleTrace[] } {
+    const facts: RuleFacts = {
+      sourceBranch,
+      workItem: typeof workItem === 'string'
+        ? { id: 0, title: '', type: workItem, state: '' }
+        : workItem,
+    };
+
+    const trace: RuleTrace[] = [];
+    let resolved: ResolvedRule | undefined;
+    for (const rule of this.rules) {
+      const ruleName = rule.name;
+      const priority = rule.priority ?? 0;
+      if (resolved) {
+        trace.push({ ruleName, priority, outcome: 'skipped', predicates: [] });
+        continue;
+      }
+      const { captures, predicates } = traceCondition(rule.when, facts);
+      trace.push({ ruleName, priority, outcome: captures ? 'matched' : 'noMatch', predicates });
+      if (captures) {
+        resolved = {
+          template: rule.template,
+          prefix: rule.prefix ?? '',
+          workItemState: rule.workItemState,
+          matchedRuleName: rule.name,
+          captures,
+        };
       }
-    } catch {
-      // Invalid pattern — skip
-      return false;
     }
+
+    return {
+      rule: resolved ?? {
+        template: this.config.defaults.template,
+        prefix: '',
+        workItemState: this.config.defaults.workItemState,
+        matchedRuleName: 'default',
+      },
+      trace,
+    };
   }
 }
+
+/** Orders branch names by embedded version numbers, latest first ("2.10" before "2.9") */
+function compareVersionsDescending(a: string, b: string): number {
+  return b.localeCompare(a, undefined, { numeric: true, sensitivity: 'base' });
+}
@@ -0,0 +1,46 @@
+import { ExtensionConfig, UserContext, WorkItemContext } from '../common/types';
+import { RulesEngine } from './RulesEngine';
+
+/** The outcome of running one work item through a config */
+export interface SimulationResult {
+  workItem: WorkItemContext;
+  branchName: string;
+  matchedRuleName: string;
+  /** The state change the rule would apply, if any */
+  stateTransition?: { from: string; to: string };
+  /** Set when the name could not be computed (e.g. unknown template filter) */
+  error?: string;
+}
+
+/**
+ * Runs a set of work items through a (possibly unsaved) config, as the
+ * create-branch dialog would for the given source branch. Errors are reported
+ * per work item so one broken template does not hide the other results.
+ */
+export function simulate(
+  config: ExtensionConfig,
+  workItems: WorkItemContext[],
+  sourceBranch: string,
+  user?: UserContext,
+): SimulationResult[] {
+  const engine = new RulesEngine(config, user);
+  return workItems.map((workItem) => {
+    try {
+      const { branchName, rule } = engine.computeWithRule(workItem, sourceBranch);
+      const target = rule.workItemState?.enabled ? rule.workItemState.state : '';
+      return {
+        workItem,
+        branchName,
+        matchedRuleName: rule.matchedRuleName ?? 'default',
+        stateTransition: target && target !== workItem.state ? { from: workItem.state, to: target } : undefined,
+      };
+    } catch (err) {
+      return {
+        workItem,
+        branchName: '',
+        matchedRuleName: engine.resolveRule(sourceBranch, workItem).matchedRuleName ?? 'default',
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  });
+}
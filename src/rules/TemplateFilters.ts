@@ -0,0 +1,137 @@
+import { sanitizeBranchSegment } from '../common/utils';
+
+/**
+ * A template filter transforms the resolved value of a token.
+ * Filters are chained with `|` and may take `:`-separated arguments:
+ *
+ *   {wi.title|slug|max:30}
+ *   {wi.id|pad:6}
+ */
+export type TemplateFilter = (value: string, args: string[]) => string;
+
+/**
+ * Thrown when a template references an unknown filter or passes invalid
+ * arguments to a known one.
+ */
+export class TemplateFilterError extends Error {
+  constructor(
+    message: string,
+    public readonly filter: string,
+  ) {
+    super(message);
+    this.name = 'TemplateFilterError';
+  }
+}
+
+/**
+ * Built-in filters:
+ *   lower        → lowercase
+ *   upper        → uppercase
+ *   trim         → strip surrounding whitespace
+ *   slug         → lowercase, non-alnum → "-", collapsed
+ *   max:N        → keep at most N characters
+ *   words:N      → keep at most N words
+ *   initials     → first letter of each word ("John Doe" → "JD")
+ *   pad:N[:C]    → left-pad to N characters with C (default "0")
+ *   replace:A:B  → replace every occurrence of A with B
+ */
+export const BUILT_IN_FILTERS: Readonly<Record<string, TemplateFilter>> = {
+  lower: (value) => value.toLowerCase(),
+  upper: (value) => value.toUpperCase(),
+  trim: (value) => value.trim(),
+  slug: (value) => sanitizeBranchSegment(value.toLowerCase(), '-'),
+  max: (value, args) => value.slice(0, requireCount('max', args[0])).trim(),
+  words: (value, args) =>
+    value.split(/\s+/).filter(Boolean).slice(0, requireCount('words', args[0])).join(' '),
+  initials: (value) =>
+    value
+      .split(/[\s._-]+/)
+      .filter(Boolean)
+      .map((word) => word[0].toUpperCase())
+      .join(''),
+  pad: (value, args) => value.padStart(requireCount('pad', args[0]), args[1] || '0'),
+  replace: (value, args) => {
+    if (!args[0]) {
+      throw new TemplateFilterError('Filter "replace" requires a search argument.', 'replace');
+    }
+    return value.split(args[0]).join(args[1] ?? '');
+  },
+};
+
+/** How many arguments each built-in filter takes: [min, max] */
+const FILTER_ARITY: Readonly<Record<string, [number, number]>> = {
+  lower: [0, 0],
+  upper: [0, 0],
+  trim: [0, 0],
+  slug: [0, 0],
+  max: [1, 1],
+  words: [1, 1],
+  initials: [0, 0],
+  pad: [1, 2],
+  replace: [1, 2],
+};
+
+/**
+ * Splits a filter expression like `max: 30` into its name and arguments.
+ * Arguments are trimmed, except those of "replace": they are literal text,
+ * where a space is a valid search (`replace: :_`).
+ */
+export function parseFilterExpression(expression: string): { name: string; args: string[] } {
+  const [rawName, ...rawArgs] = expression.split(':');
+  const name = rawName.trim();
+  return { name, args: name === 'replace' ? rawArgs : rawArgs.map((arg) => arg.trim()) };
+}
+
+/**
+ * Checks a filter expression without a value to apply it to: the filter
+ * must exist and get the number and kind of arguments it expects.
+ * Returns the error message, or null when the expression is valid.
+ */
+export function checkFilterExpression(expression: string): string | null {
+  const { name, args } = parseFilterExpression(expression);
+  const filter = BUILT_IN_FILTERS[name];
+  if (!filter) return `Unknown template filter "${name}".`;
+
+  const [min, max] = FILTER_ARITY[name];
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? String(min) : `${min} to ${max}`;
+    return `Filter "${name}" takes ${expected} argument${max === 1 ? '' : 's'}, got ${args.length}.`;
+  }
+  try {
+    // The filters check their own arguments, whatever the value
+    filter('', args);
+  } catch (err) {
+    if (err instanceof TemplateFilterError) return err.message;
+    throw err;
+  }
+  return null;
+}
+
+/**
+ * Applies a chain of filter expressions to a value, left to right.
+ * Throws TemplateFilterError on unknown filters or invalid arguments.
+ */
+export function applyFilters(value: string, expressions: string[]): string {
+  return expressions.reduce((current, expression) => {
+    const { name, args } = parseFilterExpression(expression);
+    const filter = BUILT_IN_FILTERS[name];
+    if (!filter) {
+      throw new TemplateFilterError(
+        `Unknown template filter "${name}". Available filters: ${Object.keys(BUILT_IN_FILTERS).join(', ')}.`,
+        name,
+      );
+    }
+    return filter(current, args);
+  }, value);
+}
+
+function requireCount(filter: string, arg: string | undefined): number {
+  const n = Number(arg);
+  if (!arg || !Number.isInteger(n) || n < 0) {
+    throw new TemplateFilterError(
+      `Filter "${filter}" requires a non-negative integer argument (e.g. ${filter}:10).`,
+      filter,
+    );
+  }
+  return n;
+}
@@ -1,8 +1,16 @@
-import { WorkItemContext } from '../common/types';
+import { AncestorWorkItem, UserContext, ValidationResult, WorkItemContext } from '../common/types';
+import { formatFieldValue } from '../common/utils';
+import { applyFilters, BUILT_IN_FILTERS, checkFilterExpression } from './TemplateFilters';
 
 export interface TemplateContext {
   workItem: WorkItemContext;
   prefix: string;
+  /** Capture groups from the matched source branch regex */
+  match?: Record<string, string>;
+  /** The signed-in user, for {user.*} tokens */
+  user?: UserContext;
+  /** Reference time for {date:…} tokens (default: now) */
+  now?: Date;
 }
 
 /**
@@ -14,22 +22,125 @@ export interface TemplateContext {
  *   {wi.type}      → work item type (e.g. "Bug")
  *   {wi.state}     → work item state (e.g. "Active")
  *   {wi.assignedTo}→ assigned-to display name (empty string if unset)
+ *   {wi.field:Ref} → value of any work item field by reference name
+ *                    (e.g. {wi.field:Custom.Component}); empty if not fetched
  *   {prefix}       → the prefix resolved from the matched rule
+ *   {match.N}      → capture group N (or named group) of the source branch
+ *                    regex, e.g. {match.version} for `^release/(?<version>.+)$`
+ *   {date:FORMAT}  → current date; FORMAT may use YYYY, YY, MM, DD, HH, mm
+ *                    (e.g. {date:YYYYMMDD} → "20250314")
+ *   {iteration.leaf} → last segment of the iteration path (e.g. "Sprint 42")
+ *   {area.leaf}    → last segment of the area path (e.g. "Checkout")
+ *   {user.alias}   → current user's alias ("jdoe" for "jdoe@contoso.com")
+ *   {user.initials}→ current user's initials ("JD" for "John Doe")
+ *   {parent.id}    → parent work item ID; also .title, .type and .state
+ *   {ancestor:Epic.id} → nearest ancestor of the given type (id, title,
+ *                    type or state); empty when there is none
+ *
+ * Parent and ancestor tokens read `workItem.ancestors`, which callers fetch
+ * only when usesAncestorTokens() reports that a template needs them.
+ *
+ * Tokens may be followed by a filter pipeline, e.g. `{wi.title|slug|max:30}`
+ * (see TemplateFilters for the built-in filters).
  */
 export class TemplateRenderer {
   /**
    * Renders the template with the given context.
-   * Unknown tokens are replaced with an empty string.
+   * Unknown tokens are replaced with an empty string; unknown filters throw
+   * a TemplateFilterError.
    */
   render(template: string, context: TemplateContext): string {
-    return template.replace(/\{([^}]+)\}/g, (_, token: string) => {
-      return this.resolveToken(token.trim(), context);
+    return template.replace(/\{([^}]+)\}/g, (_, expression: string) => {
+      const [token, ...filters] = expression.split('|');
+      const value = this.resolveToken(token.trim(), context);
+      return filters.length > 0 ? applyFilters(value, filters) : value;
     });
   }
 
+  /**
+   * Checks the filter pipelines of a template without rendering it.
+   * Reports unknown filters and missing, extra or invalid arguments as errors.
+   */
+  validate(template: string): ValidationResult {
+    const errors: string[] = [];
+    const pattern = /\{([^}]+)\}/g;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(template)) !== null) {
+      const [, ...filters] = m[1].split('|');
+      for (const expression of filters) {
+        const error = checkFilterExpression(expression);
+        if (error) errors.push(`${error.replace(/\.$/, '')} in "{${m[1]}}".`);
+      }
+    }
+    return { valid: errors.length === 0, errors, warnings: [] };
+  }
+
+  /**
+   * Returns the tokens of a template that are not supported (they would
+   * always render empty), e.g. "wi.titel" for `{wi.titel|slug}`.
+   */
+  unknownTokens(template: string): string[] {
+    const unknown: string[] = [];
+    const pattern = /\{([^}]+)\}/g;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(template)) !== null) {
+      const token = m[1].split('|')[0].trim();
+      if (!isKnownToken(token)) unknown.push(token);
+    }
+    return unknown;
+  }
+
+  /**
+   * Returns the field reference names used by `{wi.field:…}` tokens in the
+   * given templates, so callers can request exactly those fields.
+   */
+  collectFieldReferences(templates: string[]): string[] {
+    const refs = new Set<string>();
+    for (const template of templates) {
+      const pattern = /\{\s*wi\.field:([^}|]+)/g;
+      let m: RegExpExecArray | null;
+      while ((m = pattern.exec(template)) !== null) {
+        refs.add(m[1].trim());
+      }
+    }
+    return [...refs];
+  }
+
+  /** True when any of the templates uses {parent.*} or {ancestor:…} tokens */
+  usesAncestorTokens(templates: string[]): boolean {
+    return templates.some((t) => /\{\s*(parent\.|ancestor:)/.test(t));
+  }
+
   private resolveToken(token: string, context: TemplateContext): string {
     const { workItem, prefix } = context;
 
+    if (token.startsWith('match.')) {
+      return context.match?.[token.slice('match.'.length)] ?? '';
+    }
+
+    if (token.startsWith('wi.field:')) {
+      return formatFieldValue(workItem.fields?.[token.slice('wi.field:'.length).trim()]);
+    }
+
+    if (token.startsWith('parent.')) {
+      return ancestorProperty(workItem.ancestors?.[0], token.slice('parent.'.length));
+    }
+
+    if (token.startsWith('ancestor:')) {
+      // The type may contain dots or spaces ("Epic", "Product Backlog Item"),
+      // so the property is whatever follows the last dot
+      const spec = token.slice('ancestor:'.length);
+      const dot = spec.lastIndexOf('.');
+      if (dot < 0) return '';
+      const type = spec.slice(0, dot).trim().toLowerCase();
+      const ancestor = workItem.ancestors?.find((a) => a.type.toLowerCase() === type);
+      return ancestorProperty(ancestor, spec.slice(dot + 1).trim());
+    }
+
+    if (token.startsWith('date:')) {
+      return formatDate(context.now ?? new Date(), token.slice('date:'.length));
+    }
+
     switch (token) {
       case 'wi.id':
         return String(workItem.id);
@@ -43,8 +154,74 @@ export class TemplateRenderer {
         return workItem.assignedTo ?? '';
       case 'prefix':
         return prefix;
+      case 'iteration.leaf':
+        return leafOf(workItem.iterationPath);
+      case 'area.leaf':
+        return leafOf(workItem.areaPath);
+      case 'user.alias':
+        return aliasOf(context.user);
+      case 'user.initials':
+        return BUILT_IN_FILTERS.initials(context.user?.displayName ?? '', []);
       default:
         return '';
     }
   }
 }
+
+const SIMPLE_TOKENS = new Set([
+  'wi.id', 'wi.title', 'wi.type', 'wi.state', 'wi.assignedTo', 'prefix',
+  'iteration.leaf', 'area.leaf', 'user.alias', 'user.initials',
+]);
+
+/** Whether resolveToken knows the token (see the list in the class comment) */
+function isKnownToken(token: string): boolean {
+  return SIMPLE_TOKENS.has(token)
+    || /^(match\.|wi\.field:|date:)\S/.test(token)
+    || /^parent\.(id|title|type|state)$/.test(token)
+    || /^ancestor:.+\.\s*(id|title|type|state)$/.test(token);
+}
+
+/** Formats a date with YYYY, YY, MM, DD, HH and mm placeholders (local time) */
+function formatDate(date: Date, format: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+  };
+  return format.replace(/YYYY|YY|MM|DD|HH|mm/g, (part) => parts[part]);
+}
+
+/** Reads id, title, type or state of a parent/ancestor; empty otherwise */
+function ancestorProperty(ancestor: AncestorWorkItem | undefined, property: string): string {
+  if (!ancestor) return '';
+  switch (property) {
+    case 'id':
+      return String(ancestor.id);
+    case 'title':
+      return ancestor.title;
+    case 'type':
+      return ancestor.type;
+    case 'state':
+      return ancestor.state;
+    default:
+      return '';
+  }
+}
+
+/** Last segment of a backslash-separated classification path */
+function leafOf(path: string | undefined): string {
+  return (path ?? '').split('\\').filter(Boolean).pop() ?? '';
+}
+
+/** The part before "@" of the unique name, falling back to the display name */
+function aliasOf(user: UserContext | undefined): string {
+  if (!user) return '';
+  const unique = user.uniqueName ?? '';
+  // On-premises unique names look like "DOMAIN\jdoe"
+  const alias = unique.split('@')[0].split('\\').pop() ?? '';
+  return alias || user.displayName;
+}
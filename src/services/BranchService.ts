@@ -1,6 +1,6 @@
 import { getClient } from 'azure-devops-extension-api';
 import { GitRestClient } from 'azure-devops-extension-api/Git';
-import { CreateBranchParams, CreateBranchResult } from '../common/types';
+import { CreateBranchParams, CreateBranchResult, RepoBranchResult } from '../common/types';
 import { REFS_HEADS, ZERO_OBJECT_ID } from '../common/constants';
 import { shortTimestampSuffix } from '../common/utils';
 import { RepoService } from './RepoService';
@@ -140,6 +140,77 @@ export class BranchService {
     }
   }
 
+  /**
+   * Creates a branch in each repository, one after the other. Without
+   * rollback every repository is tried and failures are reported per repo.
+   * With rollback the first failure stops the run: the branches created so
+   * far are deleted and the remaining repositories are skipped.
+   */
+  async createBranches(targets: CreateBranchParams[], rollbackOnFailure: boolean): Promise<RepoBranchResult[]> {
+    const results: RepoBranchResult[] = [];
+    const created: Array<{ params: CreateBranchParams; result: RepoBranchResult }> = [];
+
+    for (const params of targets) {
+      const base = { repoId: params.repoId, repoName: params.repoName, branchName: params.branchName };
+      const result = await this.createBranch(params);
+      if (result.success) {
+        const entry: RepoBranchResult = { ...base, branchName: result.branchName!, status: 'created' };
+        results.push(entry);
+        created.push({ params, result: entry });
+        continue;
+      }
+
+      results.push({ ...base, status: 'failed', error: result.error });
+      if (!rollbackOnFailure) continue;
+
+      logger.warn('Rolling back branches after a failure', { repoId: params.repoId, created: created.length });
+      for (const { params: done, result: entry } of created) {
+        const deleted = await this.deleteBranch(done.projectId, done.repoId, entry.branchName, done.sourceObjectId);
+        if (deleted) entry.status = 'rolledBack';
+        else entry.rollbackFailed = true;
+      }
+      const tried = new Set(results.map((r) => r.repoId));
+      for (const skipped of targets.filter((t) => !tried.has(t.repoId))) {
+        results.push({ repoId: skipped.repoId, repoName: skipped.repoName, branchName: skipped.branchName, status: 'skipped' });
+      }
+      break;
+    }
+    return results;
+  }
+
+  /**
+   * Deletes a branch, provided it still points at objectId (the commit it was
+   * created from), so a branch someone has pushed to in the meantime is kept.
+   */
+  async deleteBranch(projectId: string, repoId: string, branchName: string, objectId: string): Promise<boolean> {
+    try {
+      const client = getClient(GitRestClient);
+      const updateResult = await client.updateRefs(
+        [
+          {
+            name: `${REFS_HEADS}${branchName}`,
+            newObjectId: ZERO_OBJECT_ID,
+            oldObjectId: objectId,
+            isLocked: false,
+            repositoryId: repoId,
+          },
+        ],
+        repoId,
+        projectId,
+      );
+      if (updateResult?.[0]?.success) {
+        logger.info('Branch deleted', { repoId, branchName });
+        this.repoService.invalidateBranchCache(projectId, repoId);
+        return true;
+      }
+      logger.error('Branch deletion failed', { updateResult });
+      return false;
+    } catch (err) {
+      logger.error('Branch deletion threw an error', { repoId, branchName, error: err });
+      return false;
+    }
+  }
+
   /**
    * Suggests an alternative branch name on conflict by appending -2, -3, … or a timestamp.
    */
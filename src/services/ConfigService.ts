@@ -1,16 +1,47 @@
 import * as SDK from 'azure-devops-extension-sdk';
-import { IExtensionDataService, ServiceIds } from '../common/sdk-services';
-import { ExtensionConfig } from '../common/types';
-import { CONFIG_KEY, DEFAULT_CONFIG } from '../common/constants';
+import { IExtensionDataManager, IExtensionDataService, ServiceIds } from '../common/sdk-services';
+import {
+  ConfigLayer,
+  ConfigScope,
+  ConfigVersion,
+  ConfigVersionInfo,
+  ExtensionConfig,
+  RepoInfo,
+  ValidationResult,
+} from '../common/types';
+import { CONFIG_HISTORY_LIMIT, CONFIG_KEY, CURRENT_SCHEMA_VERSION, DEFAULT_CONFIG } from '../common/constants';
+import { ConfigVersionError, migrateConfig, MigrationReport } from '../common/migrations';
+import { editableProjectConfig, mergeConfigLayers } from '../common/configLayers';
 import { deepMerge } from '../common/utils';
+import { validateConfig } from '../rules/ConfigValidator';
+import { applyRepoOverride, findRepoOverride } from '../rules/RepoConfig';
 import { logger } from './Logger';
 
 /**
  * ConfigService manages loading and saving the BranchPilot configuration
- * from Azure DevOps ExtensionDataService, scoped per-project.
+ * from Azure DevOps ExtensionDataService.
+ *
+ * There are two layers: an organization config shared by every project, and
+ * a per-project config. A project either stands alone (legacy configs and
+ * projects that opted out) or inherits from the organization config, storing
+ * only what it changes (see configLayers.ts). Without an organization config
+ * the built-in defaults play its role.
+ *
+ * Saves are conditional: each stored document carries an `__etag`, and a
+ * save based on an outdated read fails with a ConfigConflictError instead of
+ * overwriting someone else's changes. A first save only creates the
+ * document, so it fails the same way when someone else created it first.
+ *
+ * Every save is also recorded as a version in an extension data collection
+ * per scope (see getHistory), with its author, time and an optional comment.
  */
 export class ConfigService {
+  /** `__etag` of each stored config document as last read or written */
+  private etags = new Map<string, number>();
   private cache: ExtensionConfig | null = null;
+  private migration: MigrationReport | null = null;
+  private validation: ValidationResult | null = null;
+  private layers: { organization: ExtensionConfig | null; project: ConfigLayer | null } | null = null;
   private projectId: string;
 
   constructor(projectId: string) {
@@ -18,8 +49,12 @@ export class ConfigService {
   }
 
   /**
-   * Loads the project configuration, merging with defaults.
+   * Loads the effective project configuration: both layers upgraded from
+   * older schema versions (see migrateConfig), combined, and merged with
+   * defaults.
    * Results are cached for the duration of the page session.
+   * Throws a ConfigVersionError when a stored config is newer than this
+   * extension; any other failure falls back to the defaults.
    */
   async load(): Promise<ExtensionConfig> {
     if (this.cache) {
@@ -27,37 +62,34 @@ export class ConfigService {
     }
 
     try {
-      const dataService = await SDK.getService<IExtensionDataService>(
-        ServiceIds.ExtensionDataService,
-      );
-      const accessToken = await SDK.getAccessToken();
-      const extensionId = SDK.getExtensionContext().id;
-      const dataManager = await dataService.getExtensionDataManager(extensionId, accessToken);
-
-      const stored = await dataManager.getValue<ExtensionConfig>(
-        `${CONFIG_KEY}-${this.projectId}`,
-        { defaultValue: null },
-      );
-
-      if (stored) {
-        // Merge stored config with defaults to handle new fields added in future versions
-        this.cache = deepMerge(DEFAULT_CONFIG as unknown as Record<string, unknown>, stored as unknown as Record<string, unknown>) as unknown as ExtensionConfig;
+      this.layers = await this.loadLayers();
+      const { organization, project } = this.layers;
+      const base = organization ?? (DEFAULT_CONFIG as ExtensionConfig);
+
+      if (project?.inheritance?.enabled) {
+        this.cache = mergeConfigLayers(base, project);
+        logger.info('Project config loaded on top of the organization config', { projectId: this.projectId });
+      } else if (project) {
+        this.cache = withDefaults(project);
         logger.info('Config loaded from ExtensionDataService', { projectId: this.projectId });
       } else {
-        this.cache = DEFAULT_CONFIG as ExtensionConfig;
-        logger.info('No stored config found, using defaults');
+        this.cache = base;
+        logger.info(organization ? 'No project config found, using the organization config' : 'No stored config found, using defaults');
+      }
+
+      if (organization || project) {
+        // An invalid stored config is still loaded (invalid rules never match), but reported
+        this.validation = validateConfig(this.cache);
+        if (this.validation.errors.length > 0 || this.validation.warnings.length > 0) {
+          logger.warn('Stored config has validation issues', { projectId: this.projectId, ...this.validation });
+        }
       }
     } catch (err) {
-      // 404 is expected when config hasn't been saved yet - don't log as error
-      const is404 = err && typeof err === 'object' && 
-        ('status' in err && err.status === 404 || 
-         'message' in err && typeof err.message === 'string' && err.message.includes('404'));
-      
-      if (is404) {
-        logger.info('Config not found (not yet saved), using defaults', { projectId: this.projectId });
-      } else {
-        logger.error('Failed to load config, using defaults', err);
+      if (err instanceof ConfigVersionError) {
+        logger.error('Stored config is newer than this extension', err);
+        throw err;
       }
+      logger.error('Failed to load config, using defaults', err);
       this.cache = DEFAULT_CONFIG as ExtensionConfig;
     }
 
@@ -65,45 +97,335 @@ export class ConfigService {
   }
 
   /**
-   * Saves the configuration to ExtensionDataService for the current project.
+   * Loads both stored layers, upgraded to the current schema version: the
+   * organization config (merged with defaults) and the raw project config.
+   * Either is null when it has not been saved yet.
+   */
+  async loadLayers(): Promise<{ organization: ExtensionConfig | null; project: ConfigLayer | null }> {
+    const dataManager = await this.getDataManager();
+    const organization = await this.readConfig(dataManager, 'organization');
+    const project = await this.readConfig(dataManager, 'project');
+    return {
+      organization: organization ? withDefaults(organization) : null,
+      project: project as ConfigLayer | null,
+    };
+  }
+
+  /**
+   * Loads the configs as the settings page edits them: the project config
+   * (resolved against the organization config when inheriting, see
+   * editableProjectConfig) and the stored organization config, if any.
+   */
+  async loadForEditing(): Promise<{ project: ExtensionConfig; organization: ExtensionConfig | null }> {
+    const effective = await this.load();
+    const organization = this.layers?.organization ?? null;
+    const project = this.layers?.project;
+    if (!project) {
+      // Nothing stored for the project yet: start out inheriting everything
+      return { project: editableProjectConfig(organization ?? effective, {}), organization };
+    }
+    if (project.inheritance?.enabled) {
+      return { project: editableProjectConfig(organization ?? (DEFAULT_CONFIG as ExtensionConfig), project), organization };
+    }
+    return { project: effective, organization };
+  }
+
+  /**
+   * Loads the configs again after a ConfigConflictError on `scope`, as
+   * loadForEditing does. Only the etag of that scope is refreshed: the other
+   * scope keeps the etag of its last read, so its unsaved edits still
+   * conflict with a save made in between.
+   */
+  async reloadAfterConflict(scope: ConfigScope): Promise<{ project: ExtensionConfig; organization: ExtensionConfig | null }> {
+    const otherKey = this.configKey(scope === 'organization' ? 'project' : 'organization');
+    const otherEtag = this.etags.get(otherKey);
+    this.invalidate();
+    try {
+      return await this.loadForEditing();
+    } finally {
+      if (otherEtag === undefined) this.etags.delete(otherKey);
+      else this.etags.set(otherKey, otherEtag);
+    }
+  }
+
+  /**
+   * Saves the configuration to ExtensionDataService for the current project
+   * and records it in the project history.
+   * Inheriting projects pass only their layer (see extractConfigLayer).
+   * Throws a ConfigConflictError when the stored config changed since it was
+   * last loaded.
    */
-  async save(config: ExtensionConfig): Promise<void> {
+  async save(config: ConfigLayer, comment?: string): Promise<void> {
+    const dataManager = await this.getDataManager();
+    const stored = { ...config, schemaVersion: CURRENT_SCHEMA_VERSION };
+    await this.writeConfig(dataManager, 'project', stored);
+
+    this.invalidate();
+    logger.info('Config saved', { projectId: this.projectId });
+    await this.recordVersion(dataManager, 'project', stored, comment);
+  }
+
+  /**
+   * Saves the organization config inherited by every project, and records it
+   * in the organization history. Conflicts are handled as in save.
+   */
+  async saveOrganization(config: ExtensionConfig, comment?: string): Promise<void> {
+    const dataManager = await this.getDataManager();
+    const { inheritance: _, ...organization } = config;
+    const stored = { ...organization, schemaVersion: CURRENT_SCHEMA_VERSION };
+    await this.writeConfig(dataManager, 'organization', stored);
+
+    this.invalidate();
+    logger.info('Organization config saved');
+    await this.recordVersion(dataManager, 'organization', stored, comment);
+  }
+
+  /**
+   * Returns the saved versions of a scope, newest first (at most
+   * CONFIG_HISTORY_LIMIT). Saves made before history existed are not listed.
+   */
+  async getHistory(scope: ConfigScope): Promise<ConfigVersionInfo[]> {
+    const dataManager = await this.getDataManager();
+    const index = await readDocument<HistoryIndex>(dataManager, this.historyCollection(scope), HISTORY_INDEX_ID);
+    return index?.versions ?? [];
+  }
+
+  /** Returns one saved version with its stored document, or null when it does not exist */
+  async getVersion(scope: ConfigScope, version: number): Promise<ConfigVersion | null> {
+    const dataManager = await this.getDataManager();
+    const doc = await readDocument<ConfigVersion & { id: string }>(dataManager, this.historyCollection(scope), versionId(version));
+    if (!doc) return null;
+    const { id: _, ...stored } = doc;
+    return stored;
+  }
+
+  /**
+   * Saves a past version again, as a new version with the given comment.
+   * The document is upgraded to the current schema version first.
+   */
+  async restoreVersion(scope: ConfigScope, version: number, comment: string): Promise<void> {
+    const saved = await this.getVersion(scope, version);
+    if (!saved) throw new Error(`Version ${version} not found`);
+
+    const { config } = migrateConfig(saved.config);
+    if (scope === 'organization') {
+      await this.saveOrganization(withDefaults(config), comment);
+    } else {
+      await this.save(config as ConfigLayer, comment);
+    }
+    logger.info('Config version restored', { scope, version });
+  }
+
+  /**
+   * Returns what the last load upgraded, or null when the stored config
+   * already had the current schema version (or has been saved since).
+   */
+  getMigrationReport(): MigrationReport | null {
+    return this.migration;
+  }
+
+  /** Returns the validation issues of the stored config found by the last load, if any */
+  getValidationResult(): ValidationResult | null {
+    return this.validation;
+  }
+
+  /** Invalidates the in-memory cache, forcing a reload on next access */
+  invalidate(): void {
+    this.cache = null;
+    this.migration = null;
+    this.validation = null;
+    this.layers = null;
+  }
+
+  private async getDataManager(): Promise<IExtensionDataManager> {
     const dataService = await SDK.getService<IExtensionDataService>(
       ServiceIds.ExtensionDataService,
     );
     const accessToken = await SDK.getAccessToken();
     const extensionId = SDK.getExtensionContext().id;
-    const dataManager = await dataService.getExtensionDataManager(extensionId, accessToken);
+    return dataService.getExtensionDataManager(extensionId, accessToken);
+  }
 
-    await dataManager.setValue(
-      `${CONFIG_KEY}-${this.projectId}`,
-      { ...config, schemaVersion: 1 },
-    );
+  /**
+   * Adds a saved document to the history of its scope. History is best
+   * effort: the config is already saved, so failures are only logged.
+   */
+  private async recordVersion(
+    dataManager: IExtensionDataManager,
+    scope: ConfigScope,
+    config: Record<string, unknown>,
+    comment?: string,
+  ): Promise<void> {
+    const collection = this.historyCollection(scope);
+    try {
+      const index = await readDocument<HistoryIndex>(dataManager, collection, HISTORY_INDEX_ID);
+      const versions = index?.versions ?? [];
+      const user = SDK.getUser();
+      const info: ConfigVersionInfo = {
+        version: (versions[0]?.version ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        author: { displayName: user.displayName, uniqueName: user.name },
+        ...(comment?.trim() && { comment: comment.trim() }),
+      };
+      await dataManager.setDocument(collection, { id: versionId(info.version), ...info, config });
+      const all = [info, ...versions];
+      await dataManager.setDocument(collection, {
+        ...index,
+        id: HISTORY_INDEX_ID,
+        versions: all.slice(0, CONFIG_HISTORY_LIMIT),
+      });
+      logger.info('Config version recorded', { scope, version: info.version });
+      // Versions dropped from the index can no longer be reached: delete them
+      for (const dropped of all.slice(CONFIG_HISTORY_LIMIT)) {
+        await dataManager.deleteDocument(collection, versionId(dropped.version)).catch((err: unknown) => {
+          logger.warn('Failed to delete an old config version', { scope, version: dropped.version, error: err });
+        });
+      }
+    } catch (err) {
+      logger.warn('Failed to record config version', { scope, error: err });
+    }
+  }
 
-    this.cache = config;
-    logger.info('Config saved', { projectId: this.projectId });
+  /**
+   * Stores a config document, passing the `__etag` of the last read so the
+   * service rejects the write when someone saved in between. A document that
+   * did not exist when read is created instead, which the service rejects
+   * when someone created it in between. To overwrite their changes, load
+   * again and save.
+   */
+  private async writeConfig(
+    dataManager: IExtensionDataManager,
+    scope: ConfigScope,
+    value: Record<string, unknown>,
+  ): Promise<void> {
+    const key = this.configKey(scope);
+    const etag = this.etags.get(key);
+    try {
+      const saved = await (etag === undefined
+        ? dataManager.createDocument(SETTINGS_COLLECTION, { id: key, value })
+        : dataManager.setDocument(SETTINGS_COLLECTION, { id: key, value, __etag: etag })) as SettingsDocument;
+      this.etags.set(key, saved.__etag);
+    } catch (err) {
+      if (!isConflict(err)) throw err;
+      logger.warn('Config changed since it was loaded', { key });
+      throw new ConfigConflictError(scope);
+    }
   }
 
-  /** Invalidates the in-memory cache, forcing a reload on next access */
-  invalidate(): void {
-    this.cache = null;
+  /**
+   * Both layers are stored in the default extension data scope; only
+   * the document key tells the organization config from a project's.
+   */
+  private configKey(scope: ConfigScope): string {
+    return scope === 'organization' ? CONFIG_KEY : `${CONFIG_KEY}-${this.projectId}`;
+  }
+
+  private historyCollection(scope: ConfigScope): string {
+    return scope === 'organization' ? `${CONFIG_KEY}-history` : `${CONFIG_KEY}-history-${this.projectId}`;
+  }
+
+  /** Reads and upgrades a stored config; null when it does not exist */
+  private async readConfig(
+    dataManager: IExtensionDataManager,
+    scope: ConfigScope,
+  ): Promise<Record<string, unknown> | null> {
+    const key = this.configKey(scope);
+    let doc: SettingsDocument | null;
+    try {
+      // setValue/getValue keep values in the $settings collection; reading the
+      // document gives access to its __etag
+      doc = await dataManager.getDocument(SETTINGS_COLLECTION, key, { defaultValue: null }) as SettingsDocument | null;
+    } catch (err) {
+      // 404 is expected when config hasn't been saved yet - don't log as error
+      if (!isNotFound(err)) throw err;
+      doc = null;
+    }
+    // An emptied document still exists: the next save updates it rather than creating it
+    if (doc) this.etags.set(key, doc.__etag);
+    else this.etags.delete(key);
+    if (!doc?.value) {
+      logger.info('Config not found (not yet saved)', { key });
+      return null;
+    }
+    const stored = doc.value;
+
+    const { config, report } = migrateConfig(stored);
+    if (report.changes.length > 0) {
+      this.migration = this.migration
+        ? { ...this.migration, changes: [...this.migration.changes, ...report.changes] }
+        : report;
+      logger.info('Config migrated', { key, ...report });
+    }
+    return config;
   }
 
-  /** Returns the effective config for a given repository (applying repo overrides) */
+  /**
+   * Returns the effective config for a given repository, applying the
+   * matching repo override (see findRepoOverride and applyRepoOverride)
+   */
   getRepoConfig(
     config: ExtensionConfig,
-    repoIdOrName: string,
+    repo: Pick<RepoInfo, 'id' | 'name'>,
   ): ExtensionConfig {
-    const override = config.repoOverrides?.[repoIdOrName];
-    if (!override) return config;
+    const match = findRepoOverride(config.repoOverrides, repo);
+    return match ? applyRepoOverride(config, match.override) : config;
+  }
+}
 
-    return {
-      ...config,
-      defaults: {
-        ...config.defaults,
-        template: override.defaultTemplate ?? config.defaults.template,
-        workItemState: override.workItemState ?? config.defaults.workItemState,
-      },
-    };
+/** Thrown by a save when the stored config changed since it was loaded */
+export class ConfigConflictError extends Error {
+  constructor(public readonly scope: ConfigScope) {
+    super(`The ${scope} configuration was changed by someone else since it was loaded`);
+    this.name = 'ConfigConflictError';
   }
 }
+
+/** Extension data collection behind setValue/getValue */
+const SETTINGS_COLLECTION = '$settings';
+
+/** A value stored with setValue, as a document */
+interface SettingsDocument {
+  id: string;
+  __etag: number;
+  value: Record<string, unknown> | null;
+}
+
+/** History document listing the saved versions of a scope, newest first */
+interface HistoryIndex {
+  id: string;
+  versions: ConfigVersionInfo[];
+}
+
+const HISTORY_INDEX_ID = 'index';
+
+function versionId(version: number): string {
+  return `v${version}`;
+}
+
+function isNotFound(err: unknown): boolean {
+  return !!err && typeof err === 'object' &&
+    ('status' in err && err.status === 404 ||
+     'message' in err && typeof err.message === 'string' && err.message.includes('404'));
+}
+
+/** Whether a document write failed because its __etag is outdated, or a created document exists */
+function isConflict(err: unknown): boolean {
+  return !!err && typeof err === 'object' &&
+    ('status' in err && (err.status === 409 || err.status === 412) ||
+     'message' in err && typeof err.message === 'string' && /InvalidDocumentVersion|DocumentExists|conflict/i.test(err.message));
+}
+
+/** Reads an extension data document; null when it does not exist */
+async function readDocument<T>(dataManager: IExtensionDataManager, collection: string, id: string): Promise<T | null> {
+  try {
+    return (await dataManager.getDocument(collection, id)) as T;
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+/** Merges a stored config with defaults, to handle new optional fields */
+function withDefaults(config: Record<string, unknown> | ConfigLayer): ExtensionConfig {
+  return deepMerge(DEFAULT_CONFIG as unknown as Record<string, unknown>, config as Record<string, unknown>) as unknown as ExtensionConfig;
+}
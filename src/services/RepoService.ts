@@ -1,6 +1,7 @@
 import { getClient } from 'azure-devops-extension-api';
-import { GitRestClient } from 'azure-devops-extension-api/Git';
+import { GitRestClient, GitVersionOptions, GitVersionType, VersionControlRecursionType } from 'azure-devops-extension-api/Git';
 import { BranchInfo, RepoInfo, TagInfo } from '../common/types';
+import { REPO_CONFIG_FILES } from '../common/constants';
 import { stripRefsHeads } from '../common/utils';
 import { logger } from './Logger';
 
@@ -12,6 +13,7 @@ export class RepoService {
   private reposCache: Map<string, RepoInfo[]> = new Map();
   private branchesCache: Map<string, BranchInfo[]> = new Map();
   private tagsCache: Map<string, TagInfo[]> = new Map();
+  private configFileCache: Map<string, { path: string; content: string } | null> = new Map();
 
   /**
    * Returns a list of repositories in the given project.
@@ -33,6 +35,7 @@ export class RepoService {
         id: r.id!,
         name: r.name!,
         defaultBranch: stripRefsHeads(r.defaultBranch ?? 'main'),
+        webUrl: r.webUrl,
       }));
 
       this.reposCache.set(projectId, result);
@@ -109,6 +112,39 @@ export class RepoService {
     }
   }
 
+  /**
+   * Returns the BranchPilot config file at the root of the repository's
+   * default branch (see REPO_CONFIG_FILES), or null when there is none.
+   * Results are cached per `${projectId}/${repoId}`.
+   */
+  async getConfigFile(projectId: string, repo: RepoInfo): Promise<{ path: string; content: string } | null> {
+    const cacheKey = `${projectId}/${repo.id}`;
+    if (this.configFileCache.has(cacheKey)) {
+      return this.configFileCache.get(cacheKey)!;
+    }
+
+    const client = getClient(GitRestClient);
+    const version = { version: repo.defaultBranch, versionType: GitVersionType.Branch, versionOptions: GitVersionOptions.None };
+    let names: string[];
+    try {
+      const items = await client.getItems(repo.id, projectId, '/', VersionControlRecursionType.OneLevel, undefined, undefined, undefined, undefined, version);
+      names = items.map((item) => (item.path ?? '').replace(/^\//, ''));
+    } catch (err) {
+      // Empty repositories have no default branch to read from
+      logger.info('Could not list repository root, assuming no config file', { repoId: repo.id, error: err });
+      names = [];
+    }
+
+    const path = REPO_CONFIG_FILES.find((file) => names.includes(file));
+    const result = path
+      ? { path, content: await client.getItemText(repo.id, path, projectId, undefined, undefined, undefined, undefined, undefined, version) }
+      : null;
+
+    this.configFileCache.set(cacheKey, result);
+    if (result) logger.info('Repository config file loaded', { repoId: repo.id, path });
+    return result;
+  }
+
   /**
    * Returns the objectId of a specific branch.
    */
@@ -146,6 +182,7 @@ export class RepoService {
     this.reposCache.clear();
     this.branchesCache.clear();
     this.tagsCache.clear();
+    this.configFileCache.clear();
   }
 }
 
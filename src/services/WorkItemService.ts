@@ -1,6 +1,13 @@
 import { getClient } from 'azure-devops-extension-api';
-import { WorkItemTrackingRestClient } from 'azure-devops-extension-api/WorkItemTracking';
-import { WorkItemContext } from '../common/types';
+import {
+  WorkItem,
+  WorkItemErrorPolicy,
+  WorkItemExpand,
+  WorkItemTrackingRestClient,
+} from 'azure-devops-extension-api/WorkItemTracking';
+import { AncestorWorkItem, LinkedBranch, WorkItemContext } from '../common/types';
+import { BRANCH_ARTIFACT_REL, HIERARCHY_REVERSE_REL, WORK_ITEM_CONTEXT_FIELDS } from '../common/constants';
+import { encodeBranchForArtifactLink, parseBranchArtifactLink } from '../common/utils';
 import { logger } from './Logger';
 
 export interface WorkItemTypeInfo {
@@ -13,6 +20,9 @@ export interface WorkItemTypeInfo {
  * WorkItemService wraps the Work Item Tracking REST client.
  */
 export class WorkItemService {
+  /** Work items fetched with relations, shared by every ancestor walk of this instance */
+  private relationsCache = new Map<number, Promise<WorkItem>>();
+
   /**
    * Gets available work item types for a project.
    */
@@ -38,9 +48,15 @@ export class WorkItemService {
 
   /**
    * Reads the work item context (id, title, type, state) for a given ID.
+   * `extraFields` lists additional field reference names to fetch (e.g. the
+   * ones referenced by `{wi.field:…}` tokens); they end up in `context.fields`.
    * Returns null if the ID is 0, negative, or the call fails.
    */
-  async getWorkItemContext(workItemId: number, projectId?: string): Promise<WorkItemContext | null> {
+  async getWorkItemContext(
+    workItemId: number,
+    projectId?: string,
+    extraFields: string[] = [],
+  ): Promise<WorkItemContext | null> {
     if (!workItemId || workItemId <= 0) {
       logger.warn('getWorkItemContext called with invalid ID', { workItemId });
       return null;
@@ -50,7 +66,7 @@ export class WorkItemService {
       console.log('[WorkItemService] Getting client...');
       const client = getClient(WorkItemTrackingRestClient);
       console.log('[WorkItemService] Client obtained, fetching work item:', workItemId);
-      const wi = await client.getWorkItem(workItemId, undefined, undefined, undefined);
+      const wi = await this.fetchWorkItem(workItemId, extraFields);
       console.log('[WorkItemService] Work item fetched:', wi);
 
       const workItemType = String(wi.fields?.['System.WorkItemType'] ?? '');
@@ -72,24 +88,144 @@ export class WorkItemService {
         }
       }
 
-      return {
-        id: wi.id!,
-        title: String(wi.fields?.['System.Title'] ?? ''),
-        type: workItemType,
-        state: String(wi.fields?.['System.State'] ?? ''),
-        assignedTo: wi.fields?.['System.AssignedTo']?.displayName,
-        iterationPath: String(wi.fields?.['System.IterationPath'] ?? ''),
-        areaPath: String(wi.fields?.['System.AreaPath'] ?? ''),
-        changedDate: wi.fields?.['System.ChangedDate'] ? String(wi.fields['System.ChangedDate']) : undefined,
-        typeIcon,
-        typeColor,
-      };
+      return { ...this.toContext(wi), typeIcon, typeColor };
     } catch (err) {
       logger.error('Failed to fetch work item', { workItemId, error: err });
       return null;
     }
   }
 
+  /**
+   * Reads the work item contexts for several IDs in one batch call (at most
+   * 200 IDs, the REST API limit). IDs that do not exist or are not readable
+   * are left out. Throws if the call fails.
+   */
+  async getWorkItemContexts(
+    workItemIds: number[],
+    projectId?: string,
+    extraFields: string[] = [],
+  ): Promise<WorkItemContext[]> {
+    const ids = [...new Set(workItemIds.filter((id) => id > 0))].slice(0, 200);
+    if (ids.length === 0) return [];
+
+    const client = getClient(WorkItemTrackingRestClient);
+    const fields = [...new Set([...WORK_ITEM_CONTEXT_FIELDS, ...extraFields])];
+    let items: WorkItem[];
+    try {
+      items = await client.getWorkItems(ids, projectId, fields, undefined, undefined, WorkItemErrorPolicy.Omit);
+    } catch (err) {
+      if (extraFields.length === 0) throw err;
+      logger.warn('Failed to fetch custom fields, retrying with standard fields', { ids, extraFields, error: err });
+      items = await client.getWorkItems(
+        ids, projectId, WORK_ITEM_CONTEXT_FIELDS, undefined, undefined, WorkItemErrorPolicy.Omit,
+      );
+    }
+    // With the Omit policy, missing work items come back as null entries
+    return items.filter((wi): wi is WorkItem => !!wi).map((wi) => this.toContext(wi));
+  }
+
+  /**
+   * Runs a saved work item query and returns the IDs it yields (for tree and
+   * one-hop queries, both ends of every link). `query` is the query ID (GUID)
+   * or its path, e.g. "Shared Queries/Current Sprint". Throws if the query
+   * cannot be found or run.
+   */
+  async runSavedQuery(query: string, projectId: string): Promise<number[]> {
+    const client = getClient(WorkItemTrackingRestClient);
+    const isGuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(query.trim());
+    const queryId = isGuid ? query.trim() : (await client.getQuery(projectId, query.trim())).id;
+
+    const result = await client.queryById(queryId, projectId);
+    const ids = [
+      ...(result.workItems ?? []).map((ref) => ref.id),
+      ...(result.workItemRelations ?? []).flatMap((link) => [link.source?.id, link.target?.id]),
+    ];
+    return [...new Set(ids.filter((id): id is number => typeof id === 'number' && id > 0))];
+  }
+
+  /**
+   * Walks the parent links (System.LinkTypes.Hierarchy-Reverse) of a work
+   * item up to `depth` levels and returns the ancestors, nearest first.
+   * Every work item is fetched at most once per service instance, so repeated
+   * walks (e.g. several work items under the same Epic) stay cheap. Stops
+   * early on a missing parent, a cycle or a failed call.
+   */
+  async getAncestors(workItemId: number, depth: number): Promise<AncestorWorkItem[]> {
+    const ancestors: AncestorWorkItem[] = [];
+    const visited = new Set([workItemId]);
+    let currentId = workItemId;
+
+    try {
+      while (ancestors.length < depth) {
+        const current = await this.fetchWithRelations(currentId);
+        const parentLink = (current.relations ?? []).find((r) => r.rel === HIERARCHY_REVERSE_REL);
+        const parentId = Number(parentLink?.url?.split('/').pop());
+        if (!parentId || visited.has(parentId)) break;
+
+        const parent = await this.fetchWithRelations(parentId);
+        ancestors.push({
+          id: parentId,
+          title: String(parent.fields?.['System.Title'] ?? ''),
+          type: String(parent.fields?.['System.WorkItemType'] ?? ''),
+          state: String(parent.fields?.['System.State'] ?? ''),
+        });
+        visited.add(parentId);
+        currentId = parentId;
+      }
+    } catch (err) {
+      logger.warn('Failed to walk work item ancestors', { workItemId, depth, error: err });
+    }
+    return ancestors;
+  }
+
+  /** Fetches a work item with its relations, once per service instance */
+  private fetchWithRelations(workItemId: number): Promise<WorkItem> {
+    let cached = this.relationsCache.get(workItemId);
+    if (!cached) {
+      const client = getClient(WorkItemTrackingRestClient);
+      cached = client.getWorkItem(workItemId, undefined, undefined, undefined, WorkItemExpand.Relations);
+      // Do not cache failures, so a later walk can retry
+      cached.catch(() => this.relationsCache.delete(workItemId));
+      this.relationsCache.set(workItemId, cached);
+    }
+    return cached;
+  }
+
+  /** Maps a REST work item to the context used by the rules engine */
+  private toContext(wi: WorkItem): WorkItemContext {
+    return {
+      id: wi.id!,
+      title: String(wi.fields?.['System.Title'] ?? ''),
+      type: String(wi.fields?.['System.WorkItemType'] ?? ''),
+      state: String(wi.fields?.['System.State'] ?? ''),
+      assignedTo: wi.fields?.['System.AssignedTo']?.displayName,
+      iterationPath: String(wi.fields?.['System.IterationPath'] ?? ''),
+      areaPath: String(wi.fields?.['System.AreaPath'] ?? ''),
+      changedDate: wi.fields?.['System.ChangedDate'] ? String(wi.fields['System.ChangedDate']) : undefined,
+      tags: String(wi.fields?.['System.Tags'] ?? '')
+        .split(';')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      fields: wi.fields,
+    };
+  }
+
+  /**
+   * Fetches a work item with an explicit field list. Unknown custom fields make
+   * the whole request fail, so on error we retry with the standard fields only.
+   */
+  private async fetchWorkItem(workItemId: number, extraFields: string[]) {
+    const client = getClient(WorkItemTrackingRestClient);
+    const fields = [...new Set([...WORK_ITEM_CONTEXT_FIELDS, ...extraFields])];
+    try {
+      return await client.getWorkItem(workItemId, undefined, fields);
+    } catch (err) {
+      if (extraFields.length === 0) throw err;
+      logger.warn('Failed to fetch custom fields, retrying with standard fields', { workItemId, extraFields, error: err });
+      return client.getWorkItem(workItemId, undefined, WORK_ITEM_CONTEXT_FIELDS);
+    }
+  }
+
   /**
    * Updates the state of a work item.
    */
@@ -116,6 +252,25 @@ export class WorkItemService {
     }
   }
 
+  /**
+   * Reads the Git branches linked to a work item (its ArtifactLink relations
+   * to Git refs). Always fetched fresh, so links added since are included.
+   * Returns an empty list if the work item cannot be read.
+   */
+  async getLinkedBranches(workItemId: number): Promise<LinkedBranch[]> {
+    try {
+      const client = getClient(WorkItemTrackingRestClient);
+      const wi = await client.getWorkItem(workItemId, undefined, undefined, undefined, WorkItemExpand.Relations);
+      return (wi.relations ?? [])
+        .filter((r) => r.rel === BRANCH_ARTIFACT_REL)
+        .map((r) => parseBranchArtifactLink(r.url ?? ''))
+        .filter((link): link is LinkedBranch => link !== null);
+    } catch (err) {
+      logger.warn('Failed to read linked branches', { workItemId, error: err });
+      return [];
+    }
+  }
+
   /**
    * Adds a branch artifact link to a work item.
    *
@@ -132,14 +287,8 @@ export class WorkItemService {
     try {
       const client = getClient(WorkItemTrackingRestClient);
 
-      // Strip refs/heads/ prefix if present
-      const cleanBranch = branchName.startsWith('refs/heads/')
-        ? branchName.slice('refs/heads/'.length)
-        : branchName;
-
       // Build vstfs URI: projectId and repoId separated by %2F, then GB + URL-encoded branch
-      const encoded = encodeURIComponent(cleanBranch).replace(/%2F/gi, '%2F');
-      const artifactUrl = `vstfs:///Git/Ref/${projectId}%2F${repoId}%2FGB${encoded}`;
+      const artifactUrl = `vstfs:///Git/Ref/${projectId}%2F${repoId}%2F${encodeBranchForArtifactLink(branchName)}`;
 
       await client.updateWorkItem(
         [
@@ -147,7 +296,7 @@ export class WorkItemService {
             op: 'add',
             path: '/relations/-',
             value: {
-              rel: 'ArtifactLink',
+              rel: BRANCH_ARTIFACT_REL,
               url: artifactUrl,
               attributes: { name: 'Branch' },
             },
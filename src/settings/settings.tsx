@@ -1,29 +1,78 @@
-import React, { useCallback, useEffect, useReducer, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
 import ReactDOM from 'react-dom';
 import * as SDK from 'azure-devops-extension-sdk';
 
 import {
+  BaseBranchRule,
+  ConditionalRule,
+  ConfigChange,
+  ConfigLayer,
+  ConfigScope,
+  ConfigVersionInfo,
+  DuplicateBranchPolicy,
   ExtensionConfig,
+  RuleCondition,
+  RuleListKey,
+  RuleListMode,
+  RulePredicate,
   SourceBranchRule,
+  TruncationStrategy,
+  UserContext,
+  ValidationResult,
+  WorkItemContext,
   WorkItemTypeRule,
 } from '../common/types';
-import { ConfigService } from '../services/ConfigService';
+import { ConfigConflictError, ConfigService } from '../services/ConfigService';
+import { ConfigVersionError, migrateConfig, MigrationReport } from '../common/migrations';
+import { CONFIG_SCHEMA } from '../common/configSchema';
+import { diffConfigs } from '../common/configDiff';
+import { mergeConfigs, mergeImportedConfig } from '../common/configMerge';
+import { parseYaml, stringifyYaml } from '../common/yaml';
+import { applyPreset, BRANCHING_PRESETS, getPreset, PresetApplyMode, PresetId, PresetOptions } from '../common/presets';
+import {
+  extractConfigLayer,
+  mergeConfigLayers,
+  ruleListMode,
+  startInheriting,
+  stopInheriting,
+} from '../common/configLayers';
 import { WorkItemService, WorkItemTypeInfo } from '../services/WorkItemService';
-import { DEFAULT_CONFIG } from '../common/constants';
-import { initLocale, t } from '../i18n';
+import { DEFAULT_CONFIG, MAX_ANCESTOR_DEPTH, SIMULATOR_MAX_WORK_ITEMS } from '../common/constants';
+import { TemplateRenderer } from '../rules/TemplateRenderer';
+import { RulesEngine } from '../rules/RulesEngine';
+import { simulate } from '../rules/Simulation';
+import { validateConfig } from '../rules/ConfigValidator';
+import { lintConfig } from '../rules/ConfigLinter';
+import { EvaluationTraceView } from '../components/EvaluationTraceView';
+import { I18nKey, initLocale, t } from '../i18n';
 import { logger } from '../services/Logger';
 
 import './settings.scss';
 
 // ─── State ────────────────────────────────────────────────────────────────────
 
+type SettingsTab = 'general' | 'conditionalRules' | 'sourceBranchRules' | 'workItemTypeRules' | 'baseBranchRules' | 'presets' | 'history';
+
 interface SettingsState {
   loading: boolean;
   saving: boolean;
+  // Optional comment recorded with the next save
+  saveComment: string;
+  // Bumped on every save or restore, so the history list reloads
+  historyRevision: number;
   toast: { message: string; type: 'success' | 'error' } | null;
+  // Config of the scope being edited; the other scope's edits wait in inactiveConfig
   config: ExtensionConfig;
+  scope: ConfigScope;
+  inactiveConfig: ExtensionConfig;
+  // Last saved organization config (null until one is saved), inherited by the project
+  orgConfig: ExtensionConfig | null;
+  // Each scope's config as last loaded or saved: the base of a three-way merge
+  base: Record<ConfigScope, ExtensionConfig>;
+  // Set when a save failed because someone else saved first: the configs as they are now
+  conflict: { project: ExtensionConfig; organization: ExtensionConfig | null; latest?: ConfigVersionInfo } | null;
   // Active tab
-  activeTab: 'general' | 'sourceBranchRules' | 'workItemTypeRules';
+  activeTab: SettingsTab;
   // Import/export editor
   showJsonEditor: boolean;
   jsonEditorValue: string;
@@ -31,46 +80,156 @@ interface SettingsState {
   projectId: string;
   // Available work item types from Azure DevOps
   workItemTypes: WorkItemTypeInfo[];
+  // Signed-in user, for {user.*} tokens in the explain panel and simulator
+  user?: UserContext;
+  // Schema upgrade applied to the stored config on load (saved on next save)
+  migration: MigrationReport | null;
+  // Set when the stored config cannot be edited (e.g. newer schema); blocks saving
+  loadError: string | null;
+  // Validation issues of the stored, imported or hand-edited config
+  validation: { title: string; result: ValidationResult } | null;
+  // An imported file waiting for confirmation, with how to apply it
+  importPreview: { fileName: string; imported: ConfigLayer; mode: ImportMode } | null;
 }
 
+/** How an imported config is applied: it replaces the current one, or its rules are added to it */
+type ImportMode = 'replace' | 'merge';
+
 type Action =
-  | { type: 'LOADED'; payload: { config: ExtensionConfig; projectId: string; workItemTypes: WorkItemTypeInfo[] } }
+  | { type: 'LOADED'; payload: { config: ExtensionConfig; orgConfig: ExtensionConfig | null; projectId: string; workItemTypes: WorkItemTypeInfo[]; user?: UserContext; migration?: MigrationReport | null; loadError?: string } }
   | { type: 'SET_CONFIG'; payload: ExtensionConfig }
+  | { type: 'SET_SCOPE'; payload: ConfigScope }
+  | { type: 'SET_COMMENT'; payload: string }
+  | { type: 'RELOADED'; payload: { config: ExtensionConfig; orgConfig: ExtensionConfig | null } }
+  | { type: 'CONFLICT'; payload: NonNullable<SettingsState['conflict']> }
+  | { type: 'MERGED'; payload: ExtensionConfig }
+  | { type: 'CONFLICT_RELOADED' }
   | { type: 'SAVING' }
   | { type: 'SAVED' }
+  | { type: 'ORG_SAVED'; payload: ExtensionConfig }
   | { type: 'SAVE_ERROR'; payload: string }
   | { type: 'SHOW_TOAST'; payload: { message: string; type: 'success' | 'error' } }
   | { type: 'HIDE_TOAST' }
-  | { type: 'SET_TAB'; payload: 'general' | 'sourceBranchRules' | 'workItemTypeRules' }
+  | { type: 'SET_TAB'; payload: SettingsTab }
   | { type: 'TOGGLE_JSON_EDITOR' }
   | { type: 'SET_JSON'; payload: string }
-  | { type: 'JSON_ERROR'; payload: string | null };
+  | { type: 'JSON_ERROR'; payload: string | null }
+  | { type: 'SET_VALIDATION'; payload: { title: string; result: ValidationResult } | null }
+  | { type: 'IMPORT_PREVIEW'; payload: SettingsState['importPreview'] }
+  | { type: 'SET_IMPORT_MODE'; payload: ImportMode };
 
 function initialState(): SettingsState {
   return {
     loading: true,
     saving: false,
+    saveComment: '',
+    historyRevision: 0,
     toast: null,
     config: DEFAULT_CONFIG as ExtensionConfig,
+    scope: 'project',
+    inactiveConfig: DEFAULT_CONFIG as ExtensionConfig,
+    orgConfig: null,
+    base: { project: DEFAULT_CONFIG as ExtensionConfig, organization: DEFAULT_CONFIG as ExtensionConfig },
+    conflict: null,
     activeTab: 'general',
     showJsonEditor: false,
     jsonEditorValue: '',
     jsonEditorError: null,
     projectId: '',
     workItemTypes: [],
+    migration: null,
+    loadError: null,
+    validation: null,
+    importPreview: null,
   };
 }
 
 function reducer(state: SettingsState, action: Action): SettingsState {
   switch (action.type) {
     case 'LOADED':
-      return { ...state, loading: false, config: action.payload.config, projectId: action.payload.projectId, workItemTypes: action.payload.workItemTypes };
+      return {
+        ...state,
+        loading: false,
+        config: action.payload.config,
+        inactiveConfig: action.payload.orgConfig ?? (DEFAULT_CONFIG as ExtensionConfig),
+        orgConfig: action.payload.orgConfig,
+        base: { project: action.payload.config, organization: action.payload.orgConfig ?? (DEFAULT_CONFIG as ExtensionConfig) },
+        projectId: action.payload.projectId,
+        workItemTypes: action.payload.workItemTypes,
+        user: action.payload.user,
+        migration: action.payload.migration ?? null,
+        loadError: action.payload.loadError ?? null,
+      };
     case 'SET_CONFIG':
       return { ...state, config: action.payload };
+    case 'SET_SCOPE':
+      if (action.payload === state.scope) return state;
+      return { ...state, scope: action.payload, config: state.inactiveConfig, inactiveConfig: state.config, conflict: null };
     case 'SAVING':
       return { ...state, saving: true };
+    case 'SET_COMMENT':
+      return { ...state, saveComment: action.payload };
     case 'SAVED':
-      return { ...state, saving: false };
+      return {
+        ...state,
+        saving: false,
+        migration: null,
+        base: { ...state.base, project: state.config },
+        conflict: null,
+        saveComment: '',
+        historyRevision: state.historyRevision + 1,
+      };
+    case 'ORG_SAVED':
+      return {
+        ...state,
+        saving: false,
+        migration: null,
+        orgConfig: action.payload,
+        base: { ...state.base, organization: action.payload },
+        conflict: null,
+        saveComment: '',
+        historyRevision: state.historyRevision + 1,
+      };
+    case 'CONFLICT':
+      return { ...state, saving: false, conflict: action.payload };
+    case 'MERGED': {
+      // The merged config now builds on what the other person saved
+      const { project, organization } = state.conflict!;
+      const theirs = state.scope === 'organization' ? organization ?? (DEFAULT_CONFIG as ExtensionConfig) : project;
+      return { ...state, config: action.payload, base: { ...state.base, [state.scope]: theirs }, conflict: null };
+    }
+    case 'CONFLICT_RELOADED': {
+      // Only the scope that conflicted is reloaded; the other scope keeps its unsaved edits
+      const { project, organization } = state.conflict!;
+      const theirs = state.scope === 'organization' ? organization ?? (DEFAULT_CONFIG as ExtensionConfig) : project;
+      return {
+        ...state,
+        config: theirs,
+        orgConfig: organization,
+        base: { ...state.base, [state.scope]: theirs },
+        conflict: null,
+        migration: null,
+        historyRevision: state.historyRevision + 1,
+      };
+    }
+    case 'RELOADED': {
+      // Both scopes are reloaded; unsaved edits of either are dropped
+      const org = action.payload.orgConfig ?? (DEFAULT_CONFIG as ExtensionConfig);
+      const [config, inactiveConfig] = state.scope === 'organization'
+        ? [org, action.payload.config]
+        : [action.payload.config, org];
+      return {
+        ...state,
+        config,
+        inactiveConfig,
+        orgConfig: action.payload.orgConfig,
+        base: { project: action.payload.config, organization: org },
+        conflict: null,
+        saving: false,
+        migration: null,
+        historyRevision: state.historyRevision + 1,
+      };
+    }
     case 'SAVE_ERROR':
       return { ...state, saving: false };
     case 'SHOW_TOAST':
@@ -92,6 +251,12 @@ function reducer(state: SettingsState, action: Action): SettingsState {
       return { ...state, jsonEditorValue: action.payload };
     case 'JSON_ERROR':
       return { ...state, jsonEditorError: action.payload };
+    case 'IMPORT_PREVIEW':
+      return { ...state, importPreview: action.payload };
+    case 'SET_IMPORT_MODE':
+      return state.importPreview ? { ...state, importPreview: { ...state.importPreview, mode: action.payload } } : state;
+    case 'SET_VALIDATION':
+      return { ...state, validation: action.payload };
     default:
       return state;
   }
@@ -106,8 +271,477 @@ const InfoTooltip: React.FC<{ text: string }> = ({ text }) => (
   </span>
 );
 
+// ─── Inheritance ──────────────────────────────────────────────────────────────
+
+/** Marks whether a project value is inherited from the organization or set by the project */
+const SourceBadge: React.FC<{ inherited: boolean }> = ({ inherited }) => (
+  <span className={`bp-settings__source bp-settings__source--${inherited ? 'organization' : 'project'}`}>
+    {t(inherited ? 'settings.source.organization' : 'settings.source.project')}
+  </span>
+);
+
+const RULE_LIST_MODE_LABELS: Record<RuleListMode, I18nKey> = {
+  prepend: 'settings.inheritance.mode.prepend',
+  append: 'settings.inheritance.mode.append',
+  replace: 'settings.inheritance.mode.replace',
+};
+
+/** The organization rules a project rule list inherits, and how they are combined */
+const InheritedRules: React.FC<{
+  names: string[];
+  mode: RuleListMode;
+  onModeChange: (mode: RuleListMode) => void;
+}> = ({ names, mode, onModeChange }) => (
+  <div className="bp-settings__inherited">
+    <div className="bp-settings__field">
+      <label>
+        {t('settings.inheritance.mode')}
+        <InfoTooltip text={t('settings.tooltip.ruleListMode')} />
+      </label>
+      <select
+        className="bp-settings__input"
+        value={mode}
+        onChange={(e) => onModeChange(e.target.value as RuleListMode)}
+      >
+        {(Object.keys(RULE_LIST_MODE_LABELS) as RuleListMode[]).map((m) => (
+          <option key={m} value={m}>{t(RULE_LIST_MODE_LABELS[m])}</option>
+        ))}
+      </select>
+    </div>
+    <h4>{t('settings.inheritance.rules', { count: names.length })}</h4>
+    <ul className={mode === 'replace' ? 'bp-settings__inherited-list--ignored' : undefined}>
+      {names.map((name, i) => (
+        <li key={i}><SourceBadge inherited /> {name}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+// ─── TemplateHint ─────────────────────────────────────────────────────────────
+
+const templateRenderer = new TemplateRenderer();
+
+/** Token hint shown under template inputs, plus any filter errors in the template */
+const TemplateHint: React.FC<{ template: string }> = ({ template }) => {
+  const { errors } = templateRenderer.validate(template);
+  return (
+    <>
+      <span className="bp-hint">{t('settings.defaults.template.hint')}</span>
+      {errors.map((err) => (
+        <span key={err} className="bp-hint bp-hint--error">⚠ {err}</span>
+      ))}
+    </>
+  );
+};
+
+// ─── ExplainPanel ─────────────────────────────────────────────────────────────
+
+interface ExplainPanelProps {
+  config: ExtensionConfig;
+  workItemTypes: WorkItemTypeInfo[];
+  user?: UserContext;
+}
+
+/** Runs the unsaved config against a sample work item and shows the evaluation trace */
+const ExplainPanel: React.FC<ExplainPanelProps> = ({ config, workItemTypes, user }) => {
+  const [sourceBranch, setSourceBranch] = useState('main');
+  const [workItemType, setWorkItemType] = useState('User Story');
+  const [title, setTitle] = useState(() => t('settings.explain.defaultTitle'));
+
+  const result = useMemo(() => {
+    try {
+      const { trace } = new RulesEngine(config, user).computeWithTrace(
+        { id: 1234, title, type: workItemType, state: 'New' },
+        sourceBranch,
+      );
+      return { trace, error: null };
+    } catch (err) {
+      return { trace: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [config, user, sourceBranch, workItemType, title]);
+
+  const typeNames = workItemTypes.map((w) => w.name);
+  if (!typeNames.includes(workItemType)) typeNames.unshift(workItemType);
+
+  return (
+    <div className="bp-settings__explain">
+      <h2>{t('settings.section.explain')}</h2>
+      <p className="bp-settings__tab-description">{t('settings.explain.description')}</p>
+      <div className="bp-settings__explain-inputs">
+        <div className="bp-settings__field">
+          <label>{t('settings.explain.sourceBranch')}</label>
+          <input type="text" className="bp-settings__input bp-settings__input--mono"
+            value={sourceBranch} onChange={(e) => setSourceBranch(e.target.value)} />
+        </div>
+        <div className="bp-settings__field">
+          <label>{t('settings.explain.workItemType')}</label>
+          <select className="bp-settings__select"
+            value={workItemType} onChange={(e) => setWorkItemType(e.target.value)}>
+            {typeNames.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div className="bp-settings__field">
+          <label>{t('settings.explain.title')}</label>
+          <input type="text" className="bp-settings__input"
+            value={title} onChange={(e) => setTitle(e.target.value)} />
+        </div>
+      </div>
+      {result.error && <span className="bp-hint bp-hint--error">⚠ {result.error}</span>}
+      {result.trace && (
+        <>
+          <div className="bp-settings__explain-result"><code>{result.trace.branchName}</code></div>
+          <EvaluationTraceView trace={result.trace} />
+        </>
+      )}
+    </div>
+  );
+};
+
+// ─── SimulatorPanel ───────────────────────────────────────────────────────────
+
+interface SimulatorPanelProps {
+  config: ExtensionConfig;
+  projectId: string;
+  user?: UserContext;
+}
+
+/**
+ * Runs the unsaved config against real work items (by ID or saved query).
+ * Work items are fetched once per run; the results follow config edits live.
+ */
+const SimulatorPanel: React.FC<SimulatorPanelProps> = ({ config, projectId, user }) => {
+  const [source, setSource] = useState<'ids' | 'query'>('ids');
+  const [idsInput, setIdsInput] = useState('');
+  const [queryInput, setQueryInput] = useState('');
+  const [sourceBranch, setSourceBranch] = useState('main');
+  const [workItems, setWorkItems] = useState<WorkItemContext[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const results = useMemo(
+    () => (workItems ? simulate(config, workItems, sourceBranch, user) : []),
+    [config, workItems, sourceBranch, user],
+  );
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const service = new WorkItemService();
+      const ids = source === 'ids'
+        ? splitList(idsInput).map(Number).filter((id) => Number.isInteger(id) && id > 0)
+        : await service.runSavedQuery(queryInput, projectId);
+      if (ids.length === 0) {
+        setWorkItems([]);
+        setError(t('settings.simulator.noWorkItems'));
+        return;
+      }
+      if (ids.length > SIMULATOR_MAX_WORK_ITEMS) {
+        setError(t('settings.simulator.truncated', { count: ids.length, max: SIMULATOR_MAX_WORK_ITEMS }));
+      }
+      const engine = new RulesEngine(config);
+      const contexts = await service.getWorkItemContexts(
+        ids.slice(0, SIMULATOR_MAX_WORK_ITEMS),
+        projectId,
+        engine.getReferencedFields(),
+      );
+      const depth = engine.getAncestorDepth();
+      if (depth > 0) {
+        // Sequential on purpose: siblings share parents, which the service caches
+        for (const wi of contexts) {
+          wi.ancestors = await service.getAncestors(wi.id, depth);
+        }
+      }
+      setWorkItems(contexts);
+    } catch (err) {
+      logger.error('Simulation failed', err);
+      setWorkItems(null);
+      setError(t('settings.simulator.error', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bp-settings__explain">
+      <h2>{t('settings.section.simulator')}</h2>
+      <p className="bp-settings__tab-description">{t('settings.simulator.description')}</p>
+      <div className="bp-settings__explain-inputs">
+        <div className="bp-settings__field">
+          <label>{t('settings.simulator.source')}</label>
+          <select className="bp-settings__select"
+            value={source} onChange={(e) => setSource(e.target.value as 'ids' | 'query')}>
+            <option value="ids">{t('settings.simulator.source.ids')}</option>
+            <option value="query">{t('settings.simulator.source.query')}</option>
+          </select>
+        </div>
+        <div className="bp-settings__field">
+          <label>
+            {source === 'ids' ? t('settings.simulator.ids') : t('settings.simulator.query')}
+            <InfoTooltip text={source === 'ids' ? t('settings.tooltip.simulatorIds') : t('settings.tooltip.simulatorQuery')} />
+          </label>
+          {source === 'ids' ? (
+            <input type="text" className="bp-settings__input bp-settings__input--mono" placeholder="1234, 1235"
+              value={idsInput} onChange={(e) => setIdsInput(e.target.value)} />
+          ) : (
+            <input type="text" className="bp-settings__input" placeholder="Shared Queries/Current Sprint"
+              value={queryInput} onChange={(e) => setQueryInput(e.target.value)} />
+          )}
+        </div>
+        <div className="bp-settings__field">
+          <label>{t('settings.explain.sourceBranch')}</label>
+          <input type="text" className="bp-settings__input bp-settings__input--mono"
+            value={sourceBranch} onChange={(e) => setSourceBranch(e.target.value)} />
+        </div>
+      </div>
+      <button className="bp-btn bp-btn--primary bp-btn--small" disabled={running || !projectId} onClick={handleRun}>
+        {running ? '…' : t('settings.simulator.run')}
+      </button>
+      {error && <span className="bp-hint bp-hint--error">⚠ {error}</span>}
+      {results.length > 0 && (
+        <table className="bp-settings__simulator-table">
+          <thead>
+            <tr>
+              <th>{t('settings.simulator.col.workItem')}</th>
+              <th>{t('settings.simulator.col.branchName')}</th>
+              <th>{t('settings.simulator.col.rule')}</th>
+              <th>{t('settings.simulator.col.state')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((r) => (
+              <tr key={r.workItem.id}>
+                <td>
+                  <span className="bp-settings__simulator-type">{r.workItem.type}</span> #{r.workItem.id} {r.workItem.title}
+                </td>
+                <td>
+                  {r.error
+                    ? <span className="bp-hint--error">⚠ {r.error}</span>
+                    : <code>{r.branchName}</code>}
+                </td>
+                <td>{r.matchedRuleName}</td>
+                <td>{r.stateTransition ? `${r.stateTransition.from} → ${r.stateTransition.to}` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+// ─── HistoryPanel ─────────────────────────────────────────────────────────────
+
+interface HistoryPanelProps {
+  service: ConfigService;
+  scope: ConfigScope;
+  /** Changes whenever a new version may have been saved */
+  revision: number;
+  onRestore: (version: number) => void;
+}
+
+/** Lists the saved versions of a scope and what each one changed compared with the previous one */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ service, scope, revision, onRestore }) => {
+  const [versions, setVersions] = useState<ConfigVersionInfo[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  // Changes of a version compared with the previous one; null for the first version
+  const [diff, setDiff] = useState<{ version: number; changes: ConfigChange[] | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVersions(null);
+    setSelected(null);
+    setError(null);
+    service.getHistory(scope)
+      .then((history) => { if (!cancelled) setVersions(history); })
+      .catch((err) => { if (!cancelled) setError(String(err)); });
+    return () => { cancelled = true; };
+  }, [service, scope, revision]);
+
+  useEffect(() => {
+    if (selected === null) return;
+    let cancelled = false;
+    Promise.all([service.getVersion(scope, selected), service.getVersion(scope, selected - 1)])
+      .then(([current, previous]) => {
+        if (cancelled) return;
+        setDiff({ version: selected, changes: current && previous ? diffConfigs(previous.config, current.config) : null });
+      })
+      .catch((err) => { if (!cancelled) setError(String(err)); });
+    return () => { cancelled = true; };
+  }, [service, scope, selected]);
+
+  return (
+    <div className="bp-settings__history">
+      <p className="bp-settings__tab-description">{t('settings.tab.history.description')}</p>
+      {error && <span className="bp-hint bp-hint--error">⚠ {error}</span>}
+      {!versions && !error && <span className="bp-hint">…</span>}
+      {versions && versions.length === 0 && <p className="bp-hint">{t('settings.history.empty')}</p>}
+      {versions && versions.length > 0 && (
+        <table className="bp-settings__history-table">
+          <thead>
+            <tr>
+              <th>{t('settings.history.version')}</th>
+              <th>{t('settings.history.date')}</th>
+              <th>{t('settings.history.author')}</th>
+              <th>{t('settings.history.comment')}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map((v, i) => (
+              <tr
+                key={v.version}
+                className={v.version === selected ? 'bp-settings__history-row--selected' : undefined}
+                onClick={() => setSelected(v.version)}
+              >
+                <td>{v.version}</td>
+                <td>{new Date(v.timestamp).toLocaleString()}</td>
+                <td title={v.author.uniqueName}>{v.author.displayName}</td>
+                <td>{v.comment ?? ''}</td>
+                <td>
+                  {i > 0 && (
+                    <button
+                      className="bp-btn bp-btn--secondary bp-btn--small"
+                      onClick={(e) => { e.stopPropagation(); onRestore(v.version); }}
+                    >
+                      {t('settings.history.restore')}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {selected !== null && diff?.version === selected && (
+        <div className="bp-settings__history-diff">
+          <h3>{t('settings.history.changes', { version: selected })}</h3>
+          {!diff.changes && <p className="bp-hint">{t('settings.history.first')}</p>}
+          {diff.changes && diff.changes.length === 0 && <p className="bp-hint">{t('settings.history.noChanges')}</p>}
+          {diff.changes && diff.changes.length > 0 && <ChangesTable changes={diff.changes} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ─── ChangesTable ─────────────────────────────────────────────────────────────
+
+/** The settings changed between two configs, with their values before and after */
+const ChangesTable: React.FC<{ changes: ConfigChange[] }> = ({ changes }) => {
+  const formatValue = (value: unknown) => (value === undefined ? '—' : JSON.stringify(value));
+  return (
+    <table className="bp-settings__history-table">
+      <thead>
+        <tr>
+          <th>{t('settings.history.path')}</th>
+          <th>{t('settings.history.before')}</th>
+          <th>{t('settings.history.after')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.path} className={`bp-settings__change--${change.kind}`}>
+            <td><code>{change.path || '(root)'}</code></td>
+            <td><code>{formatValue(change.before)}</code></td>
+            <td><code>{formatValue(change.after)}</code></td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// ─── PresetsPanel ─────────────────────────────────────────────────────────────
+
+interface PresetsPanelProps {
+  config: ExtensionConfig;
+  onApply: (config: ExtensionConfig) => void;
+}
+
+/** Branching strategy presets: pick one, adjust its options, preview the changes and apply them */
+const PresetsPanel: React.FC<PresetsPanelProps> = ({ config, onApply }) => {
+  const [presetId, setPresetId] = useState<PresetId>('gitflow');
+  const [options, setOptions] = useState<PresetOptions>(getPreset('gitflow').defaults);
+  const [mode, setMode] = useState<PresetApplyMode>('replace');
+
+  const preset = getPreset(presetId);
+  const applied = useMemo(
+    () => applyPreset(config, preset.build(options), mode),
+    [config, preset, options, mode],
+  );
+  const changes = useMemo(() => diffConfigs(config, applied), [config, applied]);
+
+  const selectPreset = (id: PresetId) => {
+    setPresetId(id);
+    setOptions(getPreset(id).defaults);
+  };
+
+  return (
+    <div className="bp-settings__presets">
+      <p className="bp-settings__tab-description">{t('settings.tab.presets.description')}</p>
+      <div className="bp-settings__presets-list">
+        {BRANCHING_PRESETS.map((p) => (
+          <label key={p.id} className="bp-settings__checkbox-label">
+            <input type="radio" name="preset" checked={p.id === presetId} onChange={() => selectPreset(p.id)} />
+            <span>
+              <strong>{t(`settings.presets.${p.id}` as I18nKey)}</strong> — {t(`settings.presets.${p.id}.description` as I18nKey)}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="bp-settings__presets-options">
+        {preset.options.map((key) => {
+          const value = options[key];
+          return typeof value === 'boolean' ? (
+            <label key={key} className="bp-settings__checkbox-label">
+              <input type="checkbox" checked={value}
+                onChange={(e) => setOptions({ ...options, [key]: e.target.checked })} />
+              {t(`settings.presets.option.${key}` as I18nKey)}
+            </label>
+          ) : (
+            <div key={key} className="bp-settings__field">
+              <label>{t(`settings.presets.option.${key}` as I18nKey)}</label>
+              <input type="text" className="bp-settings__input bp-settings__input--mono" value={value}
+                onChange={(e) => setOptions({ ...options, [key]: e.target.value })} />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bp-settings__field">
+        <label>{t('settings.presets.mode')}</label>
+        <select className="bp-settings__select" value={mode} onChange={(e) => setMode(e.target.value as PresetApplyMode)}>
+          <option value="replace">{t('settings.presets.mode.replace')}</option>
+          <option value="merge">{t('settings.presets.mode.merge')}</option>
+        </select>
+      </div>
+
+      <h3>{t('settings.presets.preview')}</h3>
+      {changes.length === 0
+        ? <p className="bp-hint">{t('settings.presets.noChanges')}</p>
+        : <ChangesTable changes={changes} />}
+      <button className="bp-btn bp-btn--primary bp-btn--small" disabled={changes.length === 0} onClick={() => onApply(applied)}>
+        {t('settings.presets.apply')}
+      </button>
+    </div>
+  );
+};
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+function downloadFile(content: string, fileName: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 let configServiceRef: ConfigService | null = null;
 
 // ─── Root component ───────────────────────────────────────────────────────────
@@ -130,7 +764,7 @@ const SettingsHub: React.FC = () => {
         const ctx = SDK.getPageContext();
         const projectId = ctx.webContext.project.id;
         configServiceRef = new ConfigService(projectId);
-        const config = await configServiceRef.load();
+        const { project: config, organization: orgConfig } = await configServiceRef.loadForEditing();
         
         // Set language from saved config
         initLocale(config.general.language || 'en');
@@ -139,10 +773,25 @@ const SettingsHub: React.FC = () => {
         const workItemService = new WorkItemService();
         const workItemTypes = await workItemService.getWorkItemTypes(projectId);
 
-        if (!cancelled) dispatch({ type: 'LOADED', payload: { config, projectId, workItemTypes } });
+        const sdkUser = SDK.getUser();
+        const user: UserContext = { displayName: sdkUser.displayName, uniqueName: sdkUser.name };
+
+        const migration = configServiceRef.getMigrationReport();
+        const validation = configServiceRef.getValidationResult();
+
+        if (!cancelled) {
+          dispatch({ type: 'LOADED', payload: { config, orgConfig, projectId, workItemTypes, user, migration } });
+          if (validation && (validation.errors.length > 0 || validation.warnings.length > 0)) {
+            dispatch({ type: 'SET_VALIDATION', payload: { title: t('settings.validation.stored'), result: validation } });
+          }
+        }
       } catch (err) {
         logger.error('Settings init failed', err);
-        if (!cancelled) dispatch({ type: 'LOADED', payload: { config: DEFAULT_CONFIG as ExtensionConfig, projectId: '', workItemTypes: [] } });
+        // A newer stored config must not be replaced by the defaults shown here
+        const loadError = err instanceof ConfigVersionError
+          ? t('config.error.newerSchema', { stored: err.storedVersion, supported: err.supportedVersion })
+          : undefined;
+        if (!cancelled) dispatch({ type: 'LOADED', payload: { config: DEFAULT_CONFIG as ExtensionConfig, orgConfig: null, projectId: '', workItemTypes: [], loadError } });
       } finally {
         SDK.notifyLoadSucceeded();
       }
@@ -162,17 +811,74 @@ const SettingsHub: React.FC = () => {
   // ── Save ──────────────────────────────────────────────────────────────────
 
   const handleSave = useCallback(async () => {
-    if (!configServiceRef) return;
+    if (!configServiceRef || state.loadError) return;
     dispatch({ type: 'SAVING' });
     try {
-      await configServiceRef.save(state.config);
-      dispatch({ type: 'SAVED' });
+      if (state.scope === 'organization') {
+        await configServiceRef.saveOrganization(state.config, state.saveComment);
+        dispatch({ type: 'ORG_SAVED', payload: state.config });
+      } else {
+        // Inheriting projects store only what differs from the organization config
+        await configServiceRef.save(state.config.inheritance?.enabled
+          ? extractConfigLayer(state.config, state.orgConfig ?? (DEFAULT_CONFIG as ExtensionConfig))
+          : state.config, state.saveComment);
+        dispatch({ type: 'SAVED' });
+      }
       showToast(t('settings.saved'), 'success');
     } catch (err) {
+      if (err instanceof ConfigConflictError) {
+        // Reading again also lets the next save of this scope go through (see Overwrite)
+        try {
+          const { project, organization } = await configServiceRef.reloadAfterConflict(state.scope);
+          const latest = (await configServiceRef.getHistory(state.scope).catch(() => []))[0];
+          dispatch({ type: 'CONFLICT', payload: { project, organization, latest } });
+          return;
+        } catch (reloadErr) {
+          err = reloadErr;
+        }
+      }
       dispatch({ type: 'SAVE_ERROR', payload: String(err) });
       showToast(t('settings.saveError', { message: String(err) }), 'error');
     }
-  }, [state.config, showToast]);
+  }, [state.config, state.scope, state.orgConfig, state.loadError, state.saveComment, showToast]);
+
+  // ── Conflicts ─────────────────────────────────────────────────────────────
+
+  const handleConflictReload = useCallback(() => {
+    if (!state.conflict) return;
+    dispatch({ type: 'CONFLICT_RELOADED' });
+  }, [state.conflict]);
+
+  const handleConflictMerge = useCallback(() => {
+    if (!state.conflict) return;
+    const { project, organization } = state.conflict;
+    const theirs = state.scope === 'organization' ? organization ?? (DEFAULT_CONFIG as ExtensionConfig) : project;
+    const { config, conflicts } = mergeConfigs(state.base[state.scope], state.config, theirs);
+    dispatch({ type: 'MERGED', payload: config });
+    dispatch({
+      type: 'SET_VALIDATION',
+      payload: {
+        title: t(conflicts.length > 0 ? 'settings.conflict.mergedWithConflicts' : 'settings.conflict.merged'),
+        result: { valid: true, errors: [], warnings: conflicts },
+      },
+    });
+  }, [state.conflict, state.scope, state.base, state.config]);
+
+  // ── Restore ───────────────────────────────────────────────────────────────
+
+  const handleRestore = useCallback(async (version: number) => {
+    if (!configServiceRef || !window.confirm(t('settings.history.confirmRestore', { version }))) return;
+    dispatch({ type: 'SAVING' });
+    try {
+      await configServiceRef.restoreVersion(state.scope, version, t('settings.history.restoreComment', { version }));
+      const { project, organization } = await configServiceRef.loadForEditing();
+      dispatch({ type: 'RELOADED', payload: { config: project, orgConfig: organization } });
+      showToast(t('settings.history.restored', { version }), 'success');
+    } catch (err) {
+      dispatch({ type: 'SAVE_ERROR', payload: String(err) });
+      showToast(t('settings.saveError', { message: String(err) }), 'error');
+    }
+  }, [state.scope, showToast]);
 
   // ── Reset ─────────────────────────────────────────────────────────────────
 
@@ -182,30 +888,67 @@ const SettingsHub: React.FC = () => {
     showToast('Reset to defaults. Click Save to persist.', 'success');
   }, [showToast]);
 
+  // ── Presets ───────────────────────────────────────────────────────────────
+
+  const handleApplyPreset = useCallback((config: ExtensionConfig) => {
+    dispatch({ type: 'SET_CONFIG', payload: config });
+    showToast(t('settings.presets.applied'), 'success');
+  }, [showToast]);
+
   // ── Export ────────────────────────────────────────────────────────────────
 
   const handleExport = useCallback(() => {
-    const json = JSON.stringify(state.config, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'branchpilot-config.json';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(JSON.stringify(state.config, null, 2), 'branchpilot-config.json', 'application/json');
+  }, [state.config]);
+
+  const handleExportYaml = useCallback(() => {
+    const header = ['BranchPilot configuration', 'Comments are allowed, e.g. to explain a regex; they are not kept on import.'];
+    downloadFile(stringifyYaml(state.config, header), 'branchpilot-config.yml', 'application/yaml');
   }, [state.config]);
 
+  const handleExportSchema = useCallback(() => {
+    downloadFile(JSON.stringify(CONFIG_SCHEMA, null, 2), 'branchpilot-config.schema.json', 'application/json');
+  }, []);
+
   // ── Import ────────────────────────────────────────────────────────────────
 
+  /**
+   * Upgrades and validates an imported or hand-edited config, then applies it
+   * unless it has errors. Returns false when it was not applied. Throws on
+   * malformed JSON and on configs newer than this extension.
+   */
+  const applyConfigJson = useCallback((json: string): boolean => {
+    const { config } = migrateConfig(JSON.parse(json) as Record<string, unknown>);
+    const result = validateConfig(config);
+    if (!result.valid) {
+      dispatch({ type: 'SET_VALIDATION', payload: { title: t('settings.validation.rejected'), result } });
+      return false;
+    }
+    dispatch({ type: 'SET_CONFIG', payload: config as unknown as ExtensionConfig });
+    dispatch({
+      type: 'SET_VALIDATION',
+      payload: result.warnings.length > 0 ? { title: t('settings.validation.warnings'), result } : null,
+    });
+    return true;
+  }, []);
+
+  /** Reads a JSON or YAML file (by extension) and shows what importing it would change */
   const handleImportFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
       try {
-        const parsed = JSON.parse(ev.target?.result as string) as ExtensionConfig;
-        dispatch({ type: 'SET_CONFIG', payload: parsed });
-        showToast(t('settings.importSuccess'), 'success');
+        const text = ev.target?.result as string;
+        const parsed = /\.ya?ml$/i.test(file.name) ? parseYaml(text) : JSON.parse(text);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          throw new Error('(root): must be an object');
+        }
+        const { config } = migrateConfig(parsed as Record<string, unknown>);
+        dispatch({
+          type: 'IMPORT_PREVIEW',
+          payload: { fileName: file.name, imported: config as ConfigLayer, mode: 'replace' },
+        });
       } catch (err) {
         showToast(t('settings.importError', { message: String(err) }), 'error');
       }
@@ -214,18 +957,42 @@ const SettingsHub: React.FC = () => {
     e.target.value = '';
   }, [showToast]);
 
+  // The config an import would produce, and its validation
+  const importResult = useMemo(() => {
+    if (!state.importPreview) return null;
+    const { imported, mode } = state.importPreview;
+    const config = mode === 'merge' ? mergeImportedConfig(state.config, imported) : imported as ExtensionConfig;
+    const validation = validateConfig(config);
+    return { config, validation, changes: validation.valid ? diffConfigs(state.config, config) : [] };
+  }, [state.importPreview, state.config]);
+
+  const handleApplyImport = useCallback(() => {
+    if (!importResult?.validation.valid) return;
+    const { config, validation } = importResult;
+    dispatch({ type: 'SET_CONFIG', payload: config });
+    dispatch({
+      type: 'SET_VALIDATION',
+      payload: validation.warnings.length > 0 ? { title: t('settings.validation.warnings'), result: validation } : null,
+    });
+    dispatch({ type: 'IMPORT_PREVIEW', payload: null });
+    showToast(t('settings.importSuccess'), 'success');
+  }, [importResult, showToast]);
+
   // ── Apply JSON editor ─────────────────────────────────────────────────────
 
   const handleApplyJson = useCallback(() => {
     try {
-      const parsed = JSON.parse(state.jsonEditorValue) as ExtensionConfig;
-      dispatch({ type: 'SET_CONFIG', payload: parsed });
       dispatch({ type: 'JSON_ERROR', payload: null });
-      showToast(t('settings.importSuccess'), 'success');
+      if (applyConfigJson(state.jsonEditorValue)) {
+        showToast(t('settings.importSuccess'), 'success');
+      }
     } catch (err) {
-      dispatch({ type: 'JSON_ERROR', payload: `Invalid JSON: ${String(err)}` });
+      dispatch({
+        type: 'JSON_ERROR',
+        payload: err instanceof ConfigVersionError ? err.message : `Invalid JSON: ${String(err)}`,
+      });
     }
-  }, [state.jsonEditorValue, showToast]);
+  }, [state.jsonEditorValue, applyConfigJson, showToast]);
 
   // ── Config mutation helpers ───────────────────────────────────────────────
 
@@ -272,6 +1039,32 @@ const SettingsHub: React.FC = () => {
     dispatch({ type: 'SET_CONFIG', payload: { ...state.config, rulesBySourceBranch: rules } });
   }, [state.config]);
 
+  // Conditional rules
+  const addConditionalRule = useCallback(() => {
+    const newRule: ConditionalRule = {
+      name: 'New conditional rule',
+      priority: 0,
+      when: { match: 'all', predicates: [defaultPredicate('sourceBranch')] },
+      prefix: '',
+      template: '{prefix}{wi.id}-{wi.title}',
+    };
+    dispatch({
+      type: 'SET_CONFIG',
+      payload: { ...state.config, rules: [...(state.config.rules ?? []), newRule] },
+    });
+  }, [state.config]);
+
+  const updateConditionalRule = useCallback((index: number, updated: ConditionalRule) => {
+    const rules = [...(state.config.rules ?? [])];
+    rules[index] = updated;
+    dispatch({ type: 'SET_CONFIG', payload: { ...state.config, rules } });
+  }, [state.config]);
+
+  const removeConditionalRule = useCallback((index: number) => {
+    const rules = (state.config.rules ?? []).filter((_, i) => i !== index);
+    dispatch({ type: 'SET_CONFIG', payload: { ...state.config, rules } });
+  }, [state.config]);
+
   // Work item type rules
   const addWorkItemTypeRule = useCallback(() => {
     const newRule: WorkItemTypeRule = {
@@ -296,6 +1089,72 @@ const SettingsHub: React.FC = () => {
     dispatch({ type: 'SET_CONFIG', payload: { ...state.config, rulesByWorkItemType: rules } });
   }, [state.config]);
 
+  // Base branch rules
+  const addBaseBranchRule = useCallback(() => {
+    const newRule: BaseBranchRule = {
+      name: 'New base branch rule',
+      priority: 0,
+      when: { match: 'all', predicates: [defaultPredicate('workItemType')] },
+      matchType: 'glob',
+      branch: 'develop',
+    };
+    dispatch({
+      type: 'SET_CONFIG',
+      payload: { ...state.config, baseBranchRules: [...(state.config.baseBranchRules ?? []), newRule] },
+    });
+  }, [state.config]);
+
+  const updateBaseBranchRule = useCallback((index: number, updated: BaseBranchRule) => {
+    const baseBranchRules = [...(state.config.baseBranchRules ?? [])];
+    baseBranchRules[index] = updated;
+    dispatch({ type: 'SET_CONFIG', payload: { ...state.config, baseBranchRules } });
+  }, [state.config]);
+
+  const removeBaseBranchRule = useCallback((index: number) => {
+    const baseBranchRules = (state.config.baseBranchRules ?? []).filter((_, i) => i !== index);
+    dispatch({ type: 'SET_CONFIG', payload: { ...state.config, baseBranchRules } });
+  }, [state.config]);
+
+  // ── Inheritance ───────────────────────────────────────────────────────────
+
+  const orgBase = state.orgConfig ?? (DEFAULT_CONFIG as ExtensionConfig);
+  const inheriting = state.scope === 'project' && !!state.config.inheritance?.enabled;
+
+  // What the dialog will use: the project config on top of the organization config
+  const effectiveConfig = useMemo(
+    () => (inheriting ? mergeConfigLayers(orgBase, extractConfigLayer(state.config, orgBase)) : state.config),
+    [inheriting, orgBase, state.config],
+  );
+
+  // Shadowed, unreachable and invalid rules in what the dialog will use; errors block saving
+  const lint = useMemo(() => lintConfig(effectiveConfig), [effectiveConfig]);
+
+  // "general.maxLength", "defaults.template", … set by the project rather than inherited
+  const projectValues = useMemo(() => {
+    if (!inheriting) return new Set<string>();
+    const layer = extractConfigLayer(state.config, orgBase);
+    return new Set([
+      ...Object.keys(layer.general ?? {}).map((key) => `general.${key}`),
+      ...Object.keys(layer.defaults ?? {}).map((key) => `defaults.${key}`),
+    ]);
+  }, [inheriting, orgBase, state.config]);
+
+  const setInheritance = useCallback((enabled: boolean) => {
+    dispatch({
+      type: 'SET_CONFIG',
+      payload: enabled ? startInheriting(state.config, orgBase) : stopInheriting(state.config, orgBase),
+    });
+  }, [state.config, orgBase]);
+
+  const setRuleListMode = useCallback((key: RuleListKey, mode: RuleListMode) => {
+    const inheritance = {
+      enabled: true,
+      ...state.config.inheritance,
+      ruleLists: { ...state.config.inheritance?.ruleLists, [key]: mode },
+    };
+    dispatch({ type: 'SET_CONFIG', payload: { ...state.config, inheritance } });
+  }, [state.config]);
+
   // ── Render ────────────────────────────────────────────────────────────────
 
   if (state.loading) {
@@ -309,6 +1168,15 @@ const SettingsHub: React.FC = () => {
 
   const { config, activeTab } = state;
 
+  const sourceBadge = (path: string) => (inheriting ? <SourceBadge inherited={!projectValues.has(path)} /> : null);
+  const inheritedRules = (key: RuleListKey, names: string[]) => inheriting && (
+    <InheritedRules
+      names={names}
+      mode={ruleListMode(config.inheritance, key)}
+      onModeChange={(mode) => setRuleListMode(key, mode)}
+    />
+  );
+
   return (
     <div className="bp-settings">
       {/* ── Header ── */}
@@ -317,17 +1185,114 @@ const SettingsHub: React.FC = () => {
         <p>{t('settings.subtitle')}</p>
       </div>
 
+      {/* ── Scope ── */}
+      <div className="bp-settings__field bp-settings__scope">
+        <label>{t('settings.scope.label')}</label>
+        <select
+          className="bp-settings__input"
+          value={state.scope}
+          onChange={(e) => dispatch({ type: 'SET_SCOPE', payload: e.target.value as ConfigScope })}
+        >
+          <option value="project">{t('settings.scope.project')}</option>
+          <option value="organization">{t('settings.scope.organization')}</option>
+        </select>
+        <span className="bp-hint">
+          {t(state.scope === 'organization' ? 'settings.scope.organization.hint' : 'settings.scope.project.hint')}
+        </span>
+      </div>
+
+      {state.loadError && (
+        <div className="bp-settings__banner bp-settings__banner--error">{state.loadError}</div>
+      )}
+      {state.migration && (
+        <div className="bp-settings__banner">
+          {t('settings.migrated', { from: state.migration.fromVersion, to: state.migration.toVersion })}
+          <ul>
+            {state.migration.changes.map((change) => <li key={change}>{change}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {state.conflict && (
+        <div className="bp-settings__banner bp-settings__banner--error">
+          {state.conflict.latest
+            ? t('settings.conflict.savedBy', {
+              author: state.conflict.latest.author.displayName,
+              time: new Date(state.conflict.latest.timestamp).toLocaleString(),
+            })
+            : t('settings.conflict.message')}
+          <div className="bp-settings__banner-actions">
+            <button className="bp-btn bp-btn--secondary bp-btn--small" onClick={handleConflictReload}>
+              {t('settings.conflict.reload')}
+            </button>
+            <button className="bp-btn bp-btn--secondary bp-btn--small" onClick={handleConflictMerge}>
+              {t('settings.conflict.merge')}
+            </button>
+            <button className="bp-btn bp-btn--danger bp-btn--small" disabled={state.saving || !lint.valid} onClick={handleSave}>
+              {t('settings.conflict.overwrite')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {state.validation && (
+        <div className={`bp-settings__banner${state.validation.result.valid ? '' : ' bp-settings__banner--error'}`}>
+          {state.validation.title}
+          <ul>
+            {state.validation.result.errors.map((error) => <li key={error}>⚠ {error}</li>)}
+            {state.validation.result.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+          </ul>
+          <button className="bp-btn bp-btn--secondary bp-btn--small" onClick={() => dispatch({ type: 'SET_VALIDATION', payload: null })}>
+            {t('settings.btn.dismiss')}
+          </button>
+        </div>
+      )}
+
+      {(lint.errors.length > 0 || lint.warnings.length > 0) && (
+        <div className={`bp-settings__banner${lint.valid ? '' : ' bp-settings__banner--error'}`}>
+          <details open={!lint.valid}>
+            <summary>
+              {lint.valid
+                ? t('settings.lint.warnings', { count: lint.warnings.length })
+                : t('settings.lint.errors', { count: lint.errors.length })}
+            </summary>
+            <ul>
+              {lint.errors.map((error) => <li key={error}>⚠ {error}</li>)}
+              {lint.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+            </ul>
+          </details>
+        </div>
+      )}
+
       {/* ── Action bar ── */}
       <div className="bp-settings__actions">
-        <button className="bp-btn bp-btn--primary" disabled={state.saving} onClick={handleSave}>
+        <input
+          type="text"
+          className="bp-settings__input bp-settings__comment"
+          value={state.saveComment}
+          placeholder={t('settings.history.commentPlaceholder')}
+          onChange={(e) => dispatch({ type: 'SET_COMMENT', payload: e.target.value })}
+        />
+        <button
+          className="bp-btn bp-btn--primary"
+          disabled={state.saving || !!state.loadError || !lint.valid}
+          title={lint.valid ? undefined : t('settings.lint.blocked')}
+          onClick={handleSave}
+        >
           {state.saving ? '…' : t('settings.btn.save')}
         </button>
         <button className="bp-btn bp-btn--secondary" onClick={handleExport}>
           {t('settings.btn.export')}
         </button>
+        <button className="bp-btn bp-btn--secondary" onClick={handleExportYaml}>
+          {t('settings.btn.exportYaml')}
+        </button>
+        <button className="bp-btn bp-btn--secondary" onClick={handleExportSchema}>
+          {t('settings.btn.exportSchema')}
+        </button>
         <label className="bp-btn bp-btn--secondary" style={{ cursor: 'pointer' }}>
           {t('settings.btn.import')}
-          <input type="file" accept=".json" style={{ display: 'none' }} onChange={handleImportFile} />
+          <input type="file" accept=".json,.yml,.yaml" style={{ display: 'none' }} onChange={handleImportFile} />
         </label>
         <button className="bp-btn bp-btn--secondary" onClick={() => dispatch({ type: 'TOGGLE_JSON_EDITOR' })}>
           {state.showJsonEditor ? 'Hide JSON editor' : 'Edit raw JSON'}
@@ -337,6 +1302,41 @@ const SettingsHub: React.FC = () => {
         </button>
       </div>
 
+      {/* ── Import preview ── */}
+      {state.importPreview && importResult && (
+        <div className="bp-settings__json-section bp-settings__import-preview">
+          <h3>{t('settings.import.title', { file: state.importPreview.fileName })}</h3>
+          <div className="bp-settings__field">
+            <label>{t('settings.import.mode')}</label>
+            <select className="bp-settings__select" value={state.importPreview.mode}
+              onChange={(e) => dispatch({ type: 'SET_IMPORT_MODE', payload: e.target.value as ImportMode })}>
+              <option value="replace">{t('settings.import.mode.replace')}</option>
+              <option value="merge">{t('settings.import.mode.merge')}</option>
+            </select>
+          </div>
+          {!importResult.validation.valid ? (
+            <div className="bp-settings__banner bp-settings__banner--error">
+              {t('settings.validation.rejected')}
+              <ul>
+                {importResult.validation.errors.map((error) => <li key={error}>⚠ {error}</li>)}
+              </ul>
+            </div>
+          ) : importResult.changes.length === 0
+            ? <p className="bp-hint">{t('settings.import.noChanges')}</p>
+            : <ChangesTable changes={importResult.changes} />}
+          <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+            <button className="bp-btn bp-btn--primary bp-btn--small"
+              disabled={!importResult.validation.valid} onClick={handleApplyImport}>
+              {t('settings.import.apply')}
+            </button>
+            <button className="bp-btn bp-btn--secondary bp-btn--small"
+              onClick={() => dispatch({ type: 'IMPORT_PREVIEW', payload: null })}>
+              {t('settings.import.cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* ── Raw JSON editor ── */}
       {state.showJsonEditor && (
         <div className="bp-settings__json-section">
@@ -370,6 +1370,12 @@ const SettingsHub: React.FC = () => {
         >
           {t('settings.section.general')}
         </button>
+        <button
+          className={`bp-settings__tab${activeTab === 'conditionalRules' ? ' bp-settings__tab--active' : ''}`}
+          onClick={() => dispatch({ type: 'SET_TAB', payload: 'conditionalRules' })}
+        >
+          {t('settings.section.conditionalRules')}
+        </button>
         <button
           className={`bp-settings__tab${activeTab === 'sourceBranchRules' ? ' bp-settings__tab--active' : ''}`}
           onClick={() => dispatch({ type: 'SET_TAB', payload: 'sourceBranchRules' })}
@@ -382,6 +1388,24 @@ const SettingsHub: React.FC = () => {
         >
           {t('settings.section.workItemTypeRules')}
         </button>
+        <button
+          className={`bp-settings__tab${activeTab === 'baseBranchRules' ? ' bp-settings__tab--active' : ''}`}
+          onClick={() => dispatch({ type: 'SET_TAB', payload: 'baseBranchRules' })}
+        >
+          {t('settings.section.baseBranchRules')}
+        </button>
+        <button
+          className={`bp-settings__tab${activeTab === 'presets' ? ' bp-settings__tab--active' : ''}`}
+          onClick={() => dispatch({ type: 'SET_TAB', payload: 'presets' })}
+        >
+          {t('settings.section.presets')}
+        </button>
+        <button
+          className={`bp-settings__tab${activeTab === 'history' ? ' bp-settings__tab--active' : ''}`}
+          onClick={() => dispatch({ type: 'SET_TAB', payload: 'history' })}
+        >
+          {t('settings.section.history')}
+        </button>
       </div>
 
       {/* ── Tab content ── */}
@@ -391,8 +1415,23 @@ const SettingsHub: React.FC = () => {
           <>
             <p className="bp-settings__tab-description">{t('settings.tab.general.description')}</p>
 
+            {state.scope === 'project' && (
+              <label className="bp-settings__checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={!!config.inheritance?.enabled}
+                  onChange={(e) => setInheritance(e.target.checked)}
+                />
+                {t('settings.inheritance.enabled')}
+                <InfoTooltip text={t('settings.tooltip.inheritance')} />
+              </label>
+            )}
+            {inheriting && !state.orgConfig && (
+              <span className="bp-hint">{t('settings.inheritance.noOrganization')}</span>
+            )}
+
             <div className="bp-settings__field">
-              <label>{t('settings.general.language')}</label>
+              <label>{t('settings.general.language')} {sourceBadge('general.language')}</label>
               <select
                 className="bp-settings__input bp-settings__input--narrow"
                 value={config.general.language || 'en'}
@@ -414,11 +1453,24 @@ const SettingsHub: React.FC = () => {
                 onChange={(e) => setGeneral('lowercase', e.target.checked)}
               />
               {t('settings.general.lowercase')}
+              {sourceBadge('general.lowercase')}
+            </label>
+
+            <label className="bp-settings__checkbox-label">
+              <input
+                type="checkbox"
+                checked={config.general.transliterate ?? false}
+                onChange={(e) => setGeneral('transliterate', e.target.checked)}
+              />
+              {t('settings.general.transliterate')}
+              {sourceBadge('general.transliterate')}
+              <InfoTooltip text={t('settings.tooltip.transliterate')} />
             </label>
 
             <div className="bp-settings__field">
               <label>
                 {t('settings.general.nonAlnumReplacement')}
+                {sourceBadge('general.nonAlnumReplacement')}
                 <InfoTooltip text={t('settings.tooltip.nonAlnumReplacement')} />
               </label>
               <input
@@ -433,6 +1485,7 @@ const SettingsHub: React.FC = () => {
             <div className="bp-settings__field">
               <label>
                 {t('settings.general.maxLength')}
+                {sourceBadge('general.maxLength')}
                 <InfoTooltip text={t('settings.tooltip.maxLength')} />
               </label>
               <input
@@ -445,6 +1498,100 @@ const SettingsHub: React.FC = () => {
               />
             </div>
 
+            <div className="bp-settings__field">
+              <label>
+                {t('settings.general.truncation')}
+                {sourceBadge('general.truncation')}
+                <InfoTooltip text={t('settings.tooltip.truncation')} />
+              </label>
+              <select
+                className="bp-settings__input bp-settings__input--narrow"
+                value={config.general.truncation ?? 'hard'}
+                onChange={(e) => setGeneral('truncation', e.target.value as TruncationStrategy)}
+              >
+                <option value="hard">{t('settings.general.truncation.hard')}</option>
+                <option value="word-boundary">{t('settings.general.truncation.wordBoundary')}</option>
+                <option value="drop-middle-words">{t('settings.general.truncation.dropMiddleWords')}</option>
+              </select>
+            </div>
+
+            <div className="bp-settings__field">
+              <label>
+                {t('settings.general.ancestorDepth')}
+                {sourceBadge('general.ancestorDepth')}
+                <InfoTooltip text={t('settings.tooltip.ancestorDepth')} />
+              </label>
+              <input
+                type="number"
+                className="bp-settings__input bp-settings__input--narrow"
+                min={0}
+                max={MAX_ANCESTOR_DEPTH}
+                value={config.general.ancestorDepth ?? DEFAULT_CONFIG.general.ancestorDepth}
+                onChange={(e) => setGeneral('ancestorDepth', Number(e.target.value))}
+              />
+            </div>
+
+            <div className="bp-settings__field">
+              <label>
+                {t('settings.general.stopWordLanguages')}
+                {sourceBadge('general.stopWordLanguages')}
+                <InfoTooltip text={t('settings.tooltip.stopWordLanguages')} />
+              </label>
+              <input
+                type="text"
+                className="bp-settings__input bp-settings__input--mono"
+                placeholder="en, it"
+                value={(config.general.stopWordLanguages ?? []).join(', ')}
+                onChange={(e) => setGeneral('stopWordLanguages', splitList(e.target.value))}
+              />
+            </div>
+
+            <div className="bp-settings__field">
+              <label>
+                {t('settings.general.stopWords')}
+                {sourceBadge('general.stopWords')}
+                <InfoTooltip text={t('settings.tooltip.stopWords')} />
+              </label>
+              <input
+                type="text"
+                className="bp-settings__input bp-settings__input--mono"
+                placeholder="please, urgent"
+                value={(config.general.stopWords ?? []).join(', ')}
+                onChange={(e) => setGeneral('stopWords', splitList(e.target.value))}
+              />
+            </div>
+
+            <div className="bp-settings__field">
+              <label>
+                {t('settings.general.abbreviations')}
+                {sourceBadge('general.abbreviations')}
+                <InfoTooltip text={t('settings.tooltip.abbreviations')} />
+              </label>
+              <input
+                type="text"
+                className="bp-settings__input bp-settings__input--mono"
+                placeholder="configuration=config, authentication=auth"
+                value={Object.entries(config.general.abbreviations ?? {}).map(([k, v]) => `${k}=${v}`).join(', ')}
+                onChange={(e) => setGeneral('abbreviations', parseAbbreviations(e.target.value))}
+              />
+            </div>
+
+            <div className="bp-settings__field">
+              <label>
+                {t('settings.general.duplicateBranches')}
+                {sourceBadge('general.duplicateBranches')}
+                <InfoTooltip text={t('settings.tooltip.duplicateBranches')} />
+              </label>
+              <select
+                className="bp-settings__input bp-settings__input--narrow"
+                value={config.general.duplicateBranches ?? 'confirm'}
+                onChange={(e) => setGeneral('duplicateBranches', e.target.value as DuplicateBranchPolicy)}
+              >
+                <option value="confirm">{t('settings.general.duplicateBranches.confirm')}</option>
+                <option value="forbid">{t('settings.general.duplicateBranches.forbid')}</option>
+              </select>
+            </div>
+
             <label className="bp-settings__checkbox-label">
               <input
                 type="checkbox"
@@ -452,6 +1599,7 @@ const SettingsHub: React.FC = () => {
                 onChange={(e) => setGeneral('allowManualNameOverride', e.target.checked)}
               />
               {t('settings.general.allowManualOverride')}
+              {sourceBadge('general.allowManualNameOverride')}
               <InfoTooltip text={t('settings.tooltip.allowManualOverride')} />
             </label>
 
@@ -459,6 +1607,7 @@ const SettingsHub: React.FC = () => {
             <div className="bp-settings__field">
               <label>
                 {t('settings.defaults.template')}
+                {sourceBadge('defaults.template')}
                 <InfoTooltip text={t('settings.tooltip.template')} />
               </label>
               <input
@@ -467,15 +1616,38 @@ const SettingsHub: React.FC = () => {
                 value={config.defaults.template}
                 onChange={(e) => setDefaultTemplate(e.target.value)}
               />
-              <span className="bp-hint">{t('settings.defaults.template.hint')}</span>
+              <TemplateHint template={config.defaults.template} />
             </div>
           </>
         )}
 
+        {/* ── Conditional Rules Tab ── */}
+        {activeTab === 'conditionalRules' && (
+          <>
+            <p className="bp-settings__tab-description">{t('settings.tab.conditional.description')}</p>
+            {inheritedRules('rules', (orgBase.rules ?? []).map((r) => r.name))}
+            <div className="bp-settings__rules">
+              {(config.rules ?? []).map((rule, i) => (
+                <ConditionalRuleCard
+                  key={i}
+                  index={i}
+                  rule={rule}
+                  onChange={(updated) => updateConditionalRule(i, updated)}
+                  onRemove={() => removeConditionalRule(i)}
+                />
+              ))}
+            </div>
+            <button className="bp-btn bp-btn--secondary bp-btn--small bp-settings__add-rule-btn" onClick={addConditionalRule}>
+              + {t('settings.conditional.addRule')}
+            </button>
+          </>
+        )}
+
         {/* ── Source Branch Rules Tab ── */}
         {activeTab === 'sourceBranchRules' && (
           <>
             <p className="bp-settings__tab-description">{t('settings.tab.sourceBranch.description')}</p>
+            {inheritedRules('rulesBySourceBranch', orgBase.rulesBySourceBranch.map((r) => r.name))}
             <div className="bp-settings__rules">
               {config.rulesBySourceBranch.map((rule, i) => (
                 <SourceBranchRuleCard
@@ -497,6 +1669,7 @@ const SettingsHub: React.FC = () => {
         {activeTab === 'workItemTypeRules' && (
           <>
             <p className="bp-settings__tab-description">{t('settings.tab.workItemType.description')}</p>
+            {inheritedRules('rulesByWorkItemType', orgBase.rulesByWorkItemType.map((r) => r.workItemType))}
             <div className="bp-settings__rules">
               {config.rulesByWorkItemType.map((rule, i) => (
                 <WorkItemTypeRuleCard
@@ -514,8 +1687,51 @@ const SettingsHub: React.FC = () => {
             </button>
           </>
         )}
+
+        {/* ── Base Branch Rules Tab ── */}
+        {activeTab === 'baseBranchRules' && (
+          <>
+            <p className="bp-settings__tab-description">{t('settings.tab.baseBranch.description')}</p>
+            {inheritedRules('baseBranchRules', (orgBase.baseBranchRules ?? []).map((r) => r.name))}
+            <div className="bp-settings__rules">
+              {(config.baseBranchRules ?? []).map((rule, i) => (
+                <BaseBranchRuleCard
+                  key={i}
+                  index={i}
+                  rule={rule}
+                  onChange={(updated) => updateBaseBranchRule(i, updated)}
+                  onRemove={() => removeBaseBranchRule(i)}
+                />
+              ))}
+            </div>
+            <button className="bp-btn bp-btn--secondary bp-btn--small bp-settings__add-rule-btn" onClick={addBaseBranchRule}>
+              + {t('settings.baseBranch.addRule')}
+            </button>
+          </>
+        )}
+
+        {/* ── Presets Tab ── */}
+        {activeTab === 'presets' && (
+          <PresetsPanel config={state.config} onApply={handleApplyPreset} />
+        )}
+
+        {/* ── History Tab ── */}
+        {activeTab === 'history' && configServiceRef && (
+          <HistoryPanel
+            service={configServiceRef}
+            scope={state.scope}
+            revision={state.historyRevision}
+            onRestore={handleRestore}
+          />
+        )}
       </div>
 
+      {/* ── Explain a branch name ── */}
+      <ExplainPanel config={effectiveConfig} workItemTypes={state.workItemTypes} user={state.user} />
+
+      {/* ── Simulator ── */}
+      <SimulatorPanel config={effectiveConfig} projectId={state.projectId} user={state.user} />
+
       {/* ── Toast ── */}
       {state.toast && (
         <div className={`bp-settings__toast bp-settings__toast--${state.toast.type}`}>
@@ -526,6 +1742,321 @@ const SettingsHub: React.FC = () => {
   );
 };
 
+// ─── Conditional Rule Card ────────────────────────────────────────────────────
+
+const PREDICATE_KINDS: RulePredicate['kind'][] = [
+  'sourceBranch', 'workItemType', 'state', 'areaPath', 'iterationPath', 'tags', 'priority', 'field',
+];
+
+function defaultPredicate(kind: RulePredicate['kind']): RulePredicate {
+  switch (kind) {
+    case 'sourceBranch': return { kind, matchType: 'glob', match: '' };
+    case 'workItemType': return { kind, types: [] };
+    case 'state': return { kind, states: [] };
+    case 'areaPath': return { kind, under: '' };
+    case 'iterationPath': return { kind, under: '' };
+    case 'tags': return { kind, tags: [], mode: 'any' };
+    case 'priority': return { kind, min: 1, max: 1 };
+    case 'field': return { kind, field: '', operator: 'equals', value: '' };
+  }
+}
+
+/** Splits a comma-separated input into trimmed, non-empty values */
+function splitList(value: string): string[] {
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/** Parses "word=short, word=short" into an abbreviation map */
+function parseAbbreviations(value: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of splitList(value)) {
+    const [word, ...rest] = entry.split('=');
+    if (word.trim()) result[word.trim()] = rest.join('=').trim();
+  }
+  return result;
+}
+
+interface ConditionalRuleCardProps {
+  index: number;
+  rule: ConditionalRule;
+  onChange: (rule: ConditionalRule) => void;
+  onRemove: () => void;
+}
+
+const ConditionalRuleCard: React.FC<ConditionalRuleCardProps> = ({ index, rule, onChange, onRemove }) => {
+  const set = <K extends keyof ConditionalRule>(key: K, value: ConditionalRule[K]) =>
+    onChange({ ...rule, [key]: value });
+
+  return (
+    <div className="bp-settings__rule-card">
+      <div className="bp-settings__rule-card-header">
+        <span>Rule #{index + 1}</span>
+        <button className="bp-btn bp-btn--danger bp-btn--small" onClick={onRemove}>
+          {t('settings.conditional.removeRule')}
+        </button>
+      </div>
+
+      <div className="bp-settings__field">
+        <label>{t('settings.conditional.name')}</label>
+        <input type="text" className="bp-settings__input bp-settings__input--wide"
+          value={rule.name} onChange={(e) => set('name', e.target.value)} />
+      </div>
+
+      <div className="bp-settings__field">
+        <label>
+          {t('settings.conditional.priority')}
+          <InfoTooltip text={t('settings.tooltip.priority')} />
+        </label>
+        <input type="number" className="bp-settings__input bp-settings__input--narrow"
+          value={rule.priority ?? 0} onChange={(e) => set('priority', Number(e.target.value))} />
+      </div>
+
+      <ConditionEditor condition={rule.when} kinds={PREDICATE_KINDS} onChange={(when) => set('when', when)} />
+
+      <div className="bp-settings__field">
+        <label>
+          {t('settings.conditional.prefix')}
+          <InfoTooltip text={t('settings.tooltip.prefix')} />
+        </label>
+        <input type="text" className="bp-settings__input bp-settings__input--wide bp-settings__input--mono"
+          value={rule.prefix ?? ''} onChange={(e) => set('prefix', e.target.value)}
+          placeholder="app/bugfix/" />
+      </div>
+
+      <div className="bp-settings__field bp-settings__rule-card--full">
+        <label>
+          {t('settings.conditional.template')}
+          <InfoTooltip text={t('settings.tooltip.template')} />
+        </label>
+        <input type="text" className="bp-settings__input bp-settings__input--wide bp-settings__input--mono"
+          value={rule.template} onChange={(e) => set('template', e.target.value)}
+          placeholder="{prefix}{wi.id}-{wi.title}" />
+        <TemplateHint template={rule.template} />
+      </div>
+
+      <div className="bp-settings__field">
+        <label className="bp-settings__checkbox-label">
+          <input type="checkbox" checked={rule.workItemState?.enabled ?? false}
+            onChange={(e) => set('workItemState', { enabled: e.target.checked, state: rule.workItemState?.state ?? '' })} />
+          {t('settings.conditional.stateEnabled')}
+          <InfoTooltip text={t('settings.tooltip.stateOnCreate')} />
+        </label>
+      </div>
+
+      {rule.workItemState?.enabled && (
+        <div className="bp-settings__field">
+          <label>{t('settings.conditional.state')}</label>
+          <input type="text" className="bp-settings__input bp-settings__input--wide"
+            value={rule.workItemState.state}
+            onChange={(e) => set('workItemState', { enabled: true, state: e.target.value })}
+            placeholder="Active" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ─── Base Branch Rule Card ────────────────────────────────────────────────────
+
+/** Source-branch predicates never match before a base branch is chosen */
+const BASE_BRANCH_PREDICATE_KINDS = PREDICATE_KINDS.filter((kind) => kind !== 'sourceBranch');
+
+interface BaseBranchRuleCardProps {
+  index: number;
+  rule: BaseBranchRule;
+  onChange: (rule: BaseBranchRule) => void;
+  onRemove: () => void;
+}
+
+const BaseBranchRuleCard: React.FC<BaseBranchRuleCardProps> = ({ index, rule, onChange, onRemove }) => {
+  const set = <K extends keyof BaseBranchRule>(key: K, value: BaseBranchRule[K]) =>
+    onChange({ ...rule, [key]: value });
+  const matchType = rule.matchType ?? 'glob';
+
+  return (
+    <div className="bp-settings__rule-card">
+      <div className="bp-settings__rule-card-header">
+        <span>Rule #{index + 1}</span>
+        <button className="bp-btn bp-btn--danger bp-btn--small" onClick={onRemove}>
+          {t('settings.conditional.removeRule')}
+        </button>
+      </div>
+
+      <div className="bp-settings__field">
+        <label>{t('settings.conditional.name')}</label>
+        <input type="text" className="bp-settings__input bp-settings__input--wide"
+          value={rule.name} onChange={(e) => set('name', e.target.value)} />
+      </div>
+
+      <div className="bp-settings__field">
+        <label>
+          {t('settings.conditional.priority')}
+          <InfoTooltip text={t('settings.tooltip.priority')} />
+        </label>
+        <input type="number" className="bp-settings__input bp-settings__input--narrow"
+          value={rule.priority ?? 0} onChange={(e) => set('priority', Number(e.target.value))} />
+      </div>
+
+      <ConditionEditor condition={rule.when} kinds={BASE_BRANCH_PREDICATE_KINDS} onChange={(when) => set('when', when)} />
+
+      <div className="bp-settings__field">
+        <label>
+          {t('settings.sourceBranch.matchType')}
+          <InfoTooltip text={t('settings.tooltip.matchType')} />
+        </label>
+        <select className="bp-settings__select" value={matchType}
+          onChange={(e) => set('matchType', e.target.value as 'glob' | 'regex')}>
+          <option value="glob">Glob</option>
+          <option value="regex">Regex</option>
+        </select>
+      </div>
+
+      <div className="bp-settings__field">
+        <label>
+          {t('settings.baseBranch.branch')}
+          <InfoTooltip text={t('settings.tooltip.baseBranch')} />
+        </label>
+        <input type="text" className="bp-settings__input bp-settings__input--wide bp-settings__input--mono"
+          value={rule.branch} onChange={(e) => set('branch', e.target.value)}
+          placeholder={matchType === 'glob' ? 'hotfix/*' : '^release/\\d+\\.\\d+$'} />
+      </div>
+    </div>
+  );
+};
+
+/** "Apply when" selector plus the predicate list of a rule condition */
+const ConditionEditor: React.FC<{
+  condition: RuleCondition | undefined;
+  kinds: RulePredicate['kind'][];
+  onChange: (condition: RuleCondition) => void;
+}> = ({ condition, kinds, onChange }) => {
+  const match = condition?.match ?? 'all';
+  const predicates = condition?.predicates ?? [];
+  const setPredicates = (next: RulePredicate[]) => onChange({ match, predicates: next });
+  const setPredicate = (i: number, predicate: RulePredicate) =>
+    setPredicates(predicates.map((p, j) => (j === i ? predicate : p)));
+
+  return (
+    <>
+      <div className="bp-settings__field bp-settings__rule-card--full">
+        <label>{t('settings.conditional.match')}</label>
+        <select className="bp-settings__select" value={match}
+          onChange={(e) => onChange({ match: e.target.value as 'all' | 'any', predicates })}>
+          <option value="all">{t('settings.conditional.match.all')}</option>
+          <option value="any">{t('settings.conditional.match.any')}</option>
+        </select>
+      </div>
+
+      <div className="bp-settings__predicates bp-settings__rule-card--full">
+        {predicates.map((predicate, i) => (
+          <div key={i} className="bp-settings__predicate">
+            <select className="bp-settings__select" value={predicate.kind}
+              onChange={(e) => setPredicate(i, defaultPredicate(e.target.value as RulePredicate['kind']))}>
+              {kinds.map((kind) => (
+                <option key={kind} value={kind}>{t(`settings.predicate.${kind}` as I18nKey)}</option>
+              ))}
+            </select>
+            <PredicateFields predicate={predicate} onChange={(p) => setPredicate(i, p)} />
+            <button className="bp-btn bp-btn--secondary bp-btn--small"
+              onClick={() => setPredicates(predicates.filter((_, j) => j !== i))}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <button className="bp-btn bp-btn--secondary bp-btn--small bp-settings__add-rule-btn"
+          onClick={() => setPredicates([...predicates, defaultPredicate('workItemType')])}>
+          + {t('settings.conditional.addPredicate')}
+        </button>
+      </div>
+    </>
+  );
+};
+
+/** Inputs for the kind-specific parameters of a rule predicate */
+const PredicateFields: React.FC<{ predicate: RulePredicate; onChange: (p: RulePredicate) => void }> = ({ predicate, onChange }) => {
+  const inputClass = 'bp-settings__input bp-settings__input--wide bp-settings__input--mono';
+
+  switch (predicate.kind) {
+    case 'sourceBranch':
+      return (
+        <>
+          <select className="bp-settings__select" value={predicate.matchType}
+            onChange={(e) => onChange({ ...predicate, matchType: e.target.value as 'glob' | 'regex' })}>
+            <option value="glob">Glob</option>
+            <option value="regex">Regex</option>
+          </select>
+          <input type="text" className={inputClass} value={predicate.match}
+            placeholder={predicate.matchType === 'glob' ? 'app/develop' : '^app/develop$'}
+            onChange={(e) => onChange({ ...predicate, match: e.target.value })} />
+        </>
+      );
+    case 'workItemType':
+      return (
+        <input type="text" className={inputClass} value={predicate.types.join(', ')}
+          placeholder="Bug, Issue"
+          onChange={(e) => onChange({ ...predicate, types: splitList(e.target.value) })} />
+      );
+    case 'state':
+      return (
+        <input type="text" className={inputClass} value={predicate.states.join(', ')}
+          placeholder="New, Approved"
+          onChange={(e) => onChange({ ...predicate, states: splitList(e.target.value) })} />
+      );
+    case 'areaPath':
+    case 'iterationPath':
+      return (
+        <input type="text" className={inputClass} value={predicate.under}
+          placeholder={predicate.kind === 'areaPath' ? 'Project\\Mobile' : 'Project\\Sprint 42'}
+          onChange={(e) => onChange({ ...predicate, under: e.target.value })} />
+      );
+    case 'tags':
+      return (
+        <>
+          <select className="bp-settings__select" value={predicate.mode}
+            onChange={(e) => onChange({ ...predicate, mode: e.target.value as 'all' | 'any' })}>
+            <option value="any">{t('settings.conditional.match.any')}</option>
+            <option value="all">{t('settings.conditional.match.all')}</option>
+          </select>
+          <input type="text" className={inputClass} value={predicate.tags.join(', ')}
+            placeholder="mobile, customer"
+            onChange={(e) => onChange({ ...predicate, tags: splitList(e.target.value) })} />
+        </>
+      );
+    case 'priority':
+      return (
+        <>
+          <input type="number" className="bp-settings__input bp-settings__input--narrow" value={predicate.min ?? ''}
+            placeholder="min"
+            onChange={(e) => onChange({ ...predicate, min: e.target.value === '' ? undefined : Number(e.target.value) })} />
+          <input type="number" className="bp-settings__input bp-settings__input--narrow" value={predicate.max ?? ''}
+            placeholder="max"
+            onChange={(e) => onChange({ ...predicate, max: e.target.value === '' ? undefined : Number(e.target.value) })} />
+        </>
+      );
+    case 'field':
+      return (
+        <>
+          <input type="text" className={inputClass} value={predicate.field}
+            placeholder="Custom.Component"
+            onChange={(e) => onChange({ ...predicate, field: e.target.value })} />
+          <select className="bp-settings__select" value={predicate.operator}
+            onChange={(e) => onChange({ ...predicate, operator: e.target.value as typeof predicate.operator })}>
+            <option value="equals">=</option>
+            <option value="contains">{t('settings.predicate.operator.contains')}</option>
+            <option value="regex">Regex</option>
+            <option value="exists">{t('settings.predicate.operator.exists')}</option>
+          </select>
+          {predicate.operator !== 'exists' && (
+            <input type="text" className={inputClass} value={predicate.value ?? ''}
+              onChange={(e) => onChange({ ...predicate, value: e.target.value })} />
+          )}
+        </>
+      );
+    default:
+      return null;
+  }
+};
+
 // ─── Source Branch Rule Card ──────────────────────────────────────────────────
 
 interface SourceBranchRuleCardProps {
@@ -594,7 +2125,7 @@ const SourceBranchRuleCard: React.FC<SourceBranchRuleCardProps> = ({ index, rule
         <input type="text" className="bp-settings__input bp-settings__input--wide bp-settings__input--mono"
           value={rule.template} onChange={(e) => set('template', e.target.value)}
           placeholder="{prefix}{wi.id}-{wi.title}" />
-        <span className="bp-hint">{t('settings.defaults.template.hint')}</span>
+        <TemplateHint template={rule.template} />
       </div>
 
       <div className="bp-settings__field">
@@ -672,7 +2203,7 @@ const WorkItemTypeRuleCard: React.FC<WorkItemTypeRuleCardProps> = ({ index, rule
         <input type="text" className="bp-settings__input bp-settings__input--wide bp-settings__input--mono"
           value={rule.template} onChange={(e) => set('template', e.target.value)}
           placeholder="{prefix}{wi.id}-{wi.title}" />
-        <span className="bp-hint">{t('settings.defaults.template.hint')}</span>
+        <TemplateHint template={rule.template} />
       </div>
 
       <div className="bp-settings__field">